@@ -0,0 +1,39 @@
+import React from 'react';
+import Link from 'next/link';
+import type { AuthorSummary } from '@/types/paper';
+
+interface AuthorLinksProps {
+  authors?: AuthorSummary[];
+  // Show this many names, then "et al."
+  max?: number;
+}
+
+// Author names linking to their profile pages. Only OpenAlex author IDs
+// (A...) have a profile; other authors are shown as plain text.
+export function AuthorLinks({ authors, max }: AuthorLinksProps) {
+  if (!authors || authors.length === 0) return <>Unknown authors</>;
+
+  const shown = max !== undefined && authors.length > max ? authors.slice(0, max) : authors;
+
+  return (
+    <>
+      {shown.map((author, index) => (
+        <React.Fragment key={`${author.authorId}-${index}`}>
+          {index > 0 && ', '}
+          {/^A\d+$/i.test(author.authorId) ? (
+            <Link
+              href={`/author/${author.authorId}`}
+              onClick={(e) => e.stopPropagation()}
+              className="hover:text-blue-600 hover:underline"
+            >
+              {author.name}
+            </Link>
+          ) : (
+            author.name
+          )}
+        </React.Fragment>
+      ))}
+      {shown.length < authors.length && ' et al.'}
+    </>
+  );
+}
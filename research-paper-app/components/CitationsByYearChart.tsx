@@ -0,0 +1,80 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import type { AuthorProfile } from '@/types/paper';
+
+interface CitationsByYearChartProps {
+  counts: AuthorProfile['countsByYear'];
+  width?: number;
+  height?: number;
+}
+
+const MARGIN = { top: 16, right: 16, bottom: 28, left: 48 };
+
+// Bar chart of citations received per year
+export default function CitationsByYearChart({
+  counts,
+  width = 640,
+  height = 240
+}: CitationsByYearChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    // Clear previous content
+    d3.select(svgRef.current).selectAll('*').remove();
+    if (!counts.length) return;
+
+    const svg = d3.select(svgRef.current);
+    const innerWidth = width - MARGIN.left - MARGIN.right;
+    const innerHeight = height - MARGIN.top - MARGIN.bottom;
+
+    const x = d3.scaleBand<number>()
+      .domain(counts.map(d => d.year))
+      .range([0, innerWidth])
+      .padding(0.2);
+
+    const y = d3.scaleLinear()
+      .domain([0, d3.max(counts, d => d.citationCount) || 1])
+      .nice()
+      .range([innerHeight, 0]);
+
+    const chart = svg.append('g')
+      .attr('transform', `translate(${MARGIN.left},${MARGIN.top})`);
+
+    chart.append('g')
+      .attr('transform', `translate(0,${innerHeight})`)
+      .call(d3.axisBottom(x).tickSizeOuter(0))
+      .style('font-size', '10px');
+
+    chart.append('g')
+      .call(d3.axisLeft(y).ticks(5).tickFormat(d3.format('~s')))
+      .style('font-size', '10px');
+
+    chart.selectAll('.bar')
+      .data(counts)
+      .enter()
+      .append('rect')
+      .attr('class', 'bar')
+      .attr('x', d => x(d.year) ?? 0)
+      .attr('y', d => y(d.citationCount))
+      .attr('width', x.bandwidth())
+      .attr('height', d => innerHeight - y(d.citationCount))
+      .attr('fill', '#7c3aed')
+      .attr('rx', 2)
+      .append('title')
+      .text(d => `${d.year}: ${d.citationCount.toLocaleString()} citations, ${d.worksCount.toLocaleString()} works`);
+  }, [counts, width, height]);
+
+  if (!counts.length) {
+    return <p className="text-sm text-gray-500">No yearly citation data available.</p>;
+  }
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${width} ${height}`}
+      className="w-full h-auto"
+    />
+  );
+}
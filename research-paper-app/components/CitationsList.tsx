@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import type { Citation } from '@/types/paper';
+import { AuthorLinks } from './AuthorLinks';
 
 interface CitationsListProps {
   paperId: string;
@@ -34,12 +35,6 @@ export function CitationsList({ paperId }: CitationsListProps) {
     }
   };
 
-  const formatAuthors = (authors?: Array<{ name: string }>) => {
-    if (!authors || authors.length === 0) return 'Unknown authors';
-    if (authors.length <= 3) return authors.map(a => a.name).join(', ');
-    return `${authors.slice(0, 3).map(a => a.name).join(', ')} et al.`;
-  };
-
   if (loading) {
     return (
       <div className="flex items-center justify-center py-8">
@@ -100,7 +95,7 @@ export function CitationsList({ paperId }: CitationsListProps) {
                   {citation.title}
                 </h4>
                 <p className="text-sm text-gray-600 mb-2">
-                  {formatAuthors(citation.authors)}
+                  <AuthorLinks authors={citation.authors} max={3} />
                   {citation.year && ` • ${citation.year}`}
                   {citation.venue && ` • ${citation.venue}`}
                 </p>
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import type { PassageMatch } from '@/types/paper';
+import { splitCitations } from '@/lib/citations';
+
+interface CitedMessageProps {
+  content: string;
+  passages?: PassageMatch[];
+  unsupportedCitations?: number[];
+}
+
+export function CitedMessage({ content, passages = [], unsupportedCitations = [] }: CitedMessageProps) {
+  const [activeCitation, setActiveCitation] = useState<number | null>(null);
+
+  const activePassage = activeCitation !== null ? passages[activeCitation - 1] : undefined;
+
+  const toggleCitation = (n: number) => {
+    setActiveCitation(prev => (prev === n ? null : n));
+  };
+
+  return (
+    <div>
+      <p className="text-sm whitespace-pre-wrap">
+        {splitCitations(content).map((segment, i) => {
+          if (segment.type === 'text') {
+            return <React.Fragment key={i}>{segment.text}</React.Fragment>;
+          }
+
+          return (
+            <span key={i} className="whitespace-nowrap">
+              {segment.numbers.map((n) => {
+                const supported = n >= 1 && n <= passages.length;
+                return supported ? (
+                  <button
+                    key={n}
+                    onClick={() => toggleCitation(n)}
+                    className={`mx-0.5 px-1.5 py-0.5 text-xs font-medium rounded ${
+                      activeCitation === n
+                        ? 'bg-purple-600 text-white'
+                        : 'bg-purple-100 text-purple-800 hover:bg-purple-200'
+                    }`}
+                    title={passages[n - 1].title}
+                  >
+                    {n}
+                  </button>
+                ) : (
+                  <span
+                    key={n}
+                    className="mx-0.5 px-1.5 py-0.5 text-xs font-medium rounded bg-red-100 text-red-700 line-through"
+                    title="This citation does not match any retrieved passage"
+                  >
+                    {n}
+                  </span>
+                );
+              })}
+            </span>
+          );
+        })}
+      </p>
+
+      {activePassage && (
+        <div className="mt-2 p-2 bg-white border border-purple-200 rounded text-xs text-gray-700">
+          <p className="font-medium text-gray-500 mb-1">
+            [{activeCitation}] {activePassage.title}{activePassage.figureLabel && ` — ${activePassage.figureLabel}`}
+          </p>
+          <blockquote className="border-l-2 border-purple-300 pl-2 italic whitespace-pre-wrap">
+            {activePassage.text}
+          </blockquote>
+        </div>
+      )}
+
+      {unsupportedCitations.length > 0 && (
+        <p className="mt-2 text-xs text-red-600">
+          ⚠️ Some citations ({unsupportedCitations.map(n => `[${n}]`).join(', ')}) do not match any retrieved passage.
+        </p>
+      )}
+    </div>
+  );
+}
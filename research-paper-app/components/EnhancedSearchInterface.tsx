@@ -1,7 +1,8 @@
 'use client';
 
 import React, { useState, useCallback } from 'react';
-import type { Paper, CacheResult } from '@/types/paper';
+import Link from 'next/link';
+import type { AuthorProfile, Paper, CacheResult, SearchPage } from '@/types/paper';
 import type { Filters } from '@/types/filters';
 import { PaperCard } from './PaperCard';
 import { CacheStatus } from './CacheStatus';
@@ -23,6 +24,45 @@ export default function EnhancedSearchInterface({ onPaperSelect }: EnhancedSearc
   const [error, setError] = useState<string | null>(null);
   const [searchHistory, setSearchHistory] = useState<string[]>([]);
   const [showResults, setShowResults] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalCount, setTotalCount] = useState(0);
+  const [searchMode, setSearchMode] = useState<'papers' | 'authors'>('papers');
+  const [authors, setAuthors] = useState<AuthorProfile[] | null>(null);
+
+  // One page of results; the cursor comes from the previous page's response
+  const fetchPage = useCallback(async (searchQuery: string, filters?: Filters, cursor?: string): Promise<SearchPage> => {
+    const response = await fetch('/api/search-papers', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        query: searchQuery.trim(),
+        limit: 25,
+        filters: filters || undefined,
+        cursor
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        throw new Error(`Rate limit exceeded. Please wait ${data.retryAfter || 60} seconds before trying again.`);
+      } else {
+        throw new Error(data.message || data.error || 'Search failed');
+      }
+    }
+
+    const result: CacheResult = data.data;
+    setCacheInfo(data.cacheInfo);
+
+    return {
+      papers: result.successful,
+      nextCursor: data.meta?.nextCursor ?? null,
+      totalCount: data.meta?.count ?? result.successful.length
+    };
+  }, []);
 
   const handleSearch = useCallback(async (searchQuery: string, filters?: Filters) => {
     if (!searchQuery.trim()) return [];
@@ -32,33 +72,11 @@ export default function EnhancedSearchInterface({ onPaperSelect }: EnhancedSearc
     setCacheInfo(null);
 
     try {
-      const response = await fetch('/api/search-papers', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          query: searchQuery.trim(),
-          limit: 25,
-          filters: filters || undefined
-        }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (response.status === 429) {
-          throw new Error(`Rate limit exceeded. Please wait ${data.retryAfter || 60} seconds before trying again.`);
-        } else {
-          throw new Error(data.error || 'Search failed');
-        }
-      }
-
-      const result: CacheResult = data.data;
-      const papers = result.successful;
+      const page = await fetchPage(searchQuery, filters);
       
-      setResults(papers);
-      setCacheInfo(data.cacheInfo);
+      setResults(page.papers);
+      setNextCursor(page.nextCursor);
+      setTotalCount(page.totalCount);
       setShowResults(true);
 
       // Add to search history
@@ -66,7 +84,7 @@ export default function EnhancedSearchInterface({ onPaperSelect }: EnhancedSearc
         setSearchHistory(prev => [searchQuery.trim(), ...prev.slice(0, 9)]);
       }
 
-      return papers;
+      return page.papers;
 
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Network error. Please check your connection.';
@@ -76,19 +94,58 @@ export default function EnhancedSearchInterface({ onPaperSelect }: EnhancedSearc
     } finally {
       setLoading(false);
     }
-  }, [searchHistory]);
+  }, [searchHistory, fetchPage]);
+
+  // Authors by name, most cited first; each links to their profile page
+  const handleAuthorSearch = useCallback(async (searchQuery: string) => {
+    if (searchQuery.trim().length < 2) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/authors?q=${encodeURIComponent(searchQuery.trim())}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Author search failed');
+      }
+
+      setAuthors(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error. Please check your connection.');
+      setAuthors(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const runSearch = (searchQuery: string) => {
+    if (searchMode === 'authors') {
+      handleAuthorSearch(searchQuery);
+    } else {
+      handleSearch(searchQuery);
+    }
+  };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !loading) {
-      handleSearch(query);
+      runSearch(query);
     }
   };
 
   const handleHistoryClick = (historyQuery: string) => {
+    setSearchMode('papers');
     setQuery(historyQuery);
     handleSearch(historyQuery);
   };
 
+  const handleModeChange = (mode: 'papers' | 'authors') => {
+    setSearchMode(mode);
+    setAuthors(null);
+    setError(null);
+  };
+
   const handleClearResults = () => {
     setResults([]);
     setShowResults(false);
@@ -102,7 +159,9 @@ export default function EnhancedSearchInterface({ onPaperSelect }: EnhancedSearc
       <SearchResults
         query={query}
         initialResults={results}
-        onSearch={handleSearch}
+        initialNextCursor={nextCursor}
+        initialTotalCount={totalCount}
+        onSearch={fetchPage}
       />
     );
   }
@@ -121,19 +180,36 @@ export default function EnhancedSearchInterface({ onPaperSelect }: EnhancedSearc
 
       {/* Search Input */}
       <div className="mb-6">
+        <div className="flex gap-1 mb-3" role="tablist">
+          {(['papers', 'authors'] as const).map(mode => (
+            <button
+              key={mode}
+              role="tab"
+              aria-selected={searchMode === mode}
+              onClick={() => handleModeChange(mode)}
+              className={`px-4 py-1.5 text-sm rounded-full transition-colors ${
+                searchMode === mode
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {mode === 'papers' ? 'Papers' : 'Authors'}
+            </button>
+          ))}
+        </div>
         <div className="flex gap-2">
           <input
             type="text"
             value={query}
             onChange={(e) => setQuery(e.target.value)}
             onKeyPress={handleKeyPress}
-            placeholder="Search for research papers..."
+            placeholder={searchMode === 'authors' ? 'Search for authors by name...' : 'Search for research papers...'}
             className="flex-1 px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
             disabled={loading}
           />
           <button
-            onClick={() => handleSearch(query)}
-            disabled={loading || !query.trim()}
+            onClick={() => runSearch(query)}
+            disabled={loading || (searchMode === 'authors' ? query.trim().length < 2 : !query.trim())}
             className="px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded-lg font-medium transition-colors"
           >
             {loading ? (
@@ -146,6 +222,11 @@ export default function EnhancedSearchInterface({ onPaperSelect }: EnhancedSearc
             )}
           </button>
         </div>
+        {searchMode === 'papers' && (
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Try "exact phrases", AND / OR / NOT, or fields such as title:, abstract:, author:"Geoffrey Hinton", venue:Nature, doi:
+          </p>
+        )}
 
         {/* Search History */}
         {searchHistory.length > 0 && (
@@ -182,12 +263,43 @@ export default function EnhancedSearchInterface({ onPaperSelect }: EnhancedSearc
         />
       )}
 
+      {/* Author Results */}
+      {searchMode === 'authors' && authors && (
+        authors.length > 0 ? (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+            {authors.map(author => (
+              <li key={author.authorId}>
+                <Link
+                  href={`/author/${author.authorId}`}
+                  className="flex justify-between items-center gap-4 px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">{author.name}</p>
+                    {author.affiliations[0] && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">{author.affiliations[0].name}</p>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 text-right whitespace-nowrap">
+                    {author.worksCount.toLocaleString()} works · {author.citationCount.toLocaleString()} citations
+                    {author.hIndex != null && ` · h-index ${author.hIndex}`}
+                  </p>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-gray-500 dark:text-gray-400">No authors found for "{query}".</p>
+          </div>
+        )
+      )}
+
       {/* Quick Results (before going to full results view) */}
-      {results.length > 0 && !showResults && (
+      {searchMode === 'papers' && results.length > 0 && !showResults && (
         <div className="space-y-4">
           <div className="flex justify-between items-center">
             <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
-              Quick Results ({results.length})
+              Quick Results ({totalCount > results.length ? `${results.length} of ${totalCount.toLocaleString()}` : results.length})
             </h2>
             <div className="flex gap-2">
               <button
@@ -229,7 +341,7 @@ export default function EnhancedSearchInterface({ onPaperSelect }: EnhancedSearc
       )}
 
       {/* Empty State */}
-      {!loading && !error && results.length === 0 && query && (
+      {searchMode === 'papers' && !loading && !error && results.length === 0 && query && (
         <div className="text-center py-12">
           <p className="text-gray-500 dark:text-gray-400">
             No papers found for "{query}". Try a different search term or use the advanced filters.
@@ -238,7 +350,7 @@ export default function EnhancedSearchInterface({ onPaperSelect }: EnhancedSearc
       )}
 
       {/* Initial State */}
-      {!loading && !error && results.length === 0 && !query && (
+      {searchMode === 'papers' && !loading && !error && results.length === 0 && !query && (
         <div className="text-center py-12">
           <div className="max-w-md mx-auto">
             <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
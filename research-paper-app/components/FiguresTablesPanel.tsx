@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import type { DocumentFigure } from '@/types/paper';
+
+interface FiguresTablesPanelProps {
+  paperId: string;
+}
+
+export function FiguresTablesPanel({ paperId }: FiguresTablesPanelProps) {
+  const [figures, setFigures] = useState<DocumentFigure[]>([]);
+  const [needsReprocessing, setNeedsReprocessing] = useState(false);
+  const [filter, setFilter] = useState<'all' | DocumentFigure['kind']>('all');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchFigures();
+  }, [paperId]);
+
+  const fetchFigures = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/paper-figures?paperId=${paperId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to fetch figures and tables');
+      }
+
+      setFigures(data.data || []);
+      setNeedsReprocessing(!!data.needsReprocessing);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch figures and tables');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2 text-gray-600">Loading figures and tables...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+        <p className="text-red-700">{error}</p>
+        <button
+          onClick={fetchFigures}
+          className="mt-2 px-3 py-1 text-sm bg-red-100 text-red-700 rounded hover:bg-red-200"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (figures.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <p>
+          {needsReprocessing
+            ? 'This paper was processed before tables and figures were extracted. Process the PDF again to list them.'
+            : "No table or figure captions were found in this paper's PDF."}
+        </p>
+      </div>
+    );
+  }
+
+  const tableCount = figures.filter(f => f.kind === 'table').length;
+  const visible = filter === 'all' ? figures : figures.filter(f => f.kind === filter);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-gray-900">
+          Figures &amp; Tables ({figures.length})
+        </h3>
+        <div className="flex gap-2 text-sm">
+          {([
+            ['all', `All (${figures.length})`],
+            ['table', `Tables (${tableCount})`],
+            ['figure', `Figures (${figures.length - tableCount})`]
+          ] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setFilter(value)}
+              className={`px-3 py-1 rounded-full border ${
+                filter === value
+                  ? 'bg-blue-100 border-blue-300 text-blue-800'
+                  : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {visible.map(figure => (
+          <div
+            key={`${figure.kind}-${figure.number}`}
+            className="p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <div className="flex items-start justify-between gap-4">
+              <p className="text-gray-800">
+                <span className="font-medium text-gray-900">{figure.label}.</span> {figure.caption}
+              </p>
+              <span className="text-xs text-gray-400 whitespace-nowrap">Page {figure.page}</span>
+            </div>
+
+            {figure.content && (
+              <details className="mt-2">
+                <summary className="text-sm text-blue-600 cursor-pointer hover:text-blue-800">
+                  Show table text
+                </summary>
+                <pre className="mt-2 p-3 bg-gray-50 border border-gray-200 rounded text-xs text-gray-700 overflow-x-auto whitespace-pre">
+                  {figure.content}
+                </pre>
+              </details>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import React from 'react';
+import type { IngestionJob } from '@/types/paper';
+
+interface IngestionStatusBadgeProps {
+  job?: IngestionJob;
+  onRetry?: (jobId: string) => void;
+}
+
+const STATUS_STYLES: Record<IngestionJob['status'], { label: string; className: string }> = {
+  pending: { label: 'Queued', className: 'bg-gray-100 text-gray-700' },
+  running: { label: 'Processing…', className: 'bg-blue-100 text-blue-700' },
+  succeeded: { label: 'Ready for chat', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Processing failed', className: 'bg-red-100 text-red-700' }
+};
+
+export function IngestionStatusBadge({ job, onRetry }: IngestionStatusBadgeProps) {
+  if (!job) return null;
+
+  const { label, className } = STATUS_STYLES[job.status];
+  const retrying = job.status === 'pending' && job.attempts > 0;
+
+  return (
+    <span className="inline-flex items-center space-x-2">
+      <span
+        className={`px-2 py-0.5 rounded-full text-xs font-medium ${className}`}
+        title={job.error || undefined}
+      >
+        {retrying ? `Retrying (attempt ${job.attempts + 1}/${job.maxAttempts})` : label}
+      </span>
+      {job.status === 'failed' && onRetry && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onRetry(job.id);
+          }}
+          className="text-xs text-blue-600 hover:text-blue-800"
+        >
+          Retry
+        </button>
+      )}
+    </span>
+  );
+}
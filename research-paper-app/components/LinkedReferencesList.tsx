@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import type { Collection, LinkedReference, Paper } from '@/types/paper';
+
+interface LinkedReferencesListProps {
+  paperId: string;
+}
+
+export function LinkedReferencesList({ paperId }: LinkedReferencesListProps) {
+  const [references, setReferences] = useState<LinkedReference[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [targetCollectionId, setTargetCollectionId] = useState('');
+  const [addingId, setAddingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchReferences();
+    fetchCollections();
+  }, [paperId]);
+
+  const fetchReferences = async (refresh: boolean = false) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/paper-references?paperId=${paperId}${refresh ? '&refresh=true' : ''}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to fetch references');
+      }
+
+      setReferences(data.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch references');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCollections = async () => {
+    try {
+      const response = await fetch('/api/collections');
+      const data = await response.json();
+
+      if (response.ok) {
+        setCollections(data.data || []);
+        setTargetCollectionId(current => current || data.data?.[0]?.id || '');
+      }
+    } catch (err) {
+      console.error('Failed to fetch collections:', err);
+    }
+  };
+
+  const addToCollection = async (paper: Paper) => {
+    if (!targetCollectionId) return;
+
+    setAddingId(paper.paperId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/collections?id=${targetCollectionId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          addPaper: paper
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add paper to collection');
+      }
+
+      setCollections(prev => prev.map(c =>
+        c.id === targetCollectionId ? data.data : c
+      ));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add paper to collection');
+    } finally {
+      setAddingId(null);
+    }
+  };
+
+  const formatAuthors = (authors: string[]) => {
+    if (authors.length === 0) return 'Unknown authors';
+    if (authors.length <= 3) return authors.join(', ');
+    return `${authors.slice(0, 3).join(', ')} et al.`;
+  };
+
+  const targetCollection = collections.find(c => c.id === targetCollectionId);
+  const isInTarget = (paper: Paper) => !!targetCollection?.papers.some(p => p.paperId === paper.paperId);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2 text-gray-600">Linking references...</span>
+      </div>
+    );
+  }
+
+  if (error && references.length === 0) {
+    return (
+      <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+        <p className="text-red-700">{error}</p>
+        <button
+          onClick={() => fetchReferences()}
+          className="mt-2 px-3 py-1 text-sm bg-red-100 text-red-700 rounded hover:bg-red-200"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (references.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <p>No references were found in this paper&apos;s PDF.</p>
+      </div>
+    );
+  }
+
+  const matchedCount = references.filter(r => r.match).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-gray-900">
+          References ({matchedCount}/{references.length} linked)
+        </h3>
+        <div className="flex items-center gap-3">
+          {collections.length > 0 && (
+            <label className="text-sm text-gray-600 flex items-center gap-2">
+              Add to:
+              <select
+                value={targetCollectionId}
+                onChange={(e) => setTargetCollectionId(e.target.value)}
+                className="border border-gray-300 rounded px-2 py-1 text-sm"
+              >
+                {collections.map(collection => (
+                  <option key={collection.id} value={collection.id}>
+                    {collection.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <button
+            onClick={() => fetchReferences(true)}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {references.map(reference => (
+          <div
+            key={reference.index}
+            className="p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <div className="flex items-start justify-between">
+              <div className="flex-1 min-w-0">
+                {reference.match ? (
+                  <>
+                    <Link
+                      href={`/paper/${reference.match.paperId}`}
+                      className="font-medium text-blue-700 hover:text-blue-900"
+                    >
+                      [{reference.index + 1}] {reference.match.title}
+                    </Link>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {formatAuthors(reference.match.authors?.map(a => a.name) || [])}
+                      {reference.match.year && ` • ${reference.match.year}`}
+                      {reference.match.venue && ` • ${reference.match.venue}`}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      Matched by {reference.matchedBy === 'doi' ? 'DOI' : 'title'}
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <h4 className="font-medium text-gray-900">
+                      [{reference.index + 1}] {reference.title || reference.raw}
+                    </h4>
+                    {reference.title && (
+                      <p className="text-sm text-gray-600 mt-1">
+                        {formatAuthors(reference.authors)}
+                        {reference.year && ` • ${reference.year}`}
+                        {reference.venue && ` • ${reference.venue}`}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-1">Not found in OpenAlex</p>
+                  </>
+                )}
+              </div>
+
+              <div className="flex gap-2 ml-4 items-center">
+                {reference.doi && (
+                  <a
+                    href={`https://doi.org/${reference.doi}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-gray-600 hover:text-gray-800 text-sm"
+                  >
+                    DOI
+                  </a>
+                )}
+                {reference.match && targetCollection && (
+                  <button
+                    onClick={() => addToCollection(reference.match!)}
+                    disabled={addingId !== null || isInTarget(reference.match)}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isInTarget(reference.match) ? 'Added' : addingId === reference.match.paperId ? 'Adding...' : 'Add'}
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
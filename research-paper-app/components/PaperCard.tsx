@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useRouter } from 'next/router';
 import type { Paper } from '@/types/paper';
+import { AuthorLinks } from './AuthorLinks';
 
 interface PaperCardProps {
   paper: Paper;
@@ -20,12 +21,6 @@ export function PaperCard({ paper, onSelect }: PaperCardProps) {
     }
   };
 
-  const formatAuthors = (authors?: Array<{ name: string }>) => {
-    if (!authors || authors.length === 0) return 'Unknown authors';
-    if (authors.length <= 3) return authors.map(a => a.name).join(', ');
-    return `${authors.slice(0, 3).map(a => a.name).join(', ')} et al.`;
-  };
-
   return (
     <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-6 hover:shadow-md transition-shadow">
       {/* Title - Clickable to go to detail page */}
@@ -38,7 +33,7 @@ export function PaperCard({ paper, onSelect }: PaperCardProps) {
 
       {/* Authors */}
       <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
-        {formatAuthors(paper.authors)}
+        <AuthorLinks authors={paper.authors} max={3} />
       </p>
 
       {/* Metadata Row */}
@@ -120,6 +115,7 @@ export function PaperCard({ paper, onSelect }: PaperCardProps) {
                   headers: { 'Content-Type': 'application/json' },
                   body: JSON.stringify({
                     pdfUrl: paper.pdfUrl,
+                    paperId: paper.paperId,
                     filename: `${paper.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.pdf`
                   })
                 });
@@ -1,5 +1,7 @@
-import React, { useState, useRef, useEffect } from 'react';
-import type { ChatMessage } from '@/types/paper';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import type { ChatMessage, ChatSession } from '@/types/paper';
+import { CitedMessage } from '@/components/CitedMessage';
+import { readSSEStream } from '@/utils/sse';
 
 interface PaperChatProps {
   paperId?: string;
@@ -20,7 +22,11 @@ export function PaperChat({
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
 
   const isCollectionChat = !!collectionId;
   const chatTitle = isCollectionChat ? collectionName : paperTitle;
@@ -36,6 +42,122 @@ export function PaperChat({
     scrollToBottom();
   }, [messages]);
 
+  const loadSessions = useCallback(async () => {
+    const sessionQuery = collectionId
+      ? `collectionId=${encodeURIComponent(collectionId)}`
+      : `paperId=${encodeURIComponent(paperId || '')}`;
+
+    try {
+      const response = await fetch(`/api/chat-sessions?${sessionQuery}`);
+      const data = await response.json();
+      if (response.ok) {
+        setSessions(data.data);
+      }
+    } catch (err) {
+      console.error('Error loading chat sessions:', err);
+    }
+  }, [paperId, collectionId]);
+
+  // Load previous chats for this paper or collection
+  useEffect(() => {
+    if (!paperId && !collectionId) return;
+    loadSessions();
+  }, [paperId, collectionId, loadSessions]);
+
+  const openSession = async (id: string) => {
+    stopStreaming();
+    setError(null);
+
+    if (!id) {
+      setSessionId(null);
+      setMessages([]);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/chat-sessions?id=${encodeURIComponent(id)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load chat');
+      }
+      setSessionId(id);
+      setMessages(data.data.messages);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load chat');
+    }
+  };
+
+  // Sessions are created on the first message so empty chats are never saved
+  const ensureSession = async (firstMessage: string): Promise<string | null> => {
+    if (sessionId) return sessionId;
+
+    try {
+      const title = firstMessage.length > 60 ? `${firstMessage.slice(0, 57)}...` : firstMessage;
+      const response = await fetch('/api/chat-sessions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(isCollectionChat ? { collectionId, title } : { paperId, title }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create chat session');
+      }
+
+      setSessionId(data.data.id);
+      setSessions(prev => [data.data, ...prev]);
+      return data.data.id;
+    } catch (err) {
+      // Chat still works without persistence
+      console.error('Error creating chat session:', err);
+      return null;
+    }
+  };
+
+  const renameSession = async () => {
+    const current = sessions.find(session => session.id === sessionId);
+    if (!current) return;
+
+    const title = prompt('Rename chat', current.title);
+    if (!title || !title.trim() || title.trim() === current.title) return;
+
+    try {
+      const response = await fetch(`/api/chat-sessions?id=${encodeURIComponent(current.id)}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ title }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to rename chat');
+      }
+      setSessions(prev => prev.map(session => session.id === current.id ? { ...session, title: data.data.title } : session));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename chat');
+    }
+  };
+
+  const deleteSession = async () => {
+    if (!sessionId || !confirm('Delete this chat? This cannot be undone.')) return;
+
+    try {
+      const response = await fetch(`/api/chat-sessions?id=${encodeURIComponent(sessionId)}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete chat');
+      }
+      setSessions(prev => prev.filter(session => session.id !== sessionId));
+      openSession('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete chat');
+    }
+  };
+
   const sendMessage = async () => {
     if (!inputMessage.trim() || isLoading) return;
 
@@ -53,53 +175,84 @@ export function PaperChat({
 
     try {
       const endpoint = isCollectionChat ? '/api/chat-with-collection' : '/api/chat-with-paper';
-      const body = isCollectionChat 
-        ? {
-            collectionId,
-            message: inputMessage,
-            chatHistory: messages.map(msg => ({
-              role: msg.role,
-              content: msg.content
-            }))
-          }
+      const activeSessionId = await ensureSession(userMessage.content);
+
+      // A saved session keeps its history on the server
+      const history = activeSessionId
+        ? { sessionId: activeSessionId }
         : {
-            paperId,
-            message: inputMessage,
             chatHistory: messages.map(msg => ({
               role: msg.role,
               content: msg.content
             }))
           };
+      const body = isCollectionChat 
+        ? { collectionId, message: userMessage.content, ...history }
+        : { paperId, message: userMessage.content, ...history };
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
 
       const response = await fetch(endpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(body),
+        body: JSON.stringify({ ...body, stream: true }),
+        signal: controller.signal,
       });
 
-      const data = await response.json();
-
       if (!response.ok) {
+        const data = await response.json();
         throw new Error(data.error || 'Failed to send message');
       }
 
-      const assistantMessage: ChatMessage = {
-        id: `msg_${Date.now()}_${Math.random()}`,
+      // Render the answer incrementally as tokens arrive
+      const assistantId = `msg_${Date.now()}_${Math.random()}`;
+      const updateAssistant = (update: Partial<ChatMessage>) => {
+        setMessages(prev => prev.map(msg => msg.id === assistantId ? { ...msg, ...update } : msg));
+      };
+
+      setMessages(prev => [...prev, {
+        id: assistantId,
         role: 'assistant',
-        content: data.data.response,
+        content: '',
         timestamp: new Date().toISOString()
-      };
+      }]);
+      setStreamingMessageId(assistantId);
 
-      setMessages(prev => [...prev, assistantMessage]);
+      let content = '';
+      await readSSEStream(response, ({ event, data }) => {
+        if (event === 'sources') {
+          updateAssistant({ passages: data.passages || data.sources });
+        } else if (event === 'token') {
+          content += data.text;
+          updateAssistant({ content });
+        } else if (event === 'done') {
+          updateAssistant({
+            content: data.response,
+            unsupportedCitations: data.citations?.unsupported
+          });
+        } else if (event === 'error') {
+          throw new Error(data.error || 'Failed to generate response');
+        }
+      });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to send message');
+      // Stopping keeps whatever was streamed so far
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        setError(err instanceof Error ? err.message : 'Failed to send message');
+      }
     } finally {
+      abortControllerRef.current = null;
+      setStreamingMessageId(null);
       setIsLoading(false);
     }
   };
 
+  const stopStreaming = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -107,9 +260,8 @@ export function PaperChat({
     }
   };
 
-  const clearChat = () => {
-    setMessages([]);
-    setError(null);
+  const startNewChat = () => {
+    openSession('');
   };
 
   return (
@@ -123,13 +275,50 @@ export function PaperChat({
           <p className="text-sm text-gray-600 truncate">{chatSubtitle}</p>
         </div>
         <button
-          onClick={clearChat}
+          onClick={startNewChat}
           className="text-sm text-gray-500 hover:text-gray-700"
         >
-          Clear Chat
+          New Chat
         </button>
       </div>
 
+      {/* Saved sessions */}
+      {sessions.length > 0 && (
+        <div className="flex items-center space-x-2 px-4 py-2 border-b border-gray-200 bg-gray-50">
+          <select
+            value={sessionId || ''}
+            onChange={(e) => openSession(e.target.value)}
+            disabled={isLoading}
+            className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">New conversation</option>
+            {sessions.map((session) => (
+              <option key={session.id} value={session.id}>
+                {session.title} · {new Date(session.updatedAt).toLocaleDateString()}
+              </option>
+            ))}
+          </select>
+          {sessionId && (
+            <>
+              <button
+                onClick={renameSession}
+                disabled={isLoading}
+                className="text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50"
+              >
+                Rename
+              </button>
+              <button
+                onClick={deleteSession}
+                disabled={isLoading}
+                className="text-xs text-red-500 hover:text-red-700 disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.length === 0 && (
@@ -164,7 +353,33 @@ export function PaperChat({
                   : 'bg-gray-100 text-gray-900'
               }`}
             >
-              <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+              {message.role === 'assistant' ? (
+                <CitedMessage
+                  content={message.content || (message.id === streamingMessageId ? '…' : '')}
+                  passages={message.passages}
+                  unsupportedCitations={message.unsupportedCitations}
+                />
+              ) : (
+                <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+              )}
+              {message.passages && message.passages.length > 0 && (
+                <details className="mt-2">
+                  <summary className="text-xs text-gray-500 cursor-pointer hover:text-gray-700">
+                    Based on {message.passages.length} passage{message.passages.length !== 1 ? 's' : ''}
+                  </summary>
+                  <div className="mt-2 space-y-2">
+                    {message.passages.map((passage, index) => (
+                      <div
+                        key={`${passage.paperId}_${passage.chunkIndex}`}
+                        className="p-2 bg-white border border-gray-200 rounded text-xs text-gray-700"
+                      >
+                        <p className="font-medium text-gray-500 mb-1 truncate">[{index + 1}] {passage.title}</p>
+                        <p className="line-clamp-4">{passage.text}</p>
+                      </div>
+                    ))}
+                  </div>
+                </details>
+              )}
               <p className={`text-xs mt-1 ${
                 message.role === 'user' ? 'text-blue-100' : 'text-gray-500'
               }`}>
@@ -174,7 +389,7 @@ export function PaperChat({
           </div>
         ))}
 
-        {isLoading && (
+        {isLoading && !streamingMessageId && (
           <div className="flex justify-start">
             <div className="bg-gray-100 text-gray-900 px-4 py-2 rounded-lg">
               <div className="flex items-center space-x-2">
@@ -212,13 +427,22 @@ export function PaperChat({
             rows={2}
             disabled={isLoading}
           />
-          <button
-            onClick={sendMessage}
-            disabled={!inputMessage.trim() || isLoading}
-            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
-          >
-            Send
-          </button>
+          {isLoading ? (
+            <button
+              onClick={stopStreaming}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={sendMessage}
+              disabled={!inputMessage.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              Send
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,77 @@
+import React, { useRef, useState } from 'react';
+import type { Paper } from '@/types/paper';
+
+interface PdfUploadButtonProps {
+  collectionId?: string;
+  onUploaded?: (paper: Paper) => void;
+}
+
+// Uploads a local PDF to /api/upload-pdf, which parses, matches and ingests
+// it (and adds it to the collection, if one is given)
+export function PdfUploadButton({ collectionId, onUploaded }: PdfUploadButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (collectionId) {
+        formData.append('collectionId', collectionId);
+      }
+
+      const response = await fetch('/api/upload-pdf', {
+        method: 'POST',
+        body: formData
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to upload PDF');
+      }
+
+      const paper: Paper = data.data.paper;
+      setMessage([
+        `Added "${paper.title}"`,
+        data.data.matchedBy && '(matched in OpenAlex)',
+        data.data.ocrApplied && '(scanned pages read with OCR)'
+      ].filter(Boolean).join(' '));
+      onUploaded?.(paper);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload PDF');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/pdf,.pdf"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={uploading}
+        className="px-3 py-2 text-sm font-medium bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {uploading ? 'Processing PDF...' : 'Upload PDF'}
+      </button>
+      {message && <p className="text-xs text-green-700 mt-1">{message}</p>}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
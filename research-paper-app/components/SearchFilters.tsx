@@ -7,23 +7,56 @@ import {
   PUBLICATION_TYPES, 
   CITATION_OPTIONS, 
   SORT_OPTIONS, 
-  RESEARCH_TOPICS,
-  type ResearchTopic 
+  SUGGESTED_TOPICS,
+  type TopicFilter,
+  type TopicSuggestion
 } from '@/types/filters';
+import { buildQuery, parseSearchQuery, type QueryBuilderRow } from '@/lib/query-parser';
+
+// Wait for the user to stop typing before asking OpenAlex
+const TOPIC_SEARCH_DELAY_MS = 300;
+
+const QUERY_FIELD_OPTIONS: { value: QueryBuilderRow['field']; label: string }[] = [
+  { value: 'any', label: 'Any field' },
+  { value: 'title', label: 'Title' },
+  { value: 'abstract', label: 'Abstract' },
+  { value: 'author', label: 'Author' },
+  { value: 'venue', label: 'Venue' },
+  { value: 'doi', label: 'DOI' }
+];
+
+const EMPTY_QUERY_ROW: QueryBuilderRow = { operator: 'AND', field: 'any', value: '' };
 
 interface SearchFiltersProps {
   filters: Filters;
   onFiltersChange: (filters: Filters) => void;
-  onApplyFilters: () => void;
+  // Called with the filters and query to search with
+  onApplyFilters: (filters: Filters, query: string) => void;
   resultCount?: number;
   loading?: boolean;
+  // Search query, editable here (as text or with the query builder) when
+  // onQueryChange is given; applied together with the filters
+  query?: string;
+  onQueryChange?: (query: string) => void;
 }
 
-export default function SearchFilters({ filters, onFiltersChange, onApplyFilters, resultCount, loading }: SearchFiltersProps) {
+export default function SearchFilters({
+  filters,
+  onFiltersChange,
+  onApplyFilters,
+  resultCount,
+  loading,
+  query = '',
+  onQueryChange
+}: SearchFiltersProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [topicSearch, setTopicSearch] = useState('');
-  const [filteredTopics, setFilteredTopics] = useState(RESEARCH_TOPICS);
+  const [topicOptions, setTopicOptions] = useState<TopicSuggestion[]>(SUGGESTED_TOPICS);
+  const [topicsLoading, setTopicsLoading] = useState(false);
+  const [topicsError, setTopicsError] = useState<string | null>(null);
   const [localFilters, setLocalFilters] = useState<Filters>(filters);
+  const [localQuery, setLocalQuery] = useState(query);
+  const [queryRows, setQueryRows] = useState<QueryBuilderRow[]>([EMPTY_QUERY_ROW]);
 
   // Calculate active filter count
   const getActiveFilterCount = () => {
@@ -38,16 +71,43 @@ export default function SearchFilters({ filters, onFiltersChange, onApplyFilters
     return count;
   };
 
-  // Filter topics based on search
+  // Topic autocomplete: suggestions until two characters are typed, then
+  // OpenAlex topics and concepts matching the text
   useEffect(() => {
-    if (topicSearch.trim() === '') {
-      setFilteredTopics(RESEARCH_TOPICS);
-    } else {
-      const filtered = RESEARCH_TOPICS.filter(topic =>
-        topic.displayName.toLowerCase().includes(topicSearch.toLowerCase())
-      );
-      setFilteredTopics(filtered);
+    const search = topicSearch.trim();
+    setTopicsError(null);
+
+    if (search.length < 2) {
+      setTopicsLoading(false);
+      setTopicOptions(SUGGESTED_TOPICS.filter(topic =>
+        topic.displayName.toLowerCase().includes(search.toLowerCase())
+      ));
+      return;
     }
+
+    const controller = new AbortController();
+    setTopicsLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/topics?q=${encodeURIComponent(search)}`, { signal: controller.signal });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.message || data.error || 'Topic search failed');
+        }
+        setTopicOptions(data.data);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setTopicsError(err instanceof Error ? err.message : 'Topic search failed');
+        setTopicOptions([]);
+      } finally {
+        if (!controller.signal.aborted) setTopicsLoading(false);
+      }
+    }, TOPIC_SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
   }, [topicSearch]);
 
   // Update local filters when props change
@@ -55,15 +115,43 @@ export default function SearchFilters({ filters, onFiltersChange, onApplyFilters
     setLocalFilters(filters);
   }, [filters]);
 
+  useEffect(() => {
+    setLocalQuery(query);
+  }, [query]);
+
+  // Same parser as the API, so syntax errors show before searching
+  const getQueryError = (text: string): string | null => {
+    if (!text.trim()) return 'Query cannot be empty';
+    try {
+      parseSearchQuery(text);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Invalid query';
+    }
+  };
+
+  const updateQueryRow = (index: number, changes: Partial<QueryBuilderRow>) => {
+    setQueryRows(rows => rows.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const removeQueryRow = (index: number) => {
+    setQueryRows(rows => rows.length > 1 ? rows.filter((_, i) => i !== index) : [EMPTY_QUERY_ROW]);
+  };
+
+  const builtQuery = buildQuery(queryRows);
+  const queryError = onQueryChange ? getQueryError(localQuery) : null;
+
   const updateLocalFilter = (key: keyof Filters, value: any) => {
     const newFilters = { ...localFilters, [key]: value };
     setLocalFilters(newFilters);
   };
 
-  const toggleTopic = (topicId: string) => {
-    const newTopics = localFilters.topics.includes(topicId)
-      ? localFilters.topics.filter(id => id !== topicId)
-      : [...localFilters.topics, topicId];
+  const isTopicSelected = (topicId: string) => localFilters.topics.some(topic => topic.id === topicId);
+
+  const toggleTopic = (topic: TopicFilter) => {
+    const newTopics: TopicFilter[] = isTopicSelected(topic.id)
+      ? localFilters.topics.filter(selected => selected.id !== topic.id)
+      : [...localFilters.topics, { id: topic.id, displayName: topic.displayName, kind: topic.kind }];
     updateLocalFilter('topics', newTopics);
   };
 
@@ -74,8 +162,10 @@ export default function SearchFilters({ filters, onFiltersChange, onApplyFilters
   };
 
   const applyFilters = () => {
+    const appliedQuery = localQuery.trim();
+    onQueryChange?.(appliedQuery);
     onFiltersChange(localFilters);
-    onApplyFilters();
+    onApplyFilters(localFilters, appliedQuery);
   };
 
   const activeFilterCount = getActiveFilterCount();
@@ -114,6 +204,89 @@ export default function SearchFilters({ filters, onFiltersChange, onApplyFilters
       {/* Filter Content */}
       <div className={`${isOpen ? 'block' : 'hidden'} lg:block`}>
         <div className="p-4 space-y-6">
+          {/* Query */}
+          {onQueryChange && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Search Query
+              </label>
+              <textarea
+                value={localQuery}
+                onChange={(e) => setLocalQuery(e.target.value)}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              {queryError ? (
+                <p className="mt-1 text-xs text-red-600">{queryError}</p>
+              ) : (
+                <p className="mt-1 text-xs text-gray-500">
+                  Use "quotes" for phrases, AND / OR / NOT, and title:, abstract:, author:, venue:, doi:
+                </p>
+              )}
+
+              {/* Query builder */}
+              <div className="mt-3 space-y-2">
+                {queryRows.map((row, index) => (
+                  <div key={index} className="flex items-center gap-1">
+                    <select
+                      value={row.operator}
+                      onChange={(e) => updateQueryRow(index, { operator: e.target.value as QueryBuilderRow['operator'] })}
+                      className="px-1 py-1 border border-gray-300 rounded-md text-xs"
+                    >
+                      {index > 0 && <option value="AND">AND</option>}
+                      {index > 0 && <option value="OR">OR</option>}
+                      {index === 0 && <option value="AND">—</option>}
+                      <option value="NOT">NOT</option>
+                    </select>
+                    <select
+                      value={row.field}
+                      onChange={(e) => updateQueryRow(index, { field: e.target.value as QueryBuilderRow['field'] })}
+                      className="px-1 py-1 border border-gray-300 rounded-md text-xs"
+                    >
+                      {QUERY_FIELD_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={row.value}
+                      onChange={(e) => updateQueryRow(index, { value: e.target.value })}
+                      placeholder={row.field === 'author' ? 'Name or A123…' : row.field === 'venue' ? 'Name or S123…' : 'Words or phrase'}
+                      className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <button
+                      onClick={() => removeQueryRow(index)}
+                      className="px-1 text-gray-400 hover:text-gray-600"
+                      title="Remove condition"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => setQueryRows(rows => [...rows, EMPTY_QUERY_ROW])}
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    + Add condition
+                  </button>
+                  <button
+                    onClick={() => setLocalQuery(builtQuery)}
+                    disabled={!builtQuery}
+                    className="px-2 py-1 text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 disabled:text-gray-400 disabled:bg-gray-50 disabled:border-gray-200"
+                  >
+                    Use as query
+                  </button>
+                </div>
+                {builtQuery && (
+                  <p className="text-xs text-gray-500 font-mono break-words">{builtQuery}</p>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Year Range */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -235,37 +408,54 @@ export default function SearchFilters({ filters, onFiltersChange, onApplyFilters
               {/* Selected topics */}
               {localFilters.topics.length > 0 && (
                 <div className="flex flex-wrap gap-2 mb-2">
-                  {localFilters.topics.map((topicId) => {
-                    const topic = RESEARCH_TOPICS.find(t => t.id === topicId);
-                    return topic ? (
-                      <span
-                        key={topicId}
-                        className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                  {localFilters.topics.map((topic) => (
+                    <span
+                      key={topic.id}
+                      className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                    >
+                      {topic.displayName}
+                      <button
+                        onClick={() => toggleTopic(topic)}
+                        className="ml-1 text-blue-600 hover:text-blue-800"
                       >
-                        {topic.displayName}
-                        <button
-                          onClick={() => toggleTopic(topicId)}
-                          className="ml-1 text-blue-600 hover:text-blue-800"
-                        >
-                          ×
-                        </button>
-                      </span>
-                    ) : null;
-                  })}
+                        ×
+                      </button>
+                    </span>
+                  ))}
                 </div>
               )}
 
               {/* Topic options */}
               <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-md">
-                {filteredTopics.map((topic) => (
+                {topicsLoading && (
+                  <div className="flex items-center gap-2 px-3 py-2 text-sm text-gray-500">
+                    <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-blue-600"></div>
+                    Searching topics...
+                  </div>
+                )}
+                {!topicsLoading && topicsError && (
+                  <p className="px-3 py-2 text-sm text-red-600">{topicsError}</p>
+                )}
+                {!topicsLoading && !topicsError && topicOptions.length === 0 && (
+                  <p className="px-3 py-2 text-sm text-gray-500">No matching topics</p>
+                )}
+                {!topicsLoading && topicOptions.map((topic) => (
                   <label key={topic.id} className="flex items-center px-3 py-2 hover:bg-gray-50">
                     <input
                       type="checkbox"
-                      checked={localFilters.topics.includes(topic.id)}
-                      onChange={() => toggleTopic(topic.id)}
+                      checked={isTopicSelected(topic.id)}
+                      onChange={() => toggleTopic(topic)}
                       className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                     />
-                    <span className="ml-2 text-sm text-gray-700">{topic.displayName}</span>
+                    <span className="ml-2 text-sm text-gray-700">
+                      {topic.displayName}
+                      {topic.hint && (
+                        <span className="block text-xs text-gray-500 truncate">{topic.hint}</span>
+                      )}
+                    </span>
+                    <span className="ml-auto pl-2 text-xs text-gray-400">
+                      {topic.kind === 'topic' ? 'Topic' : 'Concept'}
+                    </span>
                   </label>
                 ))}
               </div>
@@ -276,7 +466,7 @@ export default function SearchFilters({ filters, onFiltersChange, onApplyFilters
           <div className="pt-4 border-t border-gray-200 space-y-2">
             <button
               onClick={applyFilters}
-              disabled={loading}
+              disabled={loading || !!queryError}
               className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-gray-400 disabled:cursor-not-allowed"
             >
               {loading ? (
@@ -1,7 +1,7 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { Paper } from '@/types/paper';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Paper, SearchPage } from '@/types/paper';
 import { Filters, DEFAULT_FILTERS } from '@/types/filters';
 import SearchFilters from './SearchFilters';
 import { PaperCard } from './PaperCard';
@@ -9,14 +9,36 @@ import { PaperCard } from './PaperCard';
 interface SearchResultsProps {
   query: string;
   initialResults?: Paper[];
-  onSearch?: (query: string, filters: Filters) => Promise<Paper[]>;
+  // Paging state of the search that produced initialResults
+  initialNextCursor?: string | null;
+  initialTotalCount?: number;
+  // Without a cursor this starts a new search; with one it fetches the
+  // following page of the same search
+  onSearch?: (query: string, filters?: Filters, cursor?: string) => Promise<SearchPage>;
 }
 
-export default function SearchResults({ query, initialResults = [], onSearch }: SearchResultsProps) {
+export default function SearchResults({
+  query,
+  initialResults = [],
+  initialNextCursor = null,
+  initialTotalCount,
+  onSearch
+}: SearchResultsProps) {
   const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS);
+  // Query as edited in the filters sidebar, and the one the results are for
+  const [currentQuery, setCurrentQuery] = useState(query);
+  const [appliedQuery, setAppliedQuery] = useState(query);
   const [results, setResults] = useState<Paper[]>(initialResults);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Filters of the search the results came from; later pages must use the
+  // same ones for the cursor to be valid (undefined for the initial search)
+  const [appliedFilters, setAppliedFilters] = useState<Filters | undefined>(undefined);
+  const [nextCursor, setNextCursor] = useState<string | null>(initialNextCursor);
+  const [totalCount, setTotalCount] = useState<number>(initialTotalCount ?? initialResults.length);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
   // Load filters from localStorage on mount
   useEffect(() => {
@@ -24,7 +46,11 @@ export default function SearchResults({ query, initialResults = [], onSearch }:
     if (savedFilters) {
       try {
         const parsedFilters = JSON.parse(savedFilters);
-        setFilters(parsedFilters);
+        // Topics used to be saved as slugs, which OpenAlex cannot filter on
+        const topics = Array.isArray(parsedFilters.topics)
+          ? parsedFilters.topics.filter((topic: any) => typeof topic?.id === 'string' && typeof topic?.displayName === 'string')
+          : [];
+        setFilters({ ...DEFAULT_FILTERS, ...parsedFilters, topics });
       } catch (e) {
         console.warn('Failed to parse saved filters:', e);
       }
@@ -36,29 +62,74 @@ export default function SearchResults({ query, initialResults = [], onSearch }:
     localStorage.setItem('searchFilters', JSON.stringify(filters));
   }, [filters]);
 
-  const performSearch = async () => {
+  const performSearch = async (searchQuery: string, searchFilters: Filters) => {
     if (!onSearch) return;
 
     setLoading(true);
     setError(null);
 
+    setLoadMoreError(null);
+
     try {
-      const searchResults = await onSearch(query, filters);
-      setResults(searchResults);
+      const page = await onSearch(searchQuery, searchFilters);
+      setResults(page.papers);
+      setNextCursor(page.nextCursor);
+      setTotalCount(page.totalCount);
+      setAppliedQuery(searchQuery);
+      setAppliedFilters(searchFilters);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred during search');
       setResults([]);
+      setNextCursor(null);
+      setTotalCount(0);
     } finally {
       setLoading(false);
     }
   };
 
+  const loadMore = useCallback(async () => {
+    if (!onSearch || !nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    setLoadMoreError(null);
+
+    try {
+      const page = await onSearch(appliedQuery, appliedFilters, nextCursor);
+      setResults(prev => {
+        const seen = new Set(prev.map(paper => paper.paperId));
+        return [...prev, ...page.papers.filter(paper => !seen.has(paper.paperId))];
+      });
+      setNextCursor(page.nextCursor);
+      setTotalCount(page.totalCount);
+    } catch (err) {
+      setLoadMoreError(err instanceof Error ? err.message : 'Failed to load more results');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [onSearch, appliedQuery, appliedFilters, nextCursor, loadingMore]);
+
+  // Infinite scroll: fetch the next page when the end of the list comes
+  // into view. Paused after a failed page until the user retries.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || loading || loadingMore || loadMoreError) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMore();
+      }
+    }, { rootMargin: '400px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loading, loadingMore, loadMoreError, loadMore]);
+
   const handleFiltersChange = (newFilters: Filters) => {
     setFilters(newFilters);
   };
 
-  const handleApplyFilters = () => {
-    performSearch();
+  const handleApplyFilters = (newFilters: Filters, newQuery: string) => {
+    performSearch(newQuery, newFilters);
   };
 
   const clearFilters = () => {
@@ -73,9 +144,9 @@ export default function SearchResults({ query, initialResults = [], onSearch }:
           <h1 className="text-3xl font-bold text-gray-900 mb-2">
             Search Results
           </h1>
-          {query && (
+          {appliedQuery && (
             <p className="text-lg text-gray-600">
-              Results for "{query}"
+              Results for "{appliedQuery}"
             </p>
           )}
         </div>
@@ -88,8 +159,10 @@ export default function SearchResults({ query, initialResults = [], onSearch }:
                 filters={filters}
                 onFiltersChange={handleFiltersChange}
                 onApplyFilters={handleApplyFilters}
-                resultCount={results.length}
+                resultCount={totalCount}
                 loading={loading}
+                query={currentQuery}
+                onQueryChange={setCurrentQuery}
               />
             </div>
           </div>
@@ -113,7 +186,9 @@ export default function SearchResults({ query, initialResults = [], onSearch }:
                 <div className="flex items-center space-x-2">
                   {results.length > 0 && (
                     <span className="text-sm text-gray-600">
-                      {results.length.toLocaleString()} result{results.length !== 1 ? 's' : ''}
+                      {totalCount > results.length
+                        ? `${results.length.toLocaleString()} of ${totalCount.toLocaleString()} results`
+                        : `${results.length.toLocaleString()} result${results.length !== 1 ? 's' : ''}`}
                     </span>
                   )}
                 </div>
@@ -159,6 +234,32 @@ export default function SearchResults({ query, initialResults = [], onSearch }:
                 {results.map((paper) => (
                   <PaperCard key={paper.paperId} paper={paper} />
                 ))}
+
+                {/* Next page */}
+                <div ref={sentinelRef} className="py-4 text-center">
+                  {loadingMore && (
+                    <div className="flex items-center justify-center space-x-2">
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                      <span className="text-sm text-gray-600">Loading more results...</span>
+                    </div>
+                  )}
+                  {loadMoreError && (
+                    <div className="text-sm text-red-700">
+                      {loadMoreError}
+                      <button
+                        onClick={loadMore}
+                        className="ml-3 px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+                      >
+                        Retry
+                      </button>
+                    </div>
+                  )}
+                  {!nextCursor && !loadingMore && results.length > 0 && (
+                    <span className="text-sm text-gray-500">
+                      All {results.length.toLocaleString()} results loaded
+                    </span>
+                  )}
+                </div>
               </div>
             )}
 
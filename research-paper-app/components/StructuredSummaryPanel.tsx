@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import type { Paper, PaperSummaryEntry, StructuredSummary } from '@/types/paper';
+
+interface StructuredSummaryPanelProps {
+  paper: Paper;
+}
+
+const LIST_SECTIONS: Array<{ key: Exclude<keyof StructuredSummary, 'researchQuestion'>; label: string }> = [
+  { key: 'methods', label: 'Methods' },
+  { key: 'datasets', label: 'Datasets' },
+  { key: 'keyFindings', label: 'Key Findings' },
+  { key: 'limitations', label: 'Limitations' },
+  { key: 'futureWork', label: 'Future Work' }
+];
+
+export function StructuredSummaryPanel({ paper }: StructuredSummaryPanelProps) {
+  const [entry, setEntry] = useState<PaperSummaryEntry | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSummary(false);
+  }, [paper.paperId]);
+
+  const fetchSummary = async (refresh: boolean) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/paper-summary', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          paperId: paper.paperId,
+          title: paper.title,
+          authors: paper.authors,
+          year: paper.year,
+          abstract: paper.abstract,
+          refresh
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to generate summary');
+      }
+
+      setEntry(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate summary');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2 text-gray-600">Generating summary...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+        <p className="text-red-700">{error}</p>
+        <button
+          onClick={() => fetchSummary(false)}
+          className="mt-2 px-3 py-1 text-sm bg-red-100 text-red-700 rounded hover:bg-red-200"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (!entry) {
+    return null;
+  }
+
+  const { summary } = entry;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-5">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500">
+          Generated from the {entry.source === 'fullText' ? 'full text' : 'abstract only'} · {entry.model} · {new Date(entry.createdAt).toLocaleDateString()}
+        </p>
+        <button
+          onClick={() => fetchSummary(true)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          Regenerate
+        </button>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-1">Research Question</h4>
+        <p className="text-gray-700 leading-relaxed">
+          {summary.researchQuestion || <span className="text-gray-400">Not stated</span>}
+        </p>
+      </div>
+
+      {LIST_SECTIONS.map(({ key, label }) => (
+        <div key={key}>
+          <h4 className="text-sm font-semibold text-gray-900 mb-1">{label}</h4>
+          {summary[key].length > 0 ? (
+            <ul className="list-disc pl-5 space-y-1 text-gray-700">
+              {summary[key].map((item, index) => (
+                <li key={index}>{item}</li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-400 text-sm">Not stated</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { getLshIndex, LshIndex, LSH_LAYOUT } from '@/lib/ann-index';
+
+function randomVector(dimension: number, seed: number): number[] {
+  let state = seed;
+  return Array.from({ length: dimension }, () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  });
+}
+
+describe('LshIndex', () => {
+  const vector = randomVector(32, 1);
+
+  it('derives the same hyperplanes for a space in every instance', () => {
+    expect(new LshIndex('local-hash:32|32', 32).buckets(vector)).toEqual(new LshIndex('local-hash:32|32', 32).buckets(vector));
+    expect(new LshIndex('other|32', 32).buckets(vector)).not.toEqual(new LshIndex('local-hash:32|32', 32).buckets(vector));
+  });
+
+  it('files a vector under one bucket per table', () => {
+    const buckets = new LshIndex('space', 32).buckets(vector);
+    const [tables, bits] = LSH_LAYOUT.split('x').map(Number);
+
+    expect(buckets).toHaveLength(tables);
+    buckets.forEach(bucket => expect(bucket).toBeLessThan(2 ** bits));
+  });
+
+  it('probes the stored bucket first, then its neighbours', () => {
+    const index = new LshIndex('space', 32);
+    const buckets = index.buckets(vector);
+
+    index.probes(vector).forEach(probe => {
+      expect(probe.buckets[0]).toBe(buckets[probe.table]);
+      // Each neighbour differs from the bucket in exactly one bit
+      probe.buckets.slice(1).forEach(neighbour => {
+        const differing = (neighbour ^ probe.buckets[0]).toString(2).replace(/0/g, '');
+        expect(differing).toBe('1');
+      });
+    });
+  });
+
+  it('puts close vectors in the same buckets more often than unrelated ones', () => {
+    const index = new LshIndex('space', 32);
+    const close = vector.map((value, i) => value + (i % 2 ? 0.01 : -0.01));
+    const shared = (a: number[], b: number[]) => index.buckets(a).filter((bucket, table) => bucket === index.buckets(b)[table]).length;
+
+    expect(shared(vector, close)).toBeGreaterThan(shared(vector, randomVector(32, 2)));
+  });
+
+  it('is cached per space and dimension', () => {
+    expect(getLshIndex('space', 32)).toBe(getLshIndex('space', 32));
+    expect(getLshIndex('space', 32)).not.toBe(getLshIndex('space', 64));
+  });
+});
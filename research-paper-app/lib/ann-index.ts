@@ -0,0 +1,104 @@
+// Approximate nearest-neighbour lookup with random-hyperplane LSH. Each
+// vector is hashed into one bucket per table by the signs of its projections
+// onto random hyperplanes; vectors with a small angle between them tend to
+// share buckets. A query looks in its own buckets and in the neighbouring
+// ones (the bits it is least sure about flipped), and the candidates found
+// are then scored exactly.
+
+const LSH_TABLES = 10;
+const BITS_PER_TABLE = 10;
+// Neighbouring buckets probed per table: one per uncertain bit
+const PROBE_BITS = 4;
+// Stored buckets are only valid for the layout they were computed with
+export const LSH_LAYOUT = `${LSH_TABLES}x${BITS_PER_TABLE}`;
+
+export interface LshProbe {
+  table: number;
+  buckets: number[];
+}
+
+// Small seeded PRNG (mulberry32), so every process derives the same
+// hyperplanes for a space without storing them
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+export class LshIndex {
+  // One Float32Array of BITS_PER_TABLE * dimension values per table
+  private planes: Float32Array[] = [];
+
+  constructor(readonly space: string, readonly dimension: number) {
+    const random = createRandom(hashString(`${space}|${dimension}`));
+    // Gaussian components (Box-Muller) give uniformly oriented hyperplanes
+    const gaussian = () => Math.sqrt(-2 * Math.log(random() || Number.MIN_VALUE)) * Math.cos(2 * Math.PI * random());
+
+    for (let table = 0; table < LSH_TABLES; table++) {
+      const planes = new Float32Array(BITS_PER_TABLE * dimension);
+      for (let i = 0; i < planes.length; i++) planes[i] = gaussian();
+      this.planes.push(planes);
+    }
+  }
+
+  private project(vector: ArrayLike<number>, table: number): number[] {
+    const planes = this.planes[table];
+    const projections: number[] = [];
+
+    for (let bit = 0; bit < BITS_PER_TABLE; bit++) {
+      const offset = bit * this.dimension;
+      let dot = 0;
+      for (let i = 0; i < this.dimension; i++) dot += planes[offset + i] * vector[i];
+      projections.push(dot);
+    }
+
+    return projections;
+  }
+
+  // Bucket of the vector in every table, for storing it
+  buckets(vector: ArrayLike<number>): number[] {
+    return this.planes.map((_, table) => this.project(vector, table)
+      .reduce((bucket, dot, bit) => dot > 0 ? bucket | (1 << bit) : bucket, 0));
+  }
+
+  // Buckets to look in for a query, per table
+  probes(vector: ArrayLike<number>): LshProbe[] {
+    return this.planes.map((_, table) => {
+      const projections = this.project(vector, table);
+      const bucket = projections.reduce((value, dot, bit) => dot > 0 ? value | (1 << bit) : value, 0);
+
+      const uncertainBits = projections
+        .map((dot, bit) => ({ bit, margin: Math.abs(dot) }))
+        .sort((a, b) => a.margin - b.margin)
+        .slice(0, PROBE_BITS)
+        .map(({ bit }) => bit);
+
+      return { table, buckets: [bucket, ...uncertainBits.map(bit => bucket ^ (1 << bit))] };
+    });
+  }
+}
+
+const indexes = new Map<string, LshIndex>();
+
+export function getLshIndex(space: string, dimension: number): LshIndex {
+  const key = `${space}|${dimension}`;
+  let index = indexes.get(key);
+  if (!index) {
+    index = new LshIndex(space, dimension);
+    indexes.set(key, index);
+  }
+  return index;
+}
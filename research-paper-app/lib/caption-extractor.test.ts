@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { extractFigures, figureText } from '@/lib/caption-extractor';
+
+describe('extractFigures', () => {
+  it('joins a wrapped caption and keeps the rows below a table', () => {
+    const [table] = extractFigures([[
+      'Table 1: Accuracy of each model on the held-',
+      'out test set.',
+      'Model Accuracy F1',
+      'Baseline 71.2 68.4',
+      'Ours 84.5 82.9',
+      'The results show a clear gain in every setting we tried here.'
+    ].join('\n')]);
+
+    expect(table).toEqual({
+      kind: 'table',
+      label: 'Table 1',
+      number: '1',
+      caption: 'Accuracy of each model on the heldout test set.',
+      content: 'Model Accuracy F1\nBaseline 71.2 68.4\nOurs 84.5 82.9',
+      page: 1
+    });
+  });
+
+  it('takes the rows above a table captioned below them', () => {
+    const [table] = extractFigures([[
+      'Setting BLEU',
+      'Full model 28.4',
+      'No attention 21.9',
+      'Table 2. Ablation on the translation task.',
+      'Removing attention costs over six points of BLEU on this benchmark.'
+    ].join('\n')]);
+
+    expect(table.content).toBe('Setting BLEU\nFull model 28.4\nNo attention 21.9');
+  });
+
+  it('reads an IEEE label with the caption on the next line', () => {
+    const [table] = extractFigures(['TABLE IV\nRuntime per epoch in seconds\nGPU 12 14\nCPU 340 355']);
+
+    expect(table.label).toBe('Table 4');
+    expect(table.caption).toBe('Runtime per epoch in seconds');
+  });
+
+  it('ignores figure references in running text', () => {
+    expect(extractFigures(['Figure 3 shows that accuracy rises with model size.'])).toEqual([]);
+  });
+
+  it('keeps the first occurrence of a repeated caption with its page', () => {
+    const figures = extractFigures([
+      'Figure 1: Model architecture.',
+      'Figure 1: Model architecture.\nFigure 2: Training loss.'
+    ]);
+
+    expect(figures.map(figure => [figure.label, figure.page])).toEqual([['Figure 1', 1], ['Figure 2', 2]]);
+    expect(figures[0].content).toBeNull();
+  });
+});
+
+describe('figureText', () => {
+  it('puts the label before the caption and the content after it', () => {
+    const [table] = extractFigures(['Table 1: Results.\nModel Score\nOurs 90.1']);
+
+    expect(figureText(table)).toBe('Table 1: Results.\nModel Score\nOurs 90.1');
+  });
+});
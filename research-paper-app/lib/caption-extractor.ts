@@ -0,0 +1,130 @@
+import type { DocumentFigure } from '@/types/paper';
+import { joinLines, normalizeLine, romanToNumber } from '@/lib/document-parser';
+
+// Finds "Table N" and "Figure N" captions in the per-page text of a PDF.
+// pdf-parse flattens tables into one line per row, so the rows printed
+// right below (or, failing that, right above) a table caption are kept as
+// its content.
+
+// A label followed by a separator, so "Figure 3 shows..." in running text is
+// not taken for a caption. IEEE-style "TABLE II" on a line of its own has the
+// caption on the next line.
+const CAPTION_START = /^(table|tab\.|figure|fig\.)\s*((?:S|A\.?)?\d{1,3}|[IVX]{1,6})(?:\s*[.:|—–-]\s*(.*)|\s*)$/i;
+const MAX_CAPTION_LINES = 4;
+const MAX_CAPTION_LENGTH = 600;
+// Caption lines shorter than this end the caption unless the next line
+// carries on in lower case
+const WRAPPED_LINE_LENGTH = 60;
+const MAX_TABLE_LINES = 30;
+
+interface CaptionStart {
+  kind: DocumentFigure['kind'];
+  number: string;
+  rest: string;
+}
+
+function parseCaptionStart(line: string): CaptionStart | null {
+  const match = line.match(CAPTION_START);
+  if (!match) return null;
+
+  const [, label, rawNumber, rest = ''] = match;
+  // Roman numerals only in upper case, otherwise "Figure i" could be prose
+  const isRoman = /^[IVX]+$/.test(rawNumber);
+  if (!isRoman && !/\d/.test(rawNumber)) return null;
+
+  return {
+    kind: /^t/i.test(label) ? 'table' : 'figure',
+    number: isRoman ? String(romanToNumber(rawNumber)) : rawNumber.replace(/\.$/, ''),
+    rest: rest.trim()
+  };
+}
+
+// Table rows: mostly numbers, or short cells such as a header row. Long
+// lines ending in a full stop are running text.
+function isTabularLine(line: string): boolean {
+  if (!line) return false;
+
+  const words = line.split(' ');
+  if (words.length >= 12 && /[.!?]$/.test(line)) return false;
+
+  const numbers = words.filter(word => /^[(\[]?[-+±−]?\d[\d.,]*%?[)\]]?[*†‡]*$/.test(word)).length;
+  const characters = line.replace(/\s/g, '');
+  const digits = characters.replace(/[^\d]/g, '').length;
+
+  return numbers >= 2
+    || digits >= characters.length * 0.3
+    || (line.length <= 40 && words.length <= 6 && !/[.!?]$/.test(line));
+}
+
+function collectRows(lines: string[], from: number, step: 1 | -1): string[] {
+  const rows: string[] = [];
+
+  for (let i = from; i >= 0 && i < lines.length && rows.length < MAX_TABLE_LINES; i += step) {
+    if (!isTabularLine(lines[i]) || parseCaptionStart(lines[i])) break;
+    rows.push(lines[i]);
+  }
+
+  return step === 1 ? rows : rows.reverse();
+}
+
+// Every table and figure with a caption, in page order. Repeated captions
+// (e.g. "Table 2 (continued)") keep their first occurrence.
+export function extractFigures(pages: string[]): DocumentFigure[] {
+  const figures: DocumentFigure[] = [];
+  const seen = new Set<string>();
+
+  pages.forEach((pageText, pageIndex) => {
+    const lines = pageText.split('\n').map(normalizeLine).filter(Boolean);
+
+    for (let i = 0; i < lines.length; i++) {
+      const start = parseCaptionStart(lines[i]);
+      if (!start) continue;
+
+      const key = `${start.kind}:${start.number}`;
+      if (seen.has(key)) continue;
+
+      // The caption runs on while lines look wrapped, until a sentence ends
+      // or another caption begins
+      const captionLines = start.rest ? [start.rest] : [];
+      let end = i + 1;
+      while (end < lines.length && captionLines.length < MAX_CAPTION_LINES) {
+        const current = captionLines[captionLines.length - 1];
+        const next = lines[end];
+        if (current && /[.!?]$/.test(current)) break;
+        if (parseCaptionStart(next)) break;
+        if (current && !/^[a-z]/.test(next) && (lines[end - 1].length < WRAPPED_LINE_LENGTH || isTabularLine(next))) break;
+
+        captionLines.push(next);
+        end++;
+      }
+
+      const caption = joinLines(captionLines).slice(0, MAX_CAPTION_LENGTH);
+      if (!caption) continue;
+
+      let content: string | null = null;
+      if (start.kind === 'table') {
+        let rows = collectRows(lines, end, 1);
+        if (rows.length < 2) rows = collectRows(lines, i - 1, -1);
+        content = rows.length >= 2 ? rows.join('\n') : null;
+      }
+
+      seen.add(key);
+      figures.push({
+        kind: start.kind,
+        label: `${start.kind === 'table' ? 'Table' : 'Figure'} ${start.number}`,
+        number: start.number,
+        caption,
+        content,
+        page: pageIndex + 1
+      });
+      i = end - 1;
+    }
+  });
+
+  return figures;
+}
+
+// Text a figure is embedded and retrieved as
+export function figureText(figure: DocumentFigure): string {
+  return `${figure.label}: ${figure.caption}${figure.content ? `\n${figure.content}` : ''}`;
+}
@@ -0,0 +1,74 @@
+// Inline citation markers in AI answers, e.g. "[1]", "[2, 3]" or "[1-3]".
+// Each number refers to a retrieved passage supplied in the prompt (1-based).
+// Shared by the chat API routes and PaperChat, so it must stay browser-safe.
+
+export type CitationSegment =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; raw: string; numbers: number[] };
+
+export interface CitationCheck {
+  cited: number[];
+  unsupported: number[];
+}
+
+const CITATION_PATTERN = /\[(\d{1,3}(?:\s*[,–-]\s*\d{1,3})*)\]/g;
+
+function expandMarker(body: string): number[] {
+  const numbers: number[] = [];
+
+  for (const part of body.split(',')) {
+    const range = part.split(/[–-]/).map(n => parseInt(n.trim(), 10));
+    if (range.length === 2 && range[0] <= range[1] && range[1] - range[0] < 20) {
+      for (let n = range[0]; n <= range[1]; n++) numbers.push(n);
+    } else {
+      numbers.push(...range);
+    }
+  }
+
+  return numbers;
+}
+
+export function splitCitations(text: string): CitationSegment[] {
+  const segments: CitationSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, index) });
+    }
+    segments.push({ type: 'citation', raw: match[0], numbers: expandMarker(match[1]) });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+// Check that every marker in the answer maps to a passage that was supplied
+export function validateCitations(text: string, passageCount: number): CitationCheck {
+  const cited = new Set<number>();
+  const unsupported = new Set<number>();
+
+  for (const segment of splitCitations(text)) {
+    if (segment.type !== 'citation') continue;
+    for (const n of segment.numbers) {
+      if (n >= 1 && n <= passageCount) {
+        cited.add(n);
+      } else {
+        unsupported.add(n);
+      }
+    }
+  }
+
+  return {
+    cited: Array.from(cited).sort((a, b) => a - b),
+    unsupported: Array.from(unsupported).sort((a, b) => a - b)
+  };
+}
+
+export const CITATION_INSTRUCTIONS = `Cite the passages that support each statement using their numbers in square brackets, e.g. [1] or [2, 3], placed right after the statement.
+Only cite passage numbers listed above. Do not invent citations; if no passage supports a statement, say so instead.`;
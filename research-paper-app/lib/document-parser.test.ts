@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { findSection, joinLines, parseDocument, romanToNumber } from '@/lib/document-parser';
+
+const PAGES = [
+  [
+    'arXiv:1706.03762v5 [cs.CL] 6 Dec 2017',
+    'Attention Is All You Need',
+    'Ashish Vaswani 1 Noam Shazeer 2',
+    'Abstract',
+    'We propose the Transformer, a model based',
+    'solely on attention mechanisms.',
+    'Keywords: attention, translation',
+    '1 Introduction',
+    'Recurrent models dominate sequence trans-',
+    'duction.',
+    '2 Background',
+    'Self-attention relates positions of a sequence.'
+  ].join('\n'),
+  [
+    '2.1 Scaled Attention',
+    'An attention function maps queries to outputs.',
+    '4 Model Architecture',
+    'The encoder is a stack of six layers.',
+    '1 Tokenise the corpus',
+    '2'
+  ].join('\n'),
+  [
+    'The decoder mirrors the encoder.',
+    'Conclusion',
+    'We presented the Transformer.',
+    'References',
+    '1. Vaswani A. Attention. NeurIPS. 2017.',
+    '2. He K. Residual learning. CVPR. 2016.',
+    'Appendix A: Proofs',
+    'The proof follows directly.'
+  ].join('\n')
+];
+
+describe('parseDocument', () => {
+  const document = parseDocument(PAGES);
+
+  it('finds numbered, sub-numbered and unnumbered headings in order', () => {
+    expect(document.sections.map(section => [section.number, section.heading, section.level])).toEqual([
+      ['1', 'Introduction', 1],
+      ['2', 'Background', 1],
+      ['2.1', 'Scaled Attention', 2],
+      ['4', 'Model Architecture', 1],
+      [null, 'Conclusion', 1],
+      [null, 'Appendix A: Proofs', 1]
+    ]);
+  });
+
+  it('does not take out-of-sequence numbered lines for headings', () => {
+    expect(findSection(document, /model architecture/i)?.text).toBe(
+      'The encoder is a stack of six layers. 1 Tokenise the corpus\n\nThe decoder mirrors the encoder.'
+    );
+  });
+
+  it('records the pages each section spans', () => {
+    const architecture = findSection(document, /model architecture/i)!;
+    expect([architecture.pageStart, architecture.pageEnd]).toEqual([2, 3]);
+
+    const background = findSection(document, /background/i)!;
+    expect([background.pageStart, background.pageEnd]).toEqual([1, 1]);
+  });
+
+  it('joins hyphenated lines in section text', () => {
+    expect(findSection(document, /introduction/i)?.text).toBe('Recurrent models dominate sequence transduction.');
+  });
+
+  it('reads the abstract up to the keywords', () => {
+    expect(document.abstract).toBe('We propose the Transformer, a model based solely on attention mechanisms.');
+  });
+
+  it('keeps reference lines apart and resumes sections after them', () => {
+    expect(document.references).toBe('1. Vaswani A. Attention. NeurIPS. 2017.\n2. He K. Residual learning. CVPR. 2016.');
+    expect(findSection(document, /appendix/i)?.text).toBe('The proof follows directly.');
+  });
+
+  it('takes the title from the first page, or from plausible metadata', () => {
+    expect(document.title).toBe('Attention Is All You Need');
+    expect(parseDocument(PAGES, { title: 'The Transformer Paper' }).title).toBe('The Transformer Paper');
+    expect(parseDocument(PAGES, { title: 'Microsoft Word - paper.docx' }).title).toBe('Attention Is All You Need');
+    expect(document.pageCount).toBe(3);
+  });
+
+  it('accepts Roman numeral headings in sequence', () => {
+    const roman = parseDocument(['I. Introduction\nWe study parsing.\nII. Related Work\nPrior parsers exist.\nIV. Missing Step\nStill related work.']);
+    expect(roman.sections.map(section => section.heading)).toEqual(['Introduction', 'Related Work']);
+  });
+});
+
+describe('romanToNumber', () => {
+  it.each([['I', 1], ['IV', 4], ['IX', 9], ['XIV', 14]])('reads %s as %d', (roman, value) => {
+    expect(romanToNumber(roman)).toBe(value);
+  });
+});
+
+describe('joinLines', () => {
+  it('keeps blank lines as paragraph breaks', () => {
+    expect(joinLines(['First line', 'continues.', '', '', 'Second para-', 'graph.'])).toBe('First line continues.\n\nSecond paragraph.');
+  });
+});
@@ -0,0 +1,271 @@
+import type { DocumentSection, ParsedDocument } from '@/types/paper';
+
+// Section-aware parsing of text extracted from a PDF. Works line by line on
+// the per-page text from pdf-parse, so headings can be recognised by sitting
+// on their own line and every section knows which pages it spans.
+
+interface Line {
+  text: string;
+  page: number;
+}
+
+interface Heading {
+  heading: string;
+  number: string | null;
+  level: number;
+}
+
+const KNOWN_HEADINGS = /^(abstract|introduction|background|related work|preliminaries|problem (statement|formulation)|methods?|methodology|materials and methods|approach|experiments?|experimental (setup|results)|evaluation|results|results and discussion|discussion|analysis|limitations|future work|conclusions?|conclusions? and future work|summary|acknowledge?ments?|references|bibliography|literature cited|works cited|appendix(\s+[a-z0-9]+)?([:.]\s*.*)?|appendices|supplementary (material|information))$/i;
+const REFERENCE_HEADINGS = /^(references|bibliography|literature cited|works cited)$/i;
+// Headings that may follow the references block
+const BACK_MATTER_HEADINGS = /^(appendix|appendices|supplementary|acknowledge?ments?)/i;
+const ABSTRACT_START = /^abstract\b[\s.:—–-]*(.*)$/i;
+const ABSTRACT_END = /^(keywords|key words|index terms|ccs concepts|general terms)\b/i;
+const NUMBERED_HEADING = /^(\d{1,2}(?:\.\d{1,2}){0,3})\.?\s+(\S.*)$/;
+const ROMAN_HEADING = /^([IVX]{1,6})\.\s+(\S.*)$/;
+const ROMAN_VALUES: Record<string, number> = { I: 1, V: 5, X: 10 };
+const MAX_HEADING_LENGTH = 100;
+const MAX_HEADING_WORDS = 12;
+
+// Collapse runs of whitespace in a line of extracted text
+export function normalizeLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Value of an upper-case Roman numeral made of I, V and X
+export function romanToNumber(roman: string): number {
+  let total = 0;
+  for (let i = 0; i < roman.length; i++) {
+    const value = ROMAN_VALUES[roman[i]];
+    const next = ROMAN_VALUES[roman[i + 1]] || 0;
+    total += value < next ? -value : value;
+  }
+  return total;
+}
+
+// The words of a numbered heading: capitalised, short, mostly letters and
+// not a sentence
+function looksLikeHeadingTitle(title: string): boolean {
+  const words = title.split(' ');
+  const letters = title.replace(/[^A-Za-z]/g, '').length;
+  return /^[A-Z]/.test(title)
+    && words.length <= MAX_HEADING_WORDS
+    && letters >= title.length * 0.6
+    && !/[.,;]$/.test(title);
+}
+
+// Running headers, footers and page numbers repeat on most pages
+function findRepeatedLines(pages: string[][]): Set<string> {
+  const repeated = new Set<string>();
+  if (pages.length < 4) return repeated;
+
+  const counts = new Map<string, number>();
+  for (const lines of pages) {
+    const edges = new Set([...lines.slice(0, 2), ...lines.slice(-2)]);
+    edges.forEach(line => {
+      const key = line.replace(/\d+/g, '#');
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+  }
+
+  const threshold = Math.max(3, Math.ceil(pages.length * 0.5));
+  counts.forEach((count, key) => {
+    if (count >= threshold) repeated.add(key);
+  });
+  return repeated;
+}
+
+function toLines(pages: string[]): Line[] {
+  const pageLines = pages.map(page => page.split('\n').map(normalizeLine));
+  const repeated = findRepeatedLines(pageLines.map(lines => lines.filter(Boolean)));
+  const lines: Line[] = [];
+
+  pageLines.forEach((linesOnPage, pageIndex) => {
+    for (const text of linesOnPage) {
+      if (/^\d{1,4}$/.test(text)) continue;
+      if (text && repeated.has(text.replace(/\d+/g, '#'))) continue;
+      lines.push({ text, page: pageIndex + 1 });
+    }
+    // Keep a paragraph break between pages
+    lines.push({ text: '', page: pageIndex + 1 });
+  });
+
+  return lines;
+}
+
+// Join wrapped lines back into paragraphs, undoing end-of-line hyphenation
+export function joinLines(lines: string[]): string {
+  let text = '';
+
+  for (const line of lines) {
+    if (!line) {
+      if (text && !text.endsWith('\n\n')) text += '\n\n';
+      continue;
+    }
+
+    if (!text || text.endsWith('\n\n')) {
+      text += line;
+    } else if (/[a-z]-$/.test(text) && /^[a-z]/.test(line)) {
+      text = text.slice(0, -1) + line;
+    } else {
+      text += ' ' + line;
+    }
+  }
+
+  return text.trim();
+}
+
+// PDF info titles are often file names or placeholders such as
+// "Microsoft Word - draft.docx"
+export function isPlausibleTitle(title: unknown): title is string {
+  return typeof title === 'string'
+    && title.trim().length >= 10
+    && !/^(untitled|microsoft word)/i.test(title.trim())
+    && !/\.(pdf|dvi|docx?|tex)$/i.test(title.trim());
+}
+
+function detectTitle(lines: Line[], metadataTitle?: unknown): string | null {
+  if (isPlausibleTitle(metadataTitle)) {
+    return normalizeLine(metadataTitle);
+  }
+
+  for (const line of lines) {
+    if (line.page > 1) break;
+    if (line.text.split(' ').length < 3 || line.text.length < 15) continue;
+    if (/arxiv|doi|https?:|www\.|©|copyright|proceedings|journal|vol\.|preprint/i.test(line.text)) continue;
+    return line.text;
+  }
+
+  return null;
+}
+
+export function parseDocument(pages: string[], options: { title?: unknown } = {}): ParsedDocument {
+  const lines = toLines(pages);
+  const sections: DocumentSection[] = [];
+  const referenceLines: string[] = [];
+  let abstractLines: string[] | null = null;
+  let current: { heading: Heading; lines: string[]; pageStart: number; pageEnd: number } | null = null;
+  let inReferences = false;
+  let inAbstract = false;
+  let lastTopNumber = 0;
+
+  const detectHeading = (text: string): Heading | null => {
+    if (!text || text.length > MAX_HEADING_LENGTH) return null;
+
+    if (KNOWN_HEADINGS.test(text.replace(/:$/, ''))) {
+      return { heading: text.replace(/:$/, ''), number: null, level: 1 };
+    }
+
+    // Numbered lines inside the references are citations, not headings
+    if (inReferences) return null;
+
+    // Numbers must follow on from the previous heading, which rules out
+    // numbered list items, affiliations and table rows
+    const numbered = text.match(NUMBERED_HEADING);
+    if (numbered && looksLikeHeadingTitle(numbered[2])) {
+      const parts = numbered[1].split('.').map(n => parseInt(n, 10));
+      const top = parts[0];
+      const follows = parts.length === 1
+        ? top === lastTopNumber + 1 || (lastTopNumber > 0 && top === lastTopNumber + 2)
+        : top === lastTopNumber;
+      if (follows) {
+        lastTopNumber = top;
+        return { heading: numbered[2], number: numbered[1], level: parts.length };
+      }
+    }
+
+    const roman = text.match(ROMAN_HEADING);
+    if (roman && looksLikeHeadingTitle(roman[2])) {
+      const top = romanToNumber(roman[1]);
+      if (top === lastTopNumber + 1) {
+        lastTopNumber = top;
+        return { heading: roman[2], number: roman[1], level: 1 };
+      }
+    }
+
+    return null;
+  };
+
+  const closeSection = () => {
+    if (current) {
+      sections.push({
+        heading: current.heading.heading,
+        number: current.heading.number,
+        level: current.heading.level,
+        text: joinLines(current.lines),
+        pageStart: current.pageStart,
+        pageEnd: current.pageEnd
+      });
+      current = null;
+    }
+  };
+
+  // Everything before the abstract is front matter (title, authors,
+  // affiliations), where numbered lines are footnote marks, not headings
+  const abstractIndex = lines.findIndex(line => line.page <= 2 && ABSTRACT_START.test(line.text));
+
+  for (let i = Math.max(abstractIndex, 0); i < lines.length; i++) {
+    const line = lines[i];
+
+    // Abstract: from the "Abstract" line up to keywords or the first heading
+    if (i === abstractIndex) {
+      const abstractStart = line.text.match(ABSTRACT_START)!;
+      abstractLines = abstractStart[1] ? [abstractStart[1]] : [];
+      inAbstract = true;
+      continue;
+    }
+
+    if (inAbstract && ABSTRACT_END.test(line.text)) {
+      inAbstract = false;
+      continue;
+    }
+
+    const heading = detectHeading(line.text);
+    if (heading) {
+      inAbstract = false;
+
+      if (REFERENCE_HEADINGS.test(heading.heading)) {
+        closeSection();
+        inReferences = true;
+        continue;
+      }
+
+      if (inReferences && !BACK_MATTER_HEADINGS.test(heading.heading)) {
+        referenceLines.push(line.text);
+        continue;
+      }
+
+      inReferences = false;
+      closeSection();
+      current = { heading, lines: [], pageStart: line.page, pageEnd: line.page };
+      continue;
+    }
+
+    if (inAbstract && abstractLines) {
+      abstractLines.push(line.text);
+    } else if (inReferences) {
+      referenceLines.push(line.text);
+    } else if (current) {
+      current.lines.push(line.text);
+      if (line.text) current.pageEnd = line.page;
+    }
+  }
+  closeSection();
+
+  // Line breaks are kept: they are the best clue to where entries start
+  const references = referenceLines.filter(Boolean).join('\n');
+  const abstract = abstractLines ? joinLines(abstractLines) : '';
+
+  return {
+    title: detectTitle(lines, options.title),
+    abstract: abstract || null,
+    sections,
+    references: references || null,
+    pageCount: pages.length
+  };
+}
+
+// First section whose heading matches, e.g. /introduction/i
+export function findSection(document: ParsedDocument, pattern: RegExp): DocumentSection | null {
+  return document.sections.find(section => pattern.test(section.heading)) || null;
+}
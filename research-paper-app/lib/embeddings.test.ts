@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { embedTexts, type EmbeddingProvider } from '@/lib/embeddings';
+
+const failingProvider: EmbeddingProvider = {
+  name: 'gemini:text-embedding-004',
+  dimension: 768,
+  embed: async () => { throw new Error('quota exceeded'); },
+  embedBatch: async () => { throw new Error('quota exceeded'); }
+};
+
+describe('embedTexts', () => {
+  it('rejects instead of switching providers', async () => {
+    await expect(embedTexts(['attention is all you need'], failingProvider)).rejects.toThrow('quota exceeded');
+  });
+});
@@ -0,0 +1,206 @@
+import { GoogleGenAI } from '@google/genai';
+import { getGoogleAIApiKey } from '@/lib/llm-provider';
+
+// Embedding providers used by the RAG pipeline.
+// Every stored vector records the provider name and dimension so vectors from
+// different models are never compared with each other.
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly dimension: number;
+  embed(text: string): Promise<number[]>;
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingResult {
+  provider: string;
+  dimension: number;
+  vector: number[];
+}
+
+const GEMINI_BATCH_SIZE = 100;
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly dimension: number;
+
+  constructor(private ai: GoogleGenAI, private model: string = 'text-embedding-004', dimension: number = 768) {
+    this.name = `gemini:${model}`;
+    this.dimension = dimension;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [vector] = await this.embedBatch([text]);
+    return vector;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    // The API accepts at most 100 inputs per request
+    for (let i = 0; i < texts.length; i += GEMINI_BATCH_SIZE) {
+      const batch = texts.slice(i, i + GEMINI_BATCH_SIZE);
+      const response = await this.ai.models.embedContent({
+        model: this.model,
+        contents: batch,
+        config: { outputDimensionality: this.dimension }
+      });
+
+      const batchVectors = (response.embeddings || []).map(e => e.values || []);
+      if (batchVectors.length !== batch.length || batchVectors.some(v => v.length !== this.dimension)) {
+        throw new Error(`Gemini returned ${batchVectors.length} embeddings for ${batch.length} inputs with unexpected dimensions`);
+      }
+      vectors.push(...batchVectors);
+    }
+
+    return vectors;
+  }
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'for', 'from', 'has', 'have',
+  'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'our', 'that', 'the', 'their', 'these', 'this',
+  'those', 'to', 'was', 'we', 'were', 'which', 'with', 'within'
+]);
+
+// Deterministic offline embeddings: hashed term frequencies (unigrams and
+// bigrams) with sublinear tf weighting, signed feature hashing and L2
+// normalisation. No network access or model download required.
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly dimension: number;
+
+  constructor(dimension: number = 768) {
+    this.dimension = dimension;
+    this.name = `local-hash:${dimension}`;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return this.embedSync(text);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedSync(text));
+  }
+
+  embedSync(text: string): number[] {
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+
+    tokens.forEach((token, i) => {
+      counts.set(token, (counts.get(token) || 0) + 1);
+      if (i > 0) {
+        const bigram = `${tokens[i - 1]}_${token}`;
+        counts.set(bigram, (counts.get(bigram) || 0) + 1);
+      }
+    });
+
+    const vector = new Array(this.dimension).fill(0);
+    for (const [term, count] of counts) {
+      const hash = fnv1a(term);
+      const index = hash % this.dimension;
+      const sign = (hash >>> 31) === 0 ? 1 : -1;
+      vector[index] += sign * (1 + Math.log(count));
+    }
+
+    return normalize(vector);
+  }
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+// Select the configured provider. EMBEDDING_PROVIDER may be 'gemini' or
+// 'local'; when unset, Gemini is used if an API key is available.
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const choice = (process.env.EMBEDDING_PROVIDER || '').toLowerCase();
+  if (choice === 'local') {
+    return new HashingEmbeddingProvider();
+  }
+
+  const apiKey = getGoogleAIApiKey();
+  if (!apiKey) {
+    if (choice === 'gemini') {
+      console.warn('EMBEDDING_PROVIDER is gemini but no Google AI API key is set. Using local embeddings.');
+    }
+    return new HashingEmbeddingProvider();
+  }
+
+  return new GeminiEmbeddingProvider(new GoogleGenAI({ apiKey }));
+}
+
+// Recreate the provider that produced a stored vector, so queries are
+// embedded in the same space. Returns null when it is not available here.
+export function getEmbeddingProviderByName(name: string, dimension: number): EmbeddingProvider | null {
+  const [kind, model] = name.split(':');
+
+  if (kind === 'local-hash') {
+    return new HashingEmbeddingProvider(dimension);
+  }
+
+  if (kind === 'gemini' && model) {
+    const apiKey = getGoogleAIApiKey();
+    return apiKey ? new GeminiEmbeddingProvider(new GoogleGenAI({ apiKey }), model, dimension) : null;
+  }
+
+  return null;
+}
+
+// Embed a batch with the given provider. There is deliberately no fallback:
+// passages stored with the local provider because the configured one failed
+// briefly would stay in the weaker space until reprocessed.
+export async function embedTexts(
+  texts: string[],
+  provider: EmbeddingProvider = createEmbeddingProvider()
+): Promise<EmbeddingResult[]> {
+  const vectors = await provider.embedBatch(texts);
+
+  return vectors.map(vector => ({
+    provider: provider.name,
+    dimension: provider.dimension,
+    vector
+  }));
+}
+
+export function isComparable(
+  a: { provider?: string; dimension?: number },
+  b: { provider?: string; dimension?: number }
+): boolean {
+  return !!a.provider && a.provider === b.provider && a.dimension === b.dimension;
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare embeddings of dimension ${a.length} and ${b.length}`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
@@ -1,97 +1,117 @@
-import { GoogleGenAI } from '@google/genai';
-import type { Paper } from '@/types/paper';
+import { createLLMProvider, LLMConfigurationError, type LLMProvider, type LLMGenerateOptions } from '@/lib/llm-provider';
+import { STRUCTURED_SUMMARY_SCHEMA, parseStructuredSummary, parseListItems, StructuredSummaryError } from '@/lib/structured-summary';
+import type { Paper, StructuredSummary } from '@/types/paper';
 
+// Default generation settings for each feature; callers can override any of
+// them per call. The model falls back to the provider's default.
+const CHAT_OPTIONS: LLMGenerateOptions = { temperature: 0.4, maxTokens: 2048 };
+const SUMMARY_OPTIONS: LLMGenerateOptions = { temperature: 0.2, maxTokens: 1024 };
+const INSIGHTS_OPTIONS: LLMGenerateOptions = { temperature: 0.2, maxTokens: 768 };
+const STRUCTURED_SUMMARY_OPTIONS: LLMGenerateOptions = { temperature: 0.1, maxTokens: 1536 };
+
+// Characters of full text included when summarizing
+const STRUCTURED_SUMMARY_TEXT_CHARS = 12000;
+
+// AI features on top of whichever LLMProvider is configured (Gemini by default).
+// Construction never throws; an unconfigured provider fails the request that
+// uses it, and routes can check isConfigured() up front.
 export class GeminiAIClient {
-  private ai: GoogleGenAI;
+  private llm: LLMProvider;
+
+  constructor(llm: LLMProvider = createLLMProvider()) {
+    this.llm = llm;
+  }
+
+  isConfigured(): boolean {
+    return this.llm.isConfigured();
+  }
+
+  getProviderName(): string {
+    return this.llm.name;
+  }
 
-  constructor() {
-    const apiKey = process.env.GOOGLE_AI_API_KEY;
-    if (!apiKey) {
-      console.warn('GOOGLE_AI_API_KEY environment variable is not set. AI features will not work.');
-      throw new Error('GOOGLE_AI_API_KEY environment variable is not set');
+  private async generate(prompt: string, defaults: LLMGenerateOptions, options: LLMGenerateOptions = {}): Promise<string> {
+    return this.llm.generate(prompt, { ...defaults, ...options });
+  }
+
+  private buildPaperChatPrompt(message: string, paperContext: string, chatHistory: any[] = []): string {
+    // Create the full context with paper information and chat history
+    let fullContext = `Paper context: ${paperContext}\n\n`;
+    
+    // Add chat history
+    if (chatHistory.length > 0) {
+      fullContext += 'Previous conversation:\n';
+      chatHistory.forEach(msg => {
+        const role = msg.role === 'assistant' ? 'AI' : 'User';
+        fullContext += `${role}: ${msg.content || msg.parts || msg.text}\n`;
+      });
+      fullContext += '\n';
     }
     
-    try {
-      this.ai = new GoogleGenAI({ apiKey });
-    } catch (error) {
-      console.error('Error initializing Google AI client:', error);
-      throw new Error('Failed to initialize Google AI client');
+    fullContext += `User: ${message}`;
+    return fullContext;
+  }
+
+  private buildChatPrompt(systemPrompt: string, conversationHistory: any[] = [], currentMessage: any): string {
+    // Create the full context with system prompt, conversation history, and current message
+    let fullContext = `${systemPrompt}\n\n`;
+    
+    // Add conversation history
+    if (conversationHistory.length > 0) {
+      fullContext += 'Previous conversation:\n';
+      conversationHistory.forEach(msg => {
+        const role = msg.role === 'assistant' ? 'AI' : 'User';
+        const content = msg.parts?.[0]?.text || msg.content || msg.text;
+        fullContext += `${role}: ${content}\n`;
+      });
+      fullContext += '\n';
     }
+    
+    // Add current message
+    const currentContent = currentMessage.parts?.[0]?.text || currentMessage.content || currentMessage.text;
+    fullContext += `User: ${currentContent}`;
+    return fullContext;
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
-    try {
-      // For now, return a simple embedding as fallback
-      // TODO: Implement proper embedding with the new API
-      return new Array(768).fill(0).map(() => Math.random() - 0.5);
-    } catch (error) {
-      console.error('Error generating embedding:', error);
-      return new Array(768).fill(0).map(() => Math.random() - 0.5);
+  // Configuration problems are passed through so routes can report them
+  private rethrow(error: unknown, message: string): never {
+    if (error instanceof LLMConfigurationError) {
+      throw error;
     }
+    throw new Error(message);
   }
 
-  async chatWithPaper(message: string, paperContext: string, chatHistory: any[] = []) {
+  async chatWithPaper(message: string, paperContext: string, chatHistory: any[] = [], options: LLMGenerateOptions = {}) {
     try {
-      // Create the full context with paper information and chat history
-      let fullContext = `Paper context: ${paperContext}\n\n`;
-      
-      // Add chat history
-      if (chatHistory.length > 0) {
-        fullContext += 'Previous conversation:\n';
-        chatHistory.forEach(msg => {
-          const role = msg.role === 'assistant' ? 'AI' : 'User';
-          fullContext += `${role}: ${msg.content || msg.parts || msg.text}\n`;
-        });
-        fullContext += '\n';
-      }
-      
-      fullContext += `User: ${message}`;
-      
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.0-flash-001',
-        contents: fullContext,
-      });
-      
-      return response.text || 'No response generated';
+      const response = await this.generate(this.buildPaperChatPrompt(message, paperContext, chatHistory), CHAT_OPTIONS, options);
+      return response || 'No response generated';
     } catch (error) {
       console.error('Error in chatWithPaper:', error);
-      throw new Error('Failed to generate response from AI');
+      this.rethrow(error, 'Failed to generate response from AI');
     }
   }
 
-  async chat(systemPrompt: string, conversationHistory: any[] = [], currentMessage: any) {
+  // Yields text as the model generates it. Aborting options.signal stops the
+  // upstream request.
+  streamChatWithPaper(message: string, paperContext: string, chatHistory: any[] = [], options: LLMGenerateOptions = {}): AsyncGenerator<string> {
+    return this.llm.stream(this.buildPaperChatPrompt(message, paperContext, chatHistory), { ...CHAT_OPTIONS, ...options });
+  }
+
+  async chat(systemPrompt: string, conversationHistory: any[] = [], currentMessage: any, options: LLMGenerateOptions = {}) {
     try {
-      // Create the full context with system prompt, conversation history, and current message
-      let fullContext = `${systemPrompt}\n\n`;
-      
-      // Add conversation history
-      if (conversationHistory.length > 0) {
-        fullContext += 'Previous conversation:\n';
-        conversationHistory.forEach(msg => {
-          const role = msg.role === 'assistant' ? 'AI' : 'User';
-          const content = msg.parts?.[0]?.text || msg.content || msg.text;
-          fullContext += `${role}: ${content}\n`;
-        });
-        fullContext += '\n';
-      }
-      
-      // Add current message
-      const currentContent = currentMessage.parts?.[0]?.text || currentMessage.content || currentMessage.text;
-      fullContext += `User: ${currentContent}`;
-      
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.0-flash-001',
-        contents: fullContext,
-      });
-      
-      return response.text || 'No response generated';
+      const response = await this.generate(this.buildChatPrompt(systemPrompt, conversationHistory, currentMessage), CHAT_OPTIONS, options);
+      return response || 'No response generated';
     } catch (error) {
       console.error('Error in chat:', error);
-      throw new Error('Failed to generate response from AI');
+      this.rethrow(error, 'Failed to generate response from AI');
     }
   }
 
-  async summarizePaper(paper: Paper): Promise<string> {
+  streamChat(systemPrompt: string, conversationHistory: any[] = [], currentMessage: any, options: LLMGenerateOptions = {}): AsyncGenerator<string> {
+    return this.llm.stream(this.buildChatPrompt(systemPrompt, conversationHistory, currentMessage), { ...CHAT_OPTIONS, ...options });
+  }
+
+  async summarizePaper(paper: Paper, options: LLMGenerateOptions = {}): Promise<string> {
     try {
       const prompt = `
 Please provide a comprehensive summary of the following research paper:
@@ -112,19 +132,15 @@ Please include:
 Keep the summary clear and accessible to a general academic audience.
 `;
 
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.0-flash-001',
-        contents: prompt,
-      });
-      
-      return response.text || 'No summary generated';
+      const response = await this.generate(prompt, SUMMARY_OPTIONS, options);
+      return response || 'No summary generated';
     } catch (error) {
       console.error('Error summarizing paper:', error);
-      throw new Error('Failed to summarize paper');
+      this.rethrow(error, 'Failed to summarize paper');
     }
   }
 
-  async extractKeyInsights(paper: Paper): Promise<string[]> {
+  async extractKeyInsights(paper: Paper, options: LLMGenerateOptions = {}): Promise<string[]> {
     try {
       const prompt = `
 Extract the key insights and main points from this research paper:
@@ -143,15 +159,68 @@ Please provide 5-7 key insights as bullet points. Focus on:
 Format as a simple list of insights.
 `;
 
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.0-flash-001',
-        contents: prompt,
-      });
-      
-      return (response.text || '').split('\n').filter((line: string) => line.trim().startsWith('-') || line.trim().startsWith('•'));
+      const response = await this.generate(prompt, INSIGHTS_OPTIONS, options);
+      return parseListItems(response);
     } catch (error) {
       console.error('Error extracting insights:', error);
-      throw new Error('Failed to extract insights');
+      this.rethrow(error, 'Failed to extract insights');
+    }
+  }
+
+  getModelName(options: LLMGenerateOptions = {}): string {
+    return options.model || this.llm.defaultModel;
+  }
+
+  // Asks for JSON matching STRUCTURED_SUMMARY_SCHEMA. Output that cannot be
+  // repaired locally is sent back to the model once to be fixed.
+  async generateStructuredSummary(paper: Paper, options: LLMGenerateOptions = {}): Promise<StructuredSummary> {
+    const prompt = `
+Summarize the following research paper as a JSON object with exactly this schema:
+
+${STRUCTURED_SUMMARY_SCHEMA}
+
+Base every field only on the paper text below. Use short, self-contained sentences for list items.
+Respond with the JSON object only, without code fences or commentary.
+
+Title: ${paper.title}
+Authors: ${paper.authors?.map(a => a.name).join(', ') || 'Unknown'}
+Year: ${paper.year || 'Unknown'}
+Abstract: ${paper.abstract || 'No abstract available'}
+${paper.fullText ? `Full Text: ${paper.fullText.substring(0, STRUCTURED_SUMMARY_TEXT_CHARS)}...` : ''}
+`;
+
+    let output: string;
+    try {
+      output = await this.generate(prompt, STRUCTURED_SUMMARY_OPTIONS, options);
+    } catch (error) {
+      console.error('Error generating structured summary:', error);
+      this.rethrow(error, 'Failed to generate structured summary');
+    }
+
+    try {
+      return parseStructuredSummary(output);
+    } catch (error) {
+      if (!(error instanceof StructuredSummaryError)) throw error;
+      console.warn(`Structured summary needs repair: ${error.message}`);
+    }
+
+    const repairPrompt = `
+The following output was supposed to be a JSON object with this schema:
+
+${STRUCTURED_SUMMARY_SCHEMA}
+
+Rewrite it as valid JSON matching the schema exactly. Respond with the JSON object only.
+
+Output:
+${output}
+`;
+
+    try {
+      const repaired = await this.generate(repairPrompt, STRUCTURED_SUMMARY_OPTIONS, options);
+      return parseStructuredSummary(repaired);
+    } catch (error) {
+      console.error('Error repairing structured summary:', error);
+      this.rethrow(error, 'Failed to generate a valid structured summary');
     }
   }
 }
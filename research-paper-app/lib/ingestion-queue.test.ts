@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { enqueueIngestion } from '@/lib/ingestion-queue';
+import { ingestPaper } from '@/lib/paper-ingestion';
+import * as db from '@/lib/supabase';
+import type { IngestionJob, Paper } from '@/types/paper';
+
+vi.mock('@/lib/paper-ingestion', () => ({
+  ingestPaper: vi.fn().mockResolvedValue('processed'),
+  IngestionError: class IngestionError extends Error {}
+}));
+
+vi.mock('@/lib/supabase', () => ({
+  createIngestionJob: vi.fn(),
+  getIngestionJobs: vi.fn().mockResolvedValue([]),
+  getIngestionJob: vi.fn(),
+  getRunnableIngestionJobs: vi.fn(),
+  claimIngestionJob: vi.fn(),
+  updateIngestionJob: vi.fn().mockResolvedValue(undefined),
+  touchIngestionJob: vi.fn().mockResolvedValue(undefined),
+  requeueStaleIngestionJobs: vi.fn().mockResolvedValue(0)
+}));
+
+const paper = { paperId: 'W2741809807', title: 'Attention Is All You Need' } as Paper;
+
+const job: IngestionJob = {
+  id: 'job-1',
+  paperId: paper.paperId,
+  paper,
+  status: 'pending',
+  attempts: 0,
+  maxAttempts: 3,
+  nextAttemptAt: new Date().toISOString(),
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString()
+};
+
+describe('enqueueIngestion', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('starts the worker for the new job', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.mocked(db.createIngestionJob).mockResolvedValue(job);
+    vi.mocked(db.getRunnableIngestionJobs).mockResolvedValueOnce([job]).mockResolvedValue([]);
+    vi.mocked(db.claimIngestionJob).mockResolvedValue({ ...job, status: 'running', attempts: 1 });
+
+    await enqueueIngestion(paper, 'collection-1');
+
+    await vi.waitFor(() => {
+      expect(db.updateIngestionJob).toHaveBeenCalledWith(job.id, expect.objectContaining({ status: 'succeeded' }));
+    });
+    expect(ingestPaper).toHaveBeenCalledWith(paper);
+  });
+
+  it('touches a running job until it finishes, so it is not requeued as stale', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    let finishIngestion: (() => void) | null = null;
+    vi.mocked(ingestPaper).mockImplementationOnce(() => new Promise(resolve => {
+      finishIngestion = () => resolve('processed');
+    }));
+    vi.mocked(db.getIngestionJobs).mockResolvedValue([]);
+    vi.mocked(db.touchIngestionJob).mockResolvedValue(undefined);
+    vi.mocked(db.createIngestionJob).mockResolvedValue(job);
+    vi.mocked(db.getRunnableIngestionJobs).mockResolvedValueOnce([job]).mockResolvedValue([]);
+    vi.mocked(db.claimIngestionJob).mockResolvedValue({ ...job, status: 'running', attempts: 1 });
+    vi.mocked(db.updateIngestionJob).mockResolvedValue(undefined);
+
+    try {
+      await enqueueIngestion(paper);
+      await vi.waitFor(() => expect(finishIngestion).not.toBeNull());
+
+      // Well past the stale timeout
+      vi.advanceTimersByTime(15 * 60 * 1000);
+      expect(db.touchIngestionJob).toHaveBeenCalledTimes(15);
+      expect(db.touchIngestionJob).toHaveBeenCalledWith(job.id);
+
+      finishIngestion!();
+      await vi.waitFor(() => {
+        expect(db.updateIngestionJob).toHaveBeenCalledWith(job.id, expect.objectContaining({ status: 'succeeded' }));
+      });
+      vi.advanceTimersByTime(5 * 60 * 1000);
+      expect(db.touchIngestionJob).toHaveBeenCalledTimes(15);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,215 @@
+import type { IngestionJob, Paper } from '@/types/paper';
+import { ingestPaper, IngestionError } from '@/lib/paper-ingestion';
+import {
+  createIngestionJob,
+  getIngestionJobs,
+  getIngestionJob,
+  getRunnableIngestionJobs,
+  claimIngestionJob,
+  updateIngestionJob,
+  touchIngestionJob,
+  requeueStaleIngestionJobs
+} from '@/lib/supabase';
+
+// Durable queue for preparing papers for chat. Jobs live in the
+// ingestion_jobs table, so a request that ends (or a server that restarts)
+// never loses one. Enqueueing or retrying a job starts the worker; while
+// jobs wait for a retry the worker schedules its own next run. After a
+// restart the next enqueue, or POST /api/ingestion-jobs { action: 'run' }
+// from a scheduled task, picks up what was left.
+
+const CONCURRENCY = Math.max(1, parseInt(process.env.INGESTION_CONCURRENCY || '2', 10) || 2);
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+// A running job is touched this often, however long it takes (OCR of a
+// large scan can run well past STALE_JOB_MS)
+const HEARTBEAT_MS = 60 * 1000;
+// A running job not touched for this long is assumed to belong to a dead worker
+const STALE_JOB_MS = 10 * 60 * 1000;
+// Stop claiming new jobs after this long so one run does not go on forever
+const RUN_TIME_BUDGET_MS = 5 * 60 * 1000;
+// Shortest wait before a scheduled follow-up run
+const MIN_FOLLOW_UP_DELAY_MS = 1000;
+
+let activeRun: Promise<void> | null = null;
+let followUpRun: ReturnType<typeof setTimeout> | null = null;
+
+// Queue a paper unless it already has a pending or running job, and make
+// sure the worker is running
+export async function enqueueIngestion(paper: Paper, collectionId?: string): Promise<IngestionJob> {
+  const [activeJob] = await getIngestionJobs({ paperIds: [paper.paperId], statuses: ['pending', 'running'] });
+  if (activeJob) {
+    console.log(`📋 Paper ${paper.paperId} already has ${activeJob.status} ingestion job ${activeJob.id}`);
+    // It may have been left behind by a restarted server
+    startIngestionWorker();
+    return activeJob;
+  }
+
+  const job = await createIngestionJob({ paper, collectionId, maxAttempts: MAX_ATTEMPTS });
+  console.log(`📥 Queued ingestion job ${job.id} for paper ${paper.paperId}`);
+  startIngestionWorker();
+  return job;
+}
+
+// Put a failed job back in the queue with a fresh set of attempts
+export async function retryIngestionJob(jobId: string): Promise<IngestionJob | null> {
+  const job = await getIngestionJob(jobId);
+  if (!job || job.status !== 'failed') return null;
+
+  await updateIngestionJob(job.id, {
+    status: 'pending',
+    attempts: 0,
+    error: null,
+    nextAttemptAt: new Date().toISOString(),
+    finishedAt: null
+  });
+  startIngestionWorker();
+
+  return getIngestionJob(job.id);
+}
+
+// Latest job per paper
+export async function getLatestIngestionJobs(paperIds: string[]): Promise<IngestionJob[]> {
+  if (paperIds.length === 0) return [];
+
+  const latest = new Map<string, IngestionJob>();
+  for (const job of await getIngestionJobs({ paperIds })) {
+    if (!latest.has(job.paperId)) {
+      latest.set(job.paperId, job);
+    }
+  }
+
+  return Array.from(latest.values());
+}
+
+// Start working through the queue in this process. Calls made while a run is
+// in progress share it instead of starting a second loop.
+export function startIngestionWorker(): Promise<void> {
+  if (followUpRun) {
+    clearTimeout(followUpRun);
+    followUpRun = null;
+  }
+
+  if (!activeRun) {
+    activeRun = runQueue()
+      .catch(error => {
+        console.error('❌ Ingestion worker stopped:', error);
+      })
+      .finally(() => {
+        activeRun = null;
+        scheduleFollowUpRun().catch(error => {
+          console.error('❌ Could not schedule the next ingestion run:', error);
+        });
+      });
+  }
+
+  return activeRun;
+}
+
+// Jobs still pending after a run are waiting for a retry (or the run hit its
+// time budget); run again when the first of them is due
+async function scheduleFollowUpRun(): Promise<void> {
+  const pending = await getIngestionJobs({ statuses: ['pending'] });
+  if (pending.length === 0 || activeRun || followUpRun) return;
+
+  const due = Math.min(...pending.map(job => new Date(job.nextAttemptAt).getTime()));
+  const delay = Math.max(due - Date.now(), MIN_FOLLOW_UP_DELAY_MS);
+  followUpRun = setTimeout(() => {
+    followUpRun = null;
+    startIngestionWorker();
+  }, delay);
+  console.log(`⏰ Next ingestion run in ${Math.round(delay / 1000)}s for ${pending.length} pending job(s)`);
+}
+
+async function runQueue(): Promise<void> {
+  const requeued = await requeueStaleIngestionJobs(new Date(Date.now() - STALE_JOB_MS).toISOString());
+  if (requeued > 0) {
+    console.warn(`⚠️ Requeued ${requeued} stale ingestion job(s)`);
+  }
+
+  const deadline = Date.now() + RUN_TIME_BUDGET_MS;
+  const inFlight = new Set<Promise<void>>();
+
+  while (true) {
+    const freeSlots = CONCURRENCY - inFlight.size;
+    const candidates = freeSlots > 0 && Date.now() < deadline
+      ? await getRunnableIngestionJobs(freeSlots)
+      : [];
+
+    for (const candidate of candidates) {
+      const job = await claimIngestionJob(candidate);
+      if (!job) continue; // another worker got it first
+
+      const run: Promise<void> = runJob(job)
+        .catch(error => {
+          console.error(`❌ Could not record result of ingestion job ${job.id}:`, error);
+        })
+        .finally(() => {
+          inFlight.delete(run);
+        });
+      inFlight.add(run);
+    }
+
+    if (inFlight.size === 0) break;
+    await Promise.race(inFlight);
+  }
+}
+
+// Keep touching the job while it runs, so it is not taken for stale
+async function withHeartbeat<T>(jobId: string, fn: () => Promise<T>): Promise<T> {
+  const heartbeat = setInterval(() => {
+    touchIngestionJob(jobId).catch(error => {
+      console.warn(`⚠️ Could not touch ingestion job ${jobId}:`, error);
+    });
+  }, HEARTBEAT_MS);
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function runJob(job: IngestionJob): Promise<void> {
+  console.log(`🔄 Running ingestion job ${job.id} for paper ${job.paperId} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  // Requeued after its worker died on the final attempt
+  if (job.attempts > job.maxAttempts) {
+    await updateIngestionJob(job.id, {
+      status: 'failed',
+      error: job.error || 'Processing was interrupted too many times',
+      finishedAt: new Date().toISOString()
+    });
+    return;
+  }
+
+  try {
+    await withHeartbeat(job.id, () => ingestPaper(job.paper));
+    await updateIngestionJob(job.id, {
+      status: 'succeeded',
+      error: null,
+      finishedAt: new Date().toISOString()
+    });
+    console.log(`✅ Ingestion job ${job.id} succeeded`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const retryable = !(error instanceof IngestionError) || error.retryable;
+
+    if (retryable && job.attempts < job.maxAttempts) {
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+      console.warn(`⚠️ Ingestion job ${job.id} failed, retrying in ${delay / 1000}s: ${message}`);
+      await updateIngestionJob(job.id, {
+        status: 'pending',
+        error: message,
+        nextAttemptAt: new Date(Date.now() + delay).toISOString()
+      });
+    } else {
+      console.error(`❌ Ingestion job ${job.id} failed: ${message}`);
+      await updateIngestionJob(job.id, {
+        status: 'failed',
+        error: message,
+        finishedAt: new Date().toISOString()
+      });
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MockLLMProvider, OpenAICompatibleProvider } from '@/lib/llm-provider';
+
+async function collect(stream: AsyncGenerator<string>): Promise<string[]> {
+  const parts: string[] = [];
+  for await (const part of stream) parts.push(part);
+  return parts;
+}
+
+// Response whose body arrives in the given reads
+function streamingResponse(reads: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      reads.forEach(read => controller.enqueue(encoder.encode(read)));
+      controller.close();
+    }
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function delta(content: string): string {
+  return `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+}
+
+describe('MockLLMProvider', () => {
+  it('replays responses in order, repeating the last, and records prompts', async () => {
+    const llm = new MockLLMProvider(['first', 'second']);
+
+    expect(await llm.generate('a')).toBe('first');
+    expect(await llm.generate('b', { temperature: 0 })).toBe('second');
+    expect(await llm.generate('c')).toBe('second');
+    expect(llm.calls.map(call => call.prompt)).toEqual(['a', 'b', 'c']);
+    expect(llm.calls[1].options.temperature).toBe(0);
+  });
+
+  it('streams the response word by word', async () => {
+    const llm = new MockLLMProvider(['Attention is all you need.']);
+    const parts = await collect(llm.stream('prompt'));
+
+    expect(parts).toEqual(['Attention ', 'is ', 'all ', 'you ', 'need.']);
+    expect(parts.join('')).toBe('Attention is all you need.');
+  });
+
+  it('stops streaming once aborted', async () => {
+    const llm = new MockLLMProvider(['one two three']);
+    const controller = new AbortController();
+    const parts: string[] = [];
+
+    for await (const part of llm.stream('prompt', { signal: controller.signal })) {
+      parts.push(part);
+      controller.abort();
+    }
+
+    expect(parts).toEqual(['one ']);
+  });
+});
+
+describe('OpenAICompatibleProvider.stream', () => {
+  const llm = new OpenAICompatibleProvider('http://localhost:8080/v1/', 'local-model');
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('yields deltas until [DONE]', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamingResponse([
+      delta('Hello'),
+      ': keep-alive comment\n\n',
+      delta(', world'),
+      'data: [DONE]\n\n',
+      delta('after done')
+    ])));
+
+    expect(await collect(llm.stream('hi'))).toEqual(['Hello', ', world']);
+    expect(vi.mocked(fetch).mock.calls[0][0]).toBe('http://localhost:8080/v1/chat/completions');
+  });
+
+  it('joins a payload split across reads', async () => {
+    const line = delta('split across reads');
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamingResponse([
+      line.slice(0, 20),
+      line.slice(20, 35),
+      line.slice(35) + 'data: [DONE]\n\n'
+    ])));
+
+    expect(await collect(llm.stream('hi'))).toEqual(['split across reads']);
+  });
+
+  it('skips lines that are not JSON', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamingResponse([
+      delta('before'),
+      'data: {not json\n\n',
+      delta(' after')
+    ])));
+
+    expect(await collect(llm.stream('hi'))).toEqual(['before', ' after']);
+  });
+
+  it('reads a last line without a trailing newline', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamingResponse([
+      delta('one'),
+      delta(' two').trimEnd()
+    ])));
+
+    expect(await collect(llm.stream('hi'))).toEqual(['one', ' two']);
+  });
+
+  it('fails on an error sent mid-stream', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamingResponse([
+      delta('partial'),
+      `data: ${JSON.stringify({ error: { message: 'context length exceeded' } })}\n\n`
+    ])));
+
+    await expect(collect(llm.stream('hi'))).rejects.toThrow('context length exceeded');
+  });
+});
@@ -0,0 +1,251 @@
+import { GoogleGenAI } from '@google/genai';
+
+// Text generation providers used by the AI features.
+// LLM_PROVIDER selects one: 'gemini' (default), 'openai' for any
+// OpenAI-compatible server (OpenAI, llama.cpp, Ollama, vLLM...) or 'mock'.
+
+export interface LLMGenerateOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  isConfigured(): boolean;
+  generate(prompt: string, options?: LLMGenerateOptions): Promise<string>;
+  stream(prompt: string, options?: LLMGenerateOptions): AsyncGenerator<string>;
+}
+
+export class LLMConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMConfigurationError';
+  }
+}
+
+export const LLM_CONFIGURATION_HINT = 'Set GOOGLE_AI_API_KEY (or GEMINI_API_KEY) for Gemini, or LLM_PROVIDER=openai with LLM_BASE_URL and LLM_MODEL for an OpenAI-compatible server.';
+
+// GEMINI_API_KEY is what .env.example has always documented
+export function getGoogleAIApiKey(): string | undefined {
+  return process.env.GOOGLE_AI_API_KEY || process.env.GEMINI_API_KEY;
+}
+
+export class GeminiLLMProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private ai: GoogleGenAI | null = null;
+
+  constructor(private apiKey: string | undefined = getGoogleAIApiKey(), readonly defaultModel: string = 'gemini-2.0-flash-001') {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  // The SDK client is created on first use so a missing key only fails the
+  // request that needs it
+  private getClient(): GoogleGenAI {
+    if (!this.apiKey) {
+      throw new LLMConfigurationError('GOOGLE_AI_API_KEY (or GEMINI_API_KEY) environment variable is not set');
+    }
+    if (!this.ai) {
+      this.ai = new GoogleGenAI({ apiKey: this.apiKey });
+    }
+    return this.ai;
+  }
+
+  private buildConfig(options: LLMGenerateOptions) {
+    return {
+      temperature: options.temperature,
+      maxOutputTokens: options.maxTokens,
+      abortSignal: options.signal
+    };
+  }
+
+  async generate(prompt: string, options: LLMGenerateOptions = {}): Promise<string> {
+    const response = await this.getClient().models.generateContent({
+      model: options.model || this.defaultModel,
+      contents: prompt,
+      config: this.buildConfig(options)
+    });
+
+    return response.text || '';
+  }
+
+  async *stream(prompt: string, options: LLMGenerateOptions = {}): AsyncGenerator<string> {
+    const stream = await this.getClient().models.generateContentStream({
+      model: options.model || this.defaultModel,
+      contents: prompt,
+      config: this.buildConfig(options)
+    });
+
+    for await (const chunk of stream) {
+      if (options.signal?.aborted) return;
+      if (chunk.text) {
+        yield chunk.text;
+      }
+    }
+  }
+}
+
+// Talks to the /chat/completions endpoint of an OpenAI-compatible server.
+// Local servers usually ignore the API key, so it is optional.
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private baseUrl: string;
+
+  constructor(baseUrl: string, readonly defaultModel: string, private apiKey?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.name = `openai:${this.baseUrl}`;
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseUrl && !!this.defaultModel;
+  }
+
+  private async request(prompt: string, options: LLMGenerateOptions, stream: boolean): Promise<Response> {
+    if (!this.isConfigured()) {
+      throw new LLMConfigurationError('LLM_BASE_URL and LLM_MODEL must be set to use an OpenAI-compatible provider');
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: options.model || this.defaultModel,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        stream
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new Error(`LLM server returned ${response.status}: ${details.substring(0, 200)}`);
+    }
+
+    return response;
+  }
+
+  async generate(prompt: string, options: LLMGenerateOptions = {}): Promise<string> {
+    const response = await this.request(prompt, options, false);
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || '';
+  }
+
+  async *stream(prompt: string, options: LLMGenerateOptions = {}): AsyncGenerator<string> {
+    const response = await this.request(prompt, options, true);
+    if (!response.body) {
+      throw new Error('LLM server returned no response body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      // A last line without a newline still counts
+      buffer += done ? decoder.decode() + '\n' : decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const delta = parseStreamLine(line);
+        if (delta === STREAM_DONE) return;
+        if (delta) {
+          yield delta;
+        }
+      }
+
+      if (done) break;
+    }
+  }
+}
+
+const STREAM_DONE = Symbol('done');
+
+// Content of one line of a streamed completion: null for lines without any,
+// STREAM_DONE for the closing "data: [DONE]". A line that is not JSON is
+// skipped so one bad line does not end the answer; an error object sent
+// mid-stream fails it.
+function parseStreamLine(line: string): string | null | typeof STREAM_DONE {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) return null;
+
+  const payload = trimmed.slice(5).trim();
+  if (payload === '[DONE]') return STREAM_DONE;
+
+  let data: any;
+  try {
+    data = JSON.parse(payload);
+  } catch {
+    console.warn(`⚠️ Skipping unparseable line from LLM server: ${payload.substring(0, 200)}`);
+    return null;
+  }
+
+  if (data?.error) {
+    throw new Error(`LLM server error: ${data.error.message || JSON.stringify(data.error).substring(0, 200)}`);
+  }
+  return data?.choices?.[0]?.delta?.content || null;
+}
+
+// Replays scripted responses in order (the last one repeats) and records
+// every prompt it receives, so AI features can be exercised without a model.
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly defaultModel = 'mock';
+  readonly calls: { prompt: string; options: LLMGenerateOptions }[] = [];
+  private responses: string[];
+
+  constructor(responses: string[] = ['This is a mock response.']) {
+    this.responses = responses.length > 0 ? [...responses] : [''];
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate(prompt: string, options: LLMGenerateOptions = {}): Promise<string> {
+    this.calls.push({ prompt, options });
+    return this.responses.length > 1 ? this.responses.shift()! : this.responses[0];
+  }
+
+  async *stream(prompt: string, options: LLMGenerateOptions = {}): AsyncGenerator<string> {
+    const text = await this.generate(prompt, options);
+    for (const word of text.match(/\s*\S+\s*/g) || []) {
+      if (options.signal?.aborted) return;
+      yield word;
+    }
+  }
+}
+
+export function createLLMProvider(): LLMProvider {
+  const choice = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+
+  if (choice === 'openai') {
+    return new OpenAICompatibleProvider(
+      process.env.LLM_BASE_URL || '',
+      process.env.LLM_MODEL || '',
+      process.env.LLM_API_KEY
+    );
+  }
+
+  if (choice === 'mock') {
+    return new MockLLMProvider();
+  }
+
+  if (choice !== 'gemini') {
+    console.warn(`Unknown LLM_PROVIDER "${choice}". Using Gemini.`);
+  }
+
+  return new GeminiLLMProvider(getGoogleAIApiKey(), process.env.LLM_MODEL || undefined);
+}
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OpenAlexCache } from '@/lib/openalex-cache';
+
+vi.mock('@/lib/supabase', () => ({
+  getCachedSearch: vi.fn().mockResolvedValue(null),
+  cacheSearchResult: vi.fn().mockResolvedValue(undefined),
+  cachePaper: vi.fn().mockResolvedValue(undefined),
+  getPaper: vi.fn().mockResolvedValue(null)
+}));
+
+function respondWith(status: number, statusText: string) {
+  vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status, statusText, json: async () => ({}) }));
+}
+
+describe('OpenAlexCache.searchWithCaching', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('rejects when OpenAlex returns a server error', async () => {
+    respondWith(500, 'Internal Server Error');
+    await expect(OpenAlexCache.searchWithCaching('transformers server error')).rejects.toThrow('500');
+  });
+
+  it('rejects when OpenAlex cannot be reached', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+    await expect(OpenAlexCache.searchWithCaching('transformers unreachable')).rejects.toThrow('fetch failed');
+  });
+
+  it('returns an empty, rate-limited result when OpenAlex rate limits', async () => {
+    respondWith(429, 'Too Many Requests');
+    const result = await OpenAlexCache.searchWithCaching('transformers rate limited', 10);
+    expect(result.successful).toEqual([]);
+    expect(result.rateLimited).toBe(10);
+  });
+});
@@ -2,21 +2,43 @@ import CryptoJS from 'crypto-js';
 import { BrowserCache } from '@/utils/browser-cache';
 import { getCachedSearch, cacheSearchResult, cachePaper, getPaper } from '@/lib/supabase';
 import { OpenAlexClient } from '@/lib/openalex-client';
-import { RateLimiter, retryWithBackoff, isRateLimitError, isRetryableError } from '@/utils/api-utils';
+import { RateLimiter, retryWithBackoff, isRateLimitError, isRetryableError, isValidationError } from '@/utils/api-utils';
 import type { Paper, CacheResult, SearchCacheEntry } from '@/types/paper';
+import type { Filters } from '@/types/filters';
 
 export class OpenAlexCache {
   private static client = new OpenAlexClient();
   private static rateLimiter = new RateLimiter(500); // 500ms delay between requests (OpenAlex is more generous)
+  // Order of unfiltered searches; filtered ones use filters.sortBy
+  private static defaultSort = 'cited_by_count:desc';
 
-  // Generate hash for cache key
-  static generateQueryHash(query: string, limit: number): string {
-    return CryptoJS.SHA256(`${query}_${limit}`).toString();
+  // Generate hash for cache key. Every page of a search is cached on its
+  // own, keyed by the cursor that fetched it ('*' for the first page), the
+  // sort order and the filters as sent to OpenAlex.
+  static generateQueryHash(query: string, limit: number, cursor: string = '*', filters?: Filters): string {
+    const key = JSON.stringify({
+      query: query.trim(),
+      limit,
+      cursor,
+      sort: filters?.sortBy || this.defaultSort,
+      filters: this.canonicalizeFilters(filters)
+    });
+    return CryptoJS.SHA256(key).toString();
+  }
+
+  // Filters that produce the same OpenAlex request serialize the same way:
+  // keys sorted, OR-ed values sorted and deduplicated, invalid topics dropped
+  private static canonicalizeFilters(filters?: Filters): [string, string][] {
+    if (!filters) return [];
+
+    return Object.entries(this.client.convertFiltersToOpenAlex(filters))
+      .map(([key, value]): [string, string] => [key, Array.from(new Set(value.split('|'))).sort().join('|')])
+      .sort(([a], [b]) => a.localeCompare(b));
   }
 
   // Main search function with multi-level caching
-  static async searchWithCaching(query: string, limit: number = 10): Promise<CacheResult> {
-    const queryHash = this.generateQueryHash(query, limit);
+  static async searchWithCaching(query: string, limit: number = 10, cursor: string = '*', filters?: Filters): Promise<CacheResult> {
+    const queryHash = this.generateQueryHash(query, limit, cursor, filters);
     
     // 1. Check browser cache first (fastest)
     const browserCache = BrowserCache.getSearchResult(queryHash);
@@ -25,7 +47,9 @@ export class OpenAlexCache {
         successful: browserCache.results,
         rateLimited: browserCache.rateLimitedCount,
         fromCache: browserCache.results,
-        totalRequested: browserCache.totalRequested
+        totalRequested: browserCache.totalRequested,
+        nextCursor: browserCache.nextCursor ?? null,
+        totalCount: browserCache.totalCount
       };
     }
 
@@ -38,18 +62,22 @@ export class OpenAlexCache {
         successful: supabaseCache.results,
         rateLimited: supabaseCache.rateLimitedCount,
         fromCache: supabaseCache.results,
-        totalRequested: supabaseCache.totalRequested
+        totalRequested: supabaseCache.totalRequested,
+        nextCursor: supabaseCache.nextCursor ?? null,
+        totalCount: supabaseCache.totalCount
       };
     }
 
     // 3. Make API calls for missing papers
-    return await this.fetchFromAPI(query, limit, queryHash);
+    return await this.fetchFromAPI(query, limit, cursor, queryHash, filters);
   }
 
-  private static async fetchFromAPI(query: string, limit: number, queryHash: string): Promise<CacheResult> {
+  private static async fetchFromAPI(query: string, limit: number, cursor: string, queryHash: string, filters?: Filters): Promise<CacheResult> {
     const results: Paper[] = [];
     let rateLimitedCount = 0;
     let fromCache: Paper[] = [];
+    let nextCursor: string | null = null;
+    let totalCount: number | undefined;
 
     try {
       // Ensure rate limit compliance
@@ -63,14 +91,18 @@ export class OpenAlexCache {
         async () => {
           try {
             // Use OpenAlex search with better parameters
-            const response = await this.client.searchWorks(query, {
-              limit: safeLimit,
-              sort: 'cited_by_count:desc'
-            });
+            const response = filters
+              ? await this.client.searchWorksWithFilters(query, filters, { limit: safeLimit, cursor })
+              : await this.client.searchWorksWithQuery(query, {
+                limit: safeLimit,
+                cursor,
+                sort: this.defaultSort
+              });
             
             console.log('OpenAlex search results:', {
               total: response.meta.count,
               returned: response.results.length,
+              nextCursor: response.meta.next_cursor,
               responseTime: response.meta.db_response_time_ms
             });
             
@@ -84,6 +116,9 @@ export class OpenAlexCache {
         1000 // base delay
       );
       
+      nextCursor = apiResults.meta.next_cursor ?? null;
+      totalCount = apiResults.meta.count;
+
       // Transform OpenAlex results to our Paper format
       const papers = this.client.transformResults(apiResults);
       
@@ -131,6 +166,8 @@ export class OpenAlexCache {
         totalRequested: limit,
         successfulCount: results.length,
         rateLimitedCount,
+        nextCursor,
+        totalCount,
         updatedAt: new Date().toISOString(),
         expiresAt: new Date(Date.now() + 3600000).toISOString() // 1 hour
       };
@@ -139,18 +176,26 @@ export class OpenAlexCache {
       BrowserCache.setSearchResult(queryHash, searchResult);
 
     } catch (error) {
-      if (isRateLimitError(error)) {
-        rateLimitedCount = limit; // All requests failed due to rate limit
-      } else {
+      // Unknown author or venue names are the caller's to report
+      if (isValidationError(error)) {
+        throw error;
+      }
+      // Only a rate-limited search comes back empty, flagged as such; other
+      // upstream and network errors must not look like "no results"
+      if (!isRateLimitError(error)) {
         console.error('Error in fetchFromAPI:', error);
+        throw error;
       }
+      rateLimitedCount = limit; // All requests failed due to rate limit
     }
 
     return {
       successful: results,
       rateLimited: rateLimitedCount,
       fromCache,
-      totalRequested: limit
+      totalRequested: limit,
+      nextCursor,
+      totalCount
     };
   }
 
@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OpenAlexClient } from '@/lib/openalex-client';
+import { DEFAULT_FILTERS, type Filters, type TopicFilter } from '@/types/filters';
+
+const client = new OpenAlexClient();
+
+function withTopics(topics: TopicFilter[]): Filters {
+  return { ...DEFAULT_FILTERS, topics };
+}
+
+describe('convertFiltersToOpenAlex', () => {
+  it('maps the default filters', () => {
+    expect(client.convertFiltersToOpenAlex(DEFAULT_FILTERS)).toEqual({
+      publication_year: '2020-2024',
+      type: 'article|preprint'
+    });
+  });
+
+  it('adds open access and minimum citations', () => {
+    const filters = client.convertFiltersToOpenAlex({ ...DEFAULT_FILTERS, openAccess: true, minCitations: 100 });
+    expect(filters.is_oa).toBe('true');
+    expect(filters.cited_by_count).toBe('>100');
+  });
+
+  it('ORs topic and concept IDs into separate filters', () => {
+    const filters = client.convertFiltersToOpenAlex(withTopics([
+      { id: 'T10028', displayName: 'Topic Modeling', kind: 'topic' },
+      { id: 'C41008148', displayName: 'Computer science', kind: 'concept' },
+      { id: 'T11307', displayName: 'Domain Adaptation', kind: 'topic' },
+      { id: 'C154945302', displayName: 'Artificial intelligence', kind: 'concept' }
+    ]));
+
+    expect(filters['topics.id']).toBe('T10028|T11307');
+    expect(filters['concepts.id']).toBe('C41008148|C154945302');
+  });
+
+  it('normalizes OpenAlex URLs and lower-case IDs', () => {
+    const filters = client.convertFiltersToOpenAlex(withTopics([
+      { id: 'https://openalex.org/C41008148', displayName: 'Computer science', kind: 'concept' },
+      { id: 't10028', displayName: 'Topic Modeling', kind: 'topic' }
+    ]));
+
+    expect(filters['concepts.id']).toBe('C41008148');
+    expect(filters['topics.id']).toBe('T10028');
+  });
+
+  it('drops legacy slug IDs', () => {
+    const filters = client.convertFiltersToOpenAlex(withTopics([
+      { id: 'machine-learning', displayName: 'Machine Learning', kind: 'concept' },
+      { id: 'computer-vision', displayName: 'Computer Vision', kind: 'topic' }
+    ]));
+
+    expect(filters).not.toHaveProperty('topics.id');
+    expect(filters).not.toHaveProperty('concepts.id');
+  });
+
+  it('keeps valid IDs next to dropped slugs', () => {
+    const filters = client.convertFiltersToOpenAlex(withTopics([
+      { id: 'nlp', displayName: 'NLP', kind: 'concept' },
+      { id: 'C204321447', displayName: 'Natural language processing', kind: 'concept' }
+    ]));
+
+    expect(filters['concepts.id']).toBe('C204321447');
+  });
+});
+
+describe('buildFilterString', () => {
+  it('joins key:value pairs with commas', () => {
+    expect(client.buildFilterString({
+      publication_year: '2020-2024',
+      'topics.id': 'T10028|T11307',
+      is_oa: 'true'
+    })).toBe('publication_year:2020-2024,topics.id:T10028|T11307,is_oa:true');
+  });
+
+  it('is empty without filters', () => {
+    expect(client.buildFilterString({})).toBe('');
+  });
+});
+
+describe('searchWorksWithFilters', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the converted filters to OpenAlex', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ meta: { count: 0, db_response_time_ms: 1, page: null, per_page: 10 }, results: [] })
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await client.searchWorksWithFilters('machine learning', withTopics([
+      { id: 'C41008148', displayName: 'Computer science', kind: 'concept' },
+      { id: 'C154945302', displayName: 'Artificial intelligence', kind: 'concept' }
+    ]));
+
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.searchParams.get('search')).toBe('machine learning');
+    expect(url.searchParams.get('filter')).toBe(
+      'publication_year:2020-2024,type:article|preprint,concepts.id:C41008148|C154945302'
+    );
+  });
+});
+
+describe('searchAuthors', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('searches authors by name, most cited first', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ results: [{ id: 'https://openalex.org/A5023888391', display_name: 'Yoshua Bengio' }] })
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const authors = await client.searchAuthors('bengio', 5);
+
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.pathname).toBe('/authors');
+    expect(url.searchParams.get('search')).toBe('bengio');
+    expect(url.searchParams.get('per_page')).toBe('5');
+    expect(url.searchParams.get('sort')).toBe('cited_by_count:desc');
+    expect(authors.map(author => author.display_name)).toEqual(['Yoshua Bengio']);
+  });
+
+  it('throws on an error response', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' }));
+
+    await expect(client.searchAuthors('bengio')).rejects.toThrow('OpenAlex API error: 503 Service Unavailable');
+  });
+});
+
+describe('transformAuthor', () => {
+  it('shortens IDs and orders affiliations and yearly counts', () => {
+    const profile = client.transformAuthor({
+      id: 'https://openalex.org/A5023888391',
+      orcid: 'https://orcid.org/0000-0002-9322-3515',
+      display_name: 'Yoshua Bengio',
+      works_count: 900,
+      cited_by_count: 500000,
+      summary_stats: { h_index: 200, i10_index: 700 },
+      affiliations: [
+        { institution: { id: 'https://openalex.org/I1', display_name: 'McGill University', country_code: 'CA' }, years: [2001, 2003] },
+        { institution: { id: 'https://openalex.org/I2', display_name: 'Université de Montréal' }, years: [2019, 2024, 2022] }
+      ],
+      counts_by_year: [
+        { year: 2024, works_count: 40, cited_by_count: 90000 },
+        { year: 2023, works_count: 50, cited_by_count: 80000 }
+      ]
+    });
+
+    expect(profile).toEqual({
+      authorId: 'A5023888391',
+      name: 'Yoshua Bengio',
+      orcid: 'https://orcid.org/0000-0002-9322-3515',
+      worksCount: 900,
+      citationCount: 500000,
+      hIndex: 200,
+      i10Index: 700,
+      affiliations: [
+        { institutionId: 'I2', name: 'Université de Montréal', countryCode: null, years: [2024, 2022, 2019] },
+        { institutionId: 'I1', name: 'McGill University', countryCode: 'CA', years: [2003, 2001] }
+      ],
+      countsByYear: [
+        { year: 2023, worksCount: 50, citationCount: 80000 },
+        { year: 2024, worksCount: 40, citationCount: 90000 }
+      ]
+    });
+  });
+
+  it('fills in missing optional fields', () => {
+    const profile = client.transformAuthor({ id: 'A1', display_name: 'Ada Lovelace', works_count: 1, cited_by_count: 0 });
+
+    expect(profile).toMatchObject({ authorId: 'A1', orcid: null, hIndex: null, i10Index: null, affiliations: [], countsByYear: [] });
+  });
+});
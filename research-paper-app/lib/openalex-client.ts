@@ -1,7 +1,24 @@
 // OpenAlex API Client - Replacement for Semantic Scholar
 // Better rate limits (100,000 requests/day), no API key required, 250M+ works
 
-import type { Filters } from '@/types/filters';
+import type { Filters, TopicSuggestion } from '@/types/filters';
+import type { AuthorProfile } from '@/types/paper';
+import { parseSearchQuery, type EntityCondition } from '@/lib/query-parser';
+import { APIValidationError } from '@/utils/api-utils';
+
+// Where a work is hosted: publisher page, repository copy, preprint, ...
+export interface OpenAlexLocation {
+  is_oa?: boolean;
+  landing_page_url?: string | null;
+  pdf_url?: string | null;
+  version?: string | null;
+  license?: string | null;
+  source?: {
+    id: string;
+    display_name: string;
+    type: string;
+  } | null;
+}
 
 export interface OpenAlexWork {
   id: string;
@@ -20,14 +37,14 @@ export interface OpenAlexWork {
   };
   is_retracted: boolean;
   is_paratext: boolean;
-  primary_location?: {
-    source?: {
-      id: string;
-      display_name: string;
-      type: string;
-    };
-    landing_page_url?: string;
-    pdf_url?: string;
+  primary_location?: OpenAlexLocation;
+  best_oa_location?: OpenAlexLocation | null;
+  locations?: OpenAlexLocation[];
+  ids?: {
+    openalex?: string;
+    doi?: string;
+    pmid?: string;
+    pmcid?: string;
   };
   open_access: {
     is_oa: boolean;
@@ -60,15 +77,63 @@ export interface OpenAlexResponse {
   meta: {
     count: number;
     db_response_time_ms: number;
-    page: number;
+    // null when paging with a cursor
+    page: number | null;
     per_page: number;
+    // Cursor for the following page; null on the last one
+    next_cursor?: string | null;
   };
   results: OpenAlexWork[];
 }
 
+// Entry from the /autocomplete endpoints
+export interface OpenAlexAutocompleteResult {
+  id: string;
+  display_name: string;
+  hint?: string | null;
+  cited_by_count?: number;
+  works_count?: number;
+  entity_type?: string;
+}
+
+export interface OpenAlexAuthor {
+  id: string;
+  orcid?: string | null;
+  display_name: string;
+  works_count: number;
+  cited_by_count: number;
+  summary_stats?: {
+    h_index?: number;
+    i10_index?: number;
+    '2yr_mean_citedness'?: number;
+  };
+  affiliations?: Array<{
+    institution: {
+      id: string;
+      display_name: string;
+      country_code?: string | null;
+      type?: string | null;
+    };
+    years: number[];
+  }>;
+  last_known_institutions?: Array<{
+    id: string;
+    display_name: string;
+    country_code?: string | null;
+  }>;
+  counts_by_year?: Array<{
+    year: number;
+    works_count: number;
+    cited_by_count: number;
+  }>;
+}
+
 export interface OpenAlexSearchOptions {
   limit?: number;
   page?: number;
+  // Cursor paging ('*' for the first page) instead of page numbers, which
+  // OpenAlex stops serving after 10,000 results
+  cursor?: string;
   sort?: string;
   filters?: Record<string, string>;
   email?: string;
@@ -84,13 +149,30 @@ export class OpenAlexClient {
   }
 
   async searchWorks(query: string, options: OpenAlexSearchOptions = {}): Promise<OpenAlexResponse> {
+    // Relevance needs search text; queries made only of field conditions
+    // (e.g. author:) fall back to the most cited works
+    const hasSearchText = query.trim().length > 0 ||
+      Object.keys(options.filters || {}).some(key => key.endsWith('.search'));
+    let sort = options.sort || 'relevance_score:desc';
+    if (!hasSearchText && sort.startsWith('relevance_score')) {
+      sort = 'cited_by_count:desc';
+    }
+
     const params = new URLSearchParams({
-      search: query,
       per_page: (options.limit || 25).toString(),
-      page: (options.page || 1).toString(),
-      sort: options.sort || 'relevance_score:desc',
+      sort,
     });
 
+    if (query.trim()) {
+      params.append('search', query);
+    }
+
+    if (options.cursor) {
+      params.append('cursor', options.cursor);
+    } else {
+      params.append('page', (options.page || 1).toString());
+    }
+
     // Add filters if provided
     if (options.filters) {
       params.append('filter', this.buildFilterString(options.filters));
@@ -115,6 +197,7 @@ export class OpenAlexClient {
     console.log('OpenAlex response:', {
       count: data.meta?.count,
       results: data.results?.length,
+      nextCursor: data.meta?.next_cursor,
       responseTime: data.meta?.db_response_time_ms
     });
 
@@ -124,14 +207,95 @@ export class OpenAlexClient {
   // New method to search with filters
   async searchWorksWithFilters(query: string, filters: Filters, options: OpenAlexSearchOptions = {}): Promise<OpenAlexResponse> {
     const openAlexFilters = this.convertFiltersToOpenAlex(filters);
-    
-    return this.searchWorks(query, {
+
+    return this.searchWorksWithQuery(query, {
       ...options,
       filters: openAlexFilters,
       sort: filters.sortBy
     });
   }
 
+  // Search with the query language (phrases, AND/OR/NOT, title:, author:,
+  // ...). Throws APIValidationError for malformed queries and for author or
+  // venue names OpenAlex does not know.
+  async searchWorksWithQuery(query: string, options: OpenAlexSearchOptions = {}): Promise<OpenAlexResponse> {
+    const { search, filters } = await this.resolveQuery(query);
+
+    return this.searchWorks(search, {
+      ...options,
+      filters: { ...options.filters, ...filters }
+    });
+  }
+
+  // Turn a query into search text plus OpenAlex filters, looking up author
+  // and venue names
+  async resolveQuery(query: string): Promise<{ search: string; filters: Record<string, string> }> {
+    const plan = parseSearchQuery(query);
+    const filters: Record<string, string> = {};
+
+    if (plan.titleSearch) {
+      filters['title.search'] = plan.titleSearch;
+    }
+    if (plan.abstractSearch) {
+      filters['abstract.search'] = plan.abstractSearch;
+    }
+
+    const [authors, venues] = await Promise.all([
+      this.resolveConditions(plan.authors, 'authors', /^A\d+$/),
+      this.resolveConditions(plan.venues, 'sources', /^S\d+$/)
+    ]);
+    if (authors) {
+      filters['authorships.author.id'] = authors;
+    }
+    if (venues) {
+      filters['primary_location.source.id'] = venues;
+    }
+
+    const dois = this.conditionsToFilter(plan.dois);
+    if (dois) {
+      filters['doi'] = dois;
+    }
+
+    return { search: plan.search, filters };
+  }
+
+  // Map names to OpenAlex IDs (IDs given directly are kept) and build the
+  // filter value; null when there are no conditions
+  private async resolveConditions(
+    conditions: EntityCondition[],
+    entity: 'authors' | 'sources',
+    idPattern: RegExp
+  ): Promise<string | null> {
+    const resolved = await Promise.all(conditions.map(async condition => ({
+      ...condition,
+      values: await Promise.all(condition.values.map(async value => {
+        const id = value.split('/').pop()!.toUpperCase();
+        if (idPattern.test(id)) return id;
+
+        const [match] = await this.autocomplete(entity, value);
+        if (!match) {
+          throw new APIValidationError(
+            `No ${entity === 'authors' ? 'author' : 'venue'} found matching "${value}"`,
+            'query'
+          );
+        }
+        return match.id.split('/').pop() || match.id;
+      }))
+    })));
+
+    return this.conditionsToFilter(resolved);
+  }
+
+  // OR within a condition with |, AND between conditions with +; a negated
+  // condition becomes one !value per value
+  private conditionsToFilter(conditions: EntityCondition[]): string | null {
+    const parts = conditions.flatMap(condition => condition.negated
+      ? condition.values.map(value => `!${value}`)
+      : [condition.values.join('|')]);
+
+    return parts.length > 0 ? parts.join('+') : null;
+  }
+
   // Convert our filter interface to OpenAlex filter format
   convertFiltersToOpenAlex(filters: Filters): Record<string, string> {
     const openAlexFilters: Record<string, string> = {};
@@ -156,11 +320,21 @@ export class OpenAlexClient {
       openAlexFilters['cited_by_count'] = `>${filters.minCitations}`;
     }
 
-    // Research topics (using concepts)
-    if (filters.topics.length > 0) {
-      // For topics, we'll use the concept IDs
-      const topicFilters = filters.topics.map(topic => `concepts.id:${topic}`).join(',');
-      openAlexFilters['concepts'] = topicFilters;
+    // Research topics: OpenAlex topic (T...) and concept (C...) IDs, ORed
+    // within each kind. Anything else (e.g. old slugs saved by the browser)
+    // is dropped rather than sent as an invalid filter.
+    const topicIds: string[] = [];
+    const conceptIds: string[] = [];
+    for (const topic of filters.topics || []) {
+      const id = typeof topic?.id === 'string' ? topic.id.split('/').pop()!.toUpperCase() : '';
+      if (/^T\d+$/.test(id)) topicIds.push(id);
+      else if (/^C\d+$/.test(id)) conceptIds.push(id);
+    }
+    if (topicIds.length > 0) {
+      openAlexFilters['topics.id'] = topicIds.join('|');
+    }
+    if (conceptIds.length > 0) {
+      openAlexFilters['concepts.id'] = conceptIds.join('|');
     }
 
     return openAlexFilters;
@@ -188,7 +362,7 @@ export class OpenAlexClient {
         name: authorship.author.display_name
       })),
       isOpenAccess: work.open_access.is_oa,
-      pdfUrl: work.open_access.oa_url,
+      pdfUrl: work.best_oa_location?.pdf_url || work.open_access.oa_url,
       type: work.type,
       concepts: work.concepts?.map(concept => ({
         id: concept.id,
@@ -213,6 +387,47 @@ export class OpenAlexClient {
     return words.join(' ');
   }
 
+  // Topics and concepts whose names match a partial query, most used first
+  async autocompleteTopics(query: string, limit: number = 10): Promise<TopicSuggestion[]> {
+    const [topics, concepts] = await Promise.all([
+      this.autocomplete('topics', query),
+      this.autocomplete('concepts', query)
+    ]);
+
+    const suggestions: TopicSuggestion[] = [
+      ...topics.map(result => ({ result, kind: 'topic' as const })),
+      ...concepts.map(result => ({ result, kind: 'concept' as const }))
+    ].map(({ result, kind }) => ({
+      id: result.id.split('/').pop() || result.id,
+      displayName: result.display_name,
+      kind,
+      hint: result.hint ?? null,
+      worksCount: result.works_count
+    }));
+
+    return suggestions
+      .sort((a, b) => (b.worksCount || 0) - (a.worksCount || 0))
+      .slice(0, limit);
+  }
+
+  private async autocomplete(entity: 'topics' | 'concepts' | 'authors' | 'sources', query: string): Promise<OpenAlexAutocompleteResult[]> {
+    const url = `${this.baseURL}/autocomplete/${entity}?q=${encodeURIComponent(query)}`;
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'Research-Paper-App/1.0'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAlex API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.results || [];
+  }
+
   // Get a single work by ID
   async getWork(workId: string): Promise<OpenAlexWork> {
     const url = `${this.baseURL}/works/${workId}`;
@@ -231,6 +446,111 @@ export class OpenAlexClient {
     return response.json();
   }
 
+  // Look up a work by DOI; null when OpenAlex does not know it
+  async getWorkByDoi(doi: string): Promise<OpenAlexWork | null> {
+    const bareDoi = doi.replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, '');
+    const url = `${this.baseURL}/works/https://doi.org/${encodeURIComponent(bareDoi)}`;
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'Research-Paper-App/1.0'
+      }
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`OpenAlex API error: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  // Get an author by OpenAlex ID (A...); null when OpenAlex does not know it
+  async getAuthor(authorId: string): Promise<OpenAlexAuthor | null> {
+    const url = `${this.baseURL}/authors/${encodeURIComponent(authorId)}`;
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'Research-Paper-App/1.0'
+      }
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`OpenAlex API error: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  // Authors matching a name, most cited first
+  async searchAuthors(query: string, limit: number = 10): Promise<OpenAlexAuthor[]> {
+    const params = new URLSearchParams({
+      search: query,
+      per_page: limit.toString(),
+      sort: 'cited_by_count:desc'
+    });
+    const url = `${this.baseURL}/authors?${params.toString()}`;
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'Research-Paper-App/1.0'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAlex API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.results || [];
+  }
+
+  // An author's most cited works
+  async getAuthorWorks(authorId: string, limit: number = 10): Promise<OpenAlexResponse> {
+    return this.searchWorks('', {
+      limit,
+      filters: {
+        'authorships.author.id': authorId
+      },
+      sort: 'cited_by_count:desc'
+    });
+  }
+
+  transformAuthor(author: OpenAlexAuthor): AuthorProfile {
+    const affiliations = (author.affiliations || [])
+      .map(affiliation => ({
+        institutionId: affiliation.institution.id.split('/').pop() || affiliation.institution.id,
+        name: affiliation.institution.display_name,
+        countryCode: affiliation.institution.country_code ?? null,
+        years: [...affiliation.years].sort((a, b) => b - a)
+      }))
+      .sort((a, b) => (b.years[0] || 0) - (a.years[0] || 0));
+
+    return {
+      authorId: author.id.split('/').pop() || author.id,
+      name: author.display_name,
+      orcid: author.orcid ?? null,
+      worksCount: author.works_count,
+      citationCount: author.cited_by_count,
+      hIndex: author.summary_stats?.h_index ?? null,
+      i10Index: author.summary_stats?.i10_index ?? null,
+      affiliations,
+      countsByYear: (author.counts_by_year || [])
+        .map(count => ({ year: count.year, worksCount: count.works_count, citationCount: count.cited_by_count }))
+        .sort((a, b) => a.year - b.year)
+    };
+  }
+
   // Search with common filters
   async searchRecentPapers(query: string, limit: number = 10): Promise<OpenAlexResponse> {
     return this.searchWorks(query, {
@@ -0,0 +1,165 @@
+import type { Paper } from '@/types/paper';
+import { PDFProcessor, type ProcessedPDF } from '@/lib/pdf-processor';
+import { resolvePaperPdf, PdfResolutionError, type ResolvedPdf } from '@/lib/pdf-resolver';
+import { VectorStore, type VectorStoreEntry } from '@/lib/vector-store';
+import { embedPaperPassages, type EmbeddedPassages } from '@/lib/passage-chunker';
+import { parseReferences } from '@/lib/reference-parser';
+import { resolveReferences } from '@/lib/reference-resolver';
+import { extractFigures } from '@/lib/caption-extractor';
+
+// Failures that will not go away on retry (e.g. the paper has no PDF) are
+// marked non-retryable so the job queue fails them straight away.
+export class IngestionError extends Error {
+  constructor(message: string, public retryable: boolean = true) {
+    super(message);
+    this.name = 'IngestionError';
+  }
+}
+
+// Less text than this means a scan that OCR could not read either
+const MIN_TEXT_CHARS = 200;
+
+export type IngestionOutcome = 'processed' | 'already-processed';
+
+export interface ProcessedPaper {
+  entry: VectorStoreEntry;
+  introduction: string | null;
+  conclusion: string | null;
+  pageCount: number;
+}
+
+// Download, parse, embed and store a paper so it can be used in chat.
+// Throws on failure so callers can record the reason.
+export async function ingestPaper(paper: Paper): Promise<IngestionOutcome> {
+  console.log(`🔍 Starting RAG processing for paper: ${paper.paperId} - "${paper.title}"`);
+
+  // Check if paper is already in vector store
+  const vectorStore = new VectorStore();
+  const existingPaper = await vectorStore.getPaper(paper.paperId);
+
+  if (existingPaper) {
+    console.log(`📋 Paper ${paper.paperId} already processed for RAG`);
+    return 'already-processed';
+  }
+
+  await processPaperPdf(paper, vectorStore);
+  return 'processed';
+}
+
+// Process a paper's PDF and (re)write its vector store entry. The PDF comes
+// from the store or from the first location that yields a real PDF.
+export async function processPaperPdf(paper: Paper, vectorStore: VectorStore = new VectorStore()): Promise<ProcessedPaper> {
+  let resolved: ResolvedPdf;
+  try {
+    resolved = await resolvePaperPdf(paper);
+  } catch (error) {
+    if (error instanceof PdfResolutionError) {
+      throw new IngestionError(error.message, error.retryable);
+    }
+    throw error;
+  }
+
+  console.log(`📥 Processing PDF for paper ${paper.paperId} from ${resolved.source}: ${resolved.url || resolved.stored.filePath}`);
+
+  // Process the PDF
+  let pdfData: ProcessedPDF;
+  try {
+    pdfData = await PDFProcessor.processStoredPDF(resolved.stored);
+  } catch (error) {
+    throw new IngestionError(`PDF processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return ingestProcessedPdf(paper, pdfData, vectorStore, {
+    pdfUrl: resolved.url || paper.pdfUrl,
+    pdfSource: resolved.source
+  });
+}
+
+// Clean, embed and store an already parsed PDF, whether it was downloaded
+// or uploaded
+export async function ingestProcessedPdf(
+  paper: Paper,
+  pdfData: ProcessedPDF,
+  vectorStore: VectorStore = new VectorStore(),
+  extraMetadata: Record<string, any> = {}
+): Promise<ProcessedPaper> {
+  console.log(`📄 PDF processed successfully. Text length: ${pdfData.text.length}, Pages: ${pdfData.pageCount}${pdfData.ocr ? `, OCR'd pages: ${pdfData.ocr.pages.length}` : ''}`);
+
+  // Clean the text and pick out the main sections from the parsed structure
+  const cleanedText = PDFProcessor.cleanText(pdfData.text);
+  if (cleanedText.replace(/\s+/g, '').length < MIN_TEXT_CHARS) {
+    throw new IngestionError('No text could be extracted from this PDF', false);
+  }
+  const document = pdfData.document || PDFProcessor.parseDocument(cleanedText);
+  const extractedAbstract = PDFProcessor.extractAbstract(cleanedText, document) || paper.abstract;
+  const introduction = PDFProcessor.extractIntroduction(cleanedText, document);
+  const conclusion = PDFProcessor.extractConclusion(cleanedText, document);
+
+  const figures = extractFigures(pdfData.pages.length > 0 ? pdfData.pages : [cleanedText]);
+
+  console.log(`🧹 Text cleaned. Sections: ${document.sections.length}, Abstract: ${!!extractedAbstract}, Introduction: ${!!introduction}, Conclusion: ${!!conclusion}, References: ${!!document.references}, Tables/figures: ${figures.length}`);
+
+  // Embed the paper and its overlapping passages with the configured
+  // provider. A failure is retried later rather than stored with another one.
+  console.log(`🤖 Generating embedding for paper ${paper.paperId}...`);
+  const textForEmbedding = `${paper.title} ${extractedAbstract || ''} ${introduction || ''}`;
+  let embedded: EmbeddedPassages;
+  try {
+    embedded = await embedPaperPassages(textForEmbedding, cleanedText, { figures });
+  } catch (error) {
+    throw new IngestionError(`Embedding failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  const { embedding, chunks } = embedded;
+  console.log(`✅ Embeddings generated with ${embedding.provider}. Dimension: ${embedding.dimension}, passages: ${chunks.length}`);
+
+  // Add to Vector Store
+  console.log(`💾 Adding paper ${paper.paperId} to vector store...`);
+  await vectorStore.addPaper({
+    paperId: paper.paperId,
+    title: paper.title,
+    abstract: extractedAbstract || undefined,
+    fullText: cleanedText,
+    embedding: embedding.vector,
+    embeddingProvider: embedding.provider,
+    embeddingDimension: embedding.dimension,
+    chunks,
+    document,
+    figures,
+    metadata: {
+      authors: paper.authors?.map(a => a.name).join(', ') || 'Unknown',
+      year: paper.year || new Date().getFullYear(),
+      pageCount: pdfData.pageCount,
+      pdfUrl: paper.pdfUrl,
+      // The stored copy stays on disk for later downloads and reprocessing
+      localFilePath: pdfData.localFilePath,
+      pdfHash: pdfData.pdfHash,
+      hasIntroduction: !!introduction,
+      hasConclusion: !!conclusion,
+      // OCR text is less reliable, so the flag is kept with the paper
+      ocr: !!pdfData.ocr,
+      ocrPages: pdfData.ocr?.pages,
+      ocrConfidence: pdfData.ocr?.confidence,
+      ...extraMetadata
+    }
+  });
+
+  // Reference links are a bonus: the paper is usable for chat without them
+  if (document.references) {
+    try {
+      const linkedReferences = await resolveReferences(parseReferences(document.references));
+      await vectorStore.updatePaper(paper.paperId, { linkedReferences });
+    } catch (error) {
+      console.warn(`⚠️ Could not link references for paper ${paper.paperId}:`, error);
+    }
+  }
+
+  const entry = await vectorStore.getPaper(paper.paperId);
+  console.log(`🎉 Successfully processed paper ${paper.paperId} for RAG`);
+
+  return {
+    entry: entry!,
+    introduction,
+    conclusion,
+    pageCount: pdfData.pageCount
+  };
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { chunkText, embedPaperPassages } from '@/lib/passage-chunker';
+import { extractFigures } from '@/lib/caption-extractor';
+
+const PAGES = [
+  [
+    'We compare three models on the benchmark.',
+    'Table 1: Accuracy of each model on the held-',
+    'out test set, averaged over five runs.',
+    'Model Accuracy F1',
+    'Baseline 71.2 68.4',
+    'Ours 84.5 82.9',
+    'The results show a clear gain.'
+  ].join('\n'),
+  [
+    'Figure 2. Attention weights in the',
+    'first layer of the encoder.',
+    'Later layers attend more broadly.'
+  ].join('\n')
+];
+const FULL_TEXT = PAGES.join('\n\n');
+
+describe('chunkText', () => {
+  const sentences = Array.from({ length: 30 }, (_, i) => `Sentence number ${i + 1} describes one result.`).join(' ');
+
+  it('returns short text as one chunk without surrounding whitespace', () => {
+    expect(chunkText('\n  A short abstract.  \n')).toEqual([{ index: 0, start: 3, end: 20, text: 'A short abstract.' }]);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(chunkText('  \n ')).toEqual([]);
+  });
+
+  it('ends chunks at sentence boundaries with offsets into the text', () => {
+    const chunks = chunkText(sentences, { chunkSize: 200, overlap: 50 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text).toBe(sentences.slice(chunk.start, chunk.end));
+      expect(chunk.text.length).toBeLessThanOrEqual(200);
+      expect(chunk.text).toMatch(/^Sentence .*\.$/);
+    }
+    expect(chunks.map(chunk => chunk.index)).toEqual(chunks.map((_, i) => i));
+    expect(chunks[chunks.length - 1].end).toBe(sentences.length);
+  });
+
+  it('overlaps consecutive chunks', () => {
+    const chunks = chunkText(sentences, { chunkSize: 200, overlap: 50 });
+
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].start).toBeLessThan(chunks[i - 1].end);
+      expect(chunks[i].start).toBeGreaterThan(chunks[i - 1].start);
+    }
+  });
+
+  it('breaks at whitespace when there is no sentence end', () => {
+    const words = Array.from({ length: 100 }, (_, i) => `word${i}`).join(' ');
+    const chunks = chunkText(words, { chunkSize: 100, overlap: 20 });
+
+    for (const chunk of chunks) {
+      expect(chunk.text).toMatch(/^word\d+( word\d+)*$/);
+    }
+    expect(chunks[chunks.length - 1].text.endsWith('word99')).toBe(true);
+  });
+});
+
+describe('embedPaperPassages', () => {
+  beforeEach(() => {
+    vi.stubEnv('EMBEDDING_PROVIDER', 'local');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('spans each wrapped caption in the full text', async () => {
+    const figures = extractFigures(PAGES);
+    const { chunks } = await embedPaperPassages('summary', FULL_TEXT, { figures });
+    const spans = chunks
+      .filter(chunk => chunk.figureIndex !== undefined)
+      .map(chunk => FULL_TEXT.slice(chunk.start!, chunk.end!));
+
+    expect(spans).toEqual([
+      'Accuracy of each model on the held-\nout test set, averaged over five runs.',
+      'Attention weights in the\nfirst layer of the encoder.'
+    ]);
+  });
+
+  it('gives no offsets to a caption that is not in the full text', async () => {
+    const figures = extractFigures(['Table 3: Ablation results.\nSetting Score\nFull 90.1\nNo attention 71.4']);
+    const { chunks } = await embedPaperPassages('summary', FULL_TEXT, { figures });
+    const tableChunk = chunks.find(chunk => chunk.figureIndex === 0);
+
+    expect(tableChunk?.start).toBeNull();
+    expect(tableChunk?.end).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import type { DocumentFigure } from '@/types/paper';
+import { embedTexts, type EmbeddingResult } from '@/lib/embeddings';
+import type { PassageChunk } from '@/lib/vector-store';
+import { figureText } from '@/lib/caption-extractor';
+
+export interface TextChunk {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ChunkOptions {
+  chunkSize?: number;
+  overlap?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 1200;
+const DEFAULT_OVERLAP = 200;
+
+// Split text into overlapping passages. Boundaries are moved back to the
+// nearest sentence end or whitespace so words are never cut in half.
+// Offsets refer to positions in the original text.
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+  const overlap = Math.min(options.overlap ?? DEFAULT_OVERLAP, Math.floor(chunkSize / 2));
+  const chunks: TextChunk[] = [];
+
+  let start = skipWhitespace(text, 0);
+  while (start < text.length) {
+    let end = Math.min(start + chunkSize, text.length);
+    if (end < text.length) {
+      end = findBoundary(text, start, end);
+    }
+
+    const chunk = text.slice(start, end).trimEnd();
+    if (chunk.length > 0) {
+      chunks.push({ index: chunks.length, start, end: start + chunk.length, text: chunk });
+    }
+
+    if (end >= text.length) break;
+
+    // Step back by the overlap, but always make progress
+    let next = findBoundary(text, start, Math.max(end - overlap, start + 1));
+    if (next <= start) next = end;
+    start = skipWhitespace(text, next);
+  }
+
+  return chunks;
+}
+
+function findBoundary(text: string, start: number, end: number): number {
+  const minimum = start + Math.floor((end - start) / 2);
+
+  const sentenceEnd = Math.max(
+    text.lastIndexOf('. ', end - 1),
+    text.lastIndexOf('? ', end - 1),
+    text.lastIndexOf('! ', end - 1)
+  );
+  if (sentenceEnd >= minimum) return sentenceEnd + 1;
+
+  const space = text.lastIndexOf(' ', end);
+  if (space >= minimum) return space;
+
+  return end;
+}
+
+function skipWhitespace(text: string, position: number): number {
+  while (position < text.length && /\s/.test(text[position])) position++;
+  return position;
+}
+
+type FigureChunk = Omit<TextChunk, 'start' | 'end'> & Pick<PassageChunk, 'start' | 'end'> & { figureIndex: number };
+
+// A caption as it appears in the full text: extractFigures joins its wrapped
+// lines with single spaces and rejoins words hyphenated across them
+function captionPattern(caption: string): RegExp {
+  const words = caption.split(' ').map(word => word.split('').map((char, i) => {
+    const escaped = char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return /[a-z]/.test(word[i - 1] || '') && /[a-z]/.test(char) ? `(?:-\\s+)?${escaped}` : escaped;
+  }).join(''));
+  return new RegExp(words.join('\\s+'));
+}
+
+// Extra chunk for each table and figure, spanning its caption in the full
+// text (no offsets when it cannot be found)
+function figureChunks(fullText: string, figures: DocumentFigure[], firstIndex: number): FigureChunk[] {
+  return figures.map((figure, i) => {
+    const match = captionPattern(figure.caption).exec(fullText);
+    return {
+      index: firstIndex + i,
+      start: match ? match.index : null,
+      end: match ? match.index + match[0].length : null,
+      text: figureText(figure),
+      figureIndex: i
+    };
+  });
+}
+
+export interface EmbeddedPassages {
+  embedding: EmbeddingResult;
+  chunks: PassageChunk[];
+}
+
+// Chunk the full text and embed the paper summary together with every
+// passage (and table/figure) in one batch, so all vectors for a paper share
+// a provider.
+export async function embedPaperPassages(
+  summaryText: string,
+  fullText: string,
+  options: ChunkOptions & { figures?: DocumentFigure[] } = {}
+): Promise<EmbeddedPassages> {
+  const textChunks = chunkText(fullText, options);
+  const chunks: Array<TextChunk | FigureChunk> = [
+    ...textChunks,
+    ...figureChunks(fullText, options.figures || [], textChunks.length)
+  ];
+  const [embedding, ...chunkEmbeddings] = await embedTexts([
+    summaryText,
+    ...chunks.map(chunk => chunk.text)
+  ]);
+
+  return {
+    embedding,
+    chunks: chunks.map((chunk, i) => ({
+      index: chunk.index,
+      start: chunk.start,
+      end: chunk.end,
+      embedding: chunkEmbeddings[i].vector,
+      ...('figureIndex' in chunk && { figureIndex: chunk.figureIndex })
+    }))
+  };
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { findLowTextPages } from '@/lib/pdf-ocr';
+
+const TEXT_PAGE = 'Lorem ipsum dolor sit amet, consectetur adipiscing elit. '.repeat(20);
+
+describe('findLowTextPages', () => {
+  it('returns nothing for a text PDF with a few blank or figure-only pages', () => {
+    const pages = [TEXT_PAGE, '', TEXT_PAGE, 'Figure 3', TEXT_PAGE, TEXT_PAGE, '  \n ', TEXT_PAGE];
+    expect(findLowTextPages(pages)).toEqual([]);
+  });
+
+  it('returns the low-text pages of a scanned document', () => {
+    const pages = ['', 'Page 2', TEXT_PAGE, '', ''];
+    expect(findLowTextPages(pages)).toEqual([0, 1, 3, 4]);
+  });
+
+  it('returns the low-text pages when the average page has little text', () => {
+    const pages = ['x'.repeat(150), '', 'x'.repeat(120), ''];
+    expect(findLowTextPages(pages)).toEqual([1, 3]);
+  });
+
+  it('handles a document without pages', () => {
+    expect(findLowTextPages([])).toEqual([]);
+  });
+});
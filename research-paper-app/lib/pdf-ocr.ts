@@ -0,0 +1,177 @@
+import path from 'path';
+import type { Canvas, SKRSContext2D } from '@napi-rs/canvas';
+
+// OCR for pages that have no usable text layer, typically scans of older
+// papers. Pages are rendered with pdf.js onto a native canvas and recognised
+// with Tesseract (WebAssembly, so nothing needs installing system-wide).
+// The language data is downloaded once and cached under data/tesseract,
+// or read from OCR_LANG_PATH on machines without internet access.
+// Both engines are loaded lazily so normal text PDFs never pay for them.
+
+const OCR_ENABLED = process.env.OCR_ENABLED !== 'false';
+const OCR_LANGUAGE = process.env.OCR_LANGUAGE || 'eng';
+const OCR_LANG_PATH = process.env.OCR_LANG_PATH || undefined;
+// Pages with fewer non-whitespace characters than this count as scanned
+const MIN_CHARS_PER_PAGE = parseInt(process.env.OCR_MIN_CHARS_PER_PAGE || '100', 10) || 100;
+// Share of low-text pages above which the document counts as scanned
+const MIN_LOW_TEXT_SHARE = 0.5;
+const MAX_OCR_PAGES = parseInt(process.env.OCR_MAX_PAGES || '40', 10) || 40;
+// About 150 dpi, enough for body text without huge images
+const RENDER_SCALE = 2;
+const WORKER_RETRY_MS = 10 * 60 * 1000;
+
+export interface OcrPageResult {
+  pageIndex: number;
+  text: string;
+  confidence: number;
+}
+
+export function isOcrEnabled(): boolean {
+  return OCR_ENABLED;
+}
+
+// Indexes of pages whose extracted text is too sparse to be the real
+// content. Text PDFs have blank, figure-only and divider pages too, so pages
+// are only returned when the document as a whole looks scanned: most pages
+// are low-text, or the average page is.
+export function findLowTextPages(pages: string[]): number[] {
+  if (pages.length === 0) return [];
+
+  const chars = pages.map(text => text.replace(/\s+/g, '').length);
+  const lowText = chars
+    .map((count, index) => ({ index, count }))
+    .filter(page => page.count < MIN_CHARS_PER_PAGE)
+    .map(page => page.index);
+
+  const averageChars = chars.reduce((total, count) => total + count, 0) / pages.length;
+  const mostlyLowText = lowText.length > pages.length * MIN_LOW_TEXT_SHARE;
+
+  return mostlyLowText || averageChars < MIN_CHARS_PER_PAGE ? lowText : [];
+}
+
+interface CanvasAndContext {
+  canvas: Canvas | null;
+  context: SKRSContext2D | null;
+}
+
+// Browser globals pdf.js looks for (or node-canvas) when it loads
+interface PdfJsGlobals {
+  DOMMatrix?: unknown;
+  Path2D?: unknown;
+  ImageData?: unknown;
+}
+
+// pdf.js creates scratch canvases for patterns and masks; in Node they have
+// to come from the native canvas package
+function createCanvasFactory(createCanvas: typeof import('@napi-rs/canvas').createCanvas) {
+  return {
+    create(width: number, height: number) {
+      const canvas = createCanvas(width, height);
+      return { canvas, context: canvas.getContext('2d') };
+    },
+    reset(target: CanvasAndContext, width: number, height: number) {
+      if (!target.canvas) return;
+      target.canvas.width = width;
+      target.canvas.height = height;
+    },
+    destroy(target: CanvasAndContext) {
+      if (target.canvas) {
+        target.canvas.width = 0;
+        target.canvas.height = 0;
+      }
+      target.canvas = null;
+      target.context = null;
+    }
+  };
+}
+
+let workerUnavailableUntil = 0;
+
+// Tesseract rethrows worker errors outside any promise unless given an error
+// handler, and with one, createWorker never settles when the language data
+// cannot be loaded. The handler settles it instead. The stuck worker cannot
+// be terminated, so after a failure OCR is skipped for a while rather than
+// leaking a worker per paper.
+async function startWorker(createWorker: typeof import('tesseract.js').createWorker) {
+  if (Date.now() < workerUnavailableUntil) {
+    throw new Error('Tesseract failed to start recently, skipping OCR');
+  }
+
+  try {
+    return await new Promise<Awaited<ReturnType<typeof createWorker>>>((resolve, reject) => {
+      createWorker(OCR_LANGUAGE, undefined, {
+        langPath: OCR_LANG_PATH,
+        cachePath: path.join(process.cwd(), 'data', 'tesseract'),
+        errorHandler: (error: unknown) => reject(error instanceof Error ? error : new Error(String(error)))
+      }).then(resolve, reject);
+    });
+  } catch (error) {
+    workerUnavailableUntil = Date.now() + WORKER_RETRY_MS;
+    throw error;
+  }
+}
+
+// Render the given pages and recognise their text. Pages beyond the
+// OCR_MAX_PAGES limit are skipped.
+export async function ocrPdfPages(pdfBuffer: Buffer, pageIndexes: number[]): Promise<OcrPageResult[]> {
+  const canvasModule = await import('@napi-rs/canvas');
+  const globals = globalThis as PdfJsGlobals;
+  globals.DOMMatrix ??= canvasModule.DOMMatrix;
+  globals.Path2D ??= canvasModule.Path2D;
+  globals.ImageData ??= canvasModule.ImageData;
+
+  const [pdfjs, { createWorker }] = await Promise.all([
+    import('pdfjs-dist/legacy/build/pdf.js'),
+    import('tesseract.js')
+  ]);
+  const { createCanvas } = canvasModule;
+
+  const canvasFactory = createCanvasFactory(createCanvas);
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(pdfBuffer),
+    canvasFactory,
+    disableFontFace: true,
+    isEvalSupported: false
+  }).promise;
+
+  let worker: Awaited<ReturnType<typeof createWorker>>;
+  try {
+    worker = await startWorker(createWorker);
+  } catch (error) {
+    await pdf.destroy();
+    throw error;
+  }
+
+  const results: OcrPageResult[] = [];
+
+  try {
+    for (const pageIndex of pageIndexes.slice(0, MAX_OCR_PAGES)) {
+      if (pageIndex >= pdf.numPages) continue;
+
+      const page = await pdf.getPage(pageIndex + 1);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const { canvas, context } = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+      // Scans are often transparent where the paper is white
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+
+      await page.render({
+        canvasContext: context as unknown as CanvasRenderingContext2D,
+        viewport
+      }).promise;
+
+      const image = await canvas.encode('png');
+      const { data } = await worker.recognize(image);
+      console.log(`🔠 OCR page ${pageIndex + 1}: ${data.text.length} characters, confidence ${Math.round(data.confidence)}%`);
+
+      results.push({ pageIndex, text: data.text, confidence: data.confidence });
+      page.cleanup();
+    }
+  } finally {
+    await worker.terminate();
+    await pdf.destroy();
+  }
+
+  return results;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PDFProcessor, splitAuthorField, type ProcessedPDF } from '@/lib/pdf-processor';
+
+// pdf-parse reads a test file when imported
+vi.mock('pdf-parse', () => ({ default: vi.fn() }));
+
+function processed(metadata: Record<string, unknown>, pages: string[] = ['']): ProcessedPDF {
+  return { text: pages.join('\n\n'), pageCount: pages.length, metadata, pages };
+}
+
+describe('splitAuthorField', () => {
+  it('keeps a single "Surname, Given" name together', () => {
+    expect(splitAuthorField('Smith, John')).toEqual(['Smith, John']);
+  });
+
+  it('splits on semicolons before commas', () => {
+    expect(splitAuthorField('Smith, John; Doe, Jane')).toEqual(['Smith, John', 'Doe, Jane']);
+  });
+
+  it('splits on "and" and "&"', () => {
+    expect(splitAuthorField('Ashish Vaswani and Noam Shazeer & Niki Parmar')).toEqual(['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar']);
+  });
+
+  it('splits a comma-separated list of full names', () => {
+    expect(splitAuthorField('A. Vaswani, N. Shazeer, and N. Parmar')).toEqual(['A. Vaswani', 'N. Shazeer', 'N. Parmar']);
+  });
+});
+
+describe('PDFProcessor.extractMetadata', () => {
+  it('falls back to the info title when the first page has none', () => {
+    const metadata = PDFProcessor.extractMetadata(processed({ Title: '  Attention Is All\nYou Need ' }));
+    expect(metadata.title).toBe('Attention Is All You Need');
+  });
+
+  it('ignores placeholder info titles', () => {
+    expect(PDFProcessor.extractMetadata(processed({ Title: 'Microsoft Word - draft.docx' })).title).toBeNull();
+    expect(PDFProcessor.extractMetadata(processed({ Title: 'paper-final.pdf' })).title).toBeNull();
+  });
+
+  it('reads authors, year and DOI', () => {
+    const metadata = PDFProcessor.extractMetadata(processed(
+      { Author: 'Smith, John; Unknown', CreationDate: "D:20200115093000+01'00'" },
+      ['A study. https://doi.org/10.1145/3292500.3330701.']
+    ));
+
+    expect(metadata.authors).toEqual(['Smith, John']);
+    expect(metadata.year).toBe(2020);
+    expect(metadata.doi).toBe('10.1145/3292500.3330701');
+  });
+});
@@ -1,61 +1,103 @@
-import axios from 'axios';
 import pdfParse from 'pdf-parse';
 import fs from 'fs';
-import path from 'path';
+import type { ParsedDocument } from '@/types/paper';
+import { parseDocument, findSection, isPlausibleTitle, normalizeLine } from '@/lib/document-parser';
+import { downloadPdfSafely, looksLikePdf, PDFDownloadError } from '@/lib/safe-download';
+import { PdfStore, type StoredPdf } from '@/lib/pdf-store';
+import { findLowTextPages, isOcrEnabled, ocrPdfPages } from '@/lib/pdf-ocr';
+
+// Names in a PDF Author field. Semicolons, "and" and "&" always separate
+// authors; commas do too, except in a single "Surname, Given names" entry.
+export function splitAuthorField(field: string): string[] {
+  return field
+    .split(/\s*(?:;|&|\band\b)\s*/)
+    .flatMap(part => {
+      const pieces = part.split(/\s*,\s*/);
+      return pieces.length === 2 && !pieces[0].includes(' ') ? [part] : pieces;
+    })
+    .map(name => name.trim())
+    .filter(Boolean);
+}
+
+// Same as pdf-parse's default page renderer (a new line whenever the baseline
+// changes), but also records each page's text so page structure survives
+async function parsePages(pdfBuffer: Buffer): Promise<{ data: pdfParse.Result; pages: string[] }> {
+  const pages: string[] = [];
+
+  const data = await pdfParse(pdfBuffer, {
+    pagerender: async (pageData: any) => {
+      const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+      let lastY: number | undefined;
+      let text = '';
+
+      for (const item of textContent.items) {
+        const y = item.transform[5];
+        text += lastY === undefined || lastY === y ? item.str : '\n' + item.str;
+        lastY = y;
+      }
+
+      pages[pageData.pageIndex] = text;
+      return text;
+    }
+  });
+
+  // Pages that failed to render are left empty
+  for (let i = 0; i < data.numpages; i++) {
+    pages[i] = pages[i] || '';
+  }
+
+  return { data, pages };
+}
+
+export interface ProcessedPDF {
+  text: string;
+  pageCount: number;
+  metadata: any;
+  // Path in the PDF store; kept after processing
+  localFilePath?: string;
+  pdfHash?: string;
+  pages: string[];
+  document?: ParsedDocument;
+  // Set when some pages had no text layer and were OCR'd instead
+  ocr?: {
+    pages: number[];
+    confidence: number;
+    engine: 'tesseract';
+  };
+}
+
+export interface PDFMetadata {
+  title: string | null;
+  authors: string[];
+  year: number | null;
+  doi: string | null;
+  abstract: string | null;
+}
 
 export class PDFProcessor {
+  // Only public http(s) URLs returning a PDF within the size limit are
+  // accepted; see safe-download.ts
   static async downloadPDF(url: string): Promise<Buffer> {
     try {
-      const response = await axios.get(url, {
-        responseType: 'arraybuffer',
-        timeout: 30000, // 30 second timeout
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-        }
-      });
-      
-      return Buffer.from(response.data);
+      return await downloadPdfSafely(url);
     } catch (error) {
       console.error('Error downloading PDF:', error);
+      if (error instanceof PDFDownloadError) throw error;
       throw new Error(`Failed to download PDF from ${url}`);
     }
   }
 
-  static async downloadAndSavePDF(url: string, filename?: string): Promise<string> {
-    try {
-      // Create downloads directory if it doesn't exist
-      const downloadsDir = path.join(process.cwd(), 'downloads');
-      if (!fs.existsSync(downloadsDir)) {
-        fs.mkdirSync(downloadsDir, { recursive: true });
-      }
-
-      // Generate filename if not provided
-      const safeFilename = filename || `paper_${Date.now()}.pdf`;
-      const filePath = path.join(downloadsDir, safeFilename);
-
-      // Download the PDF
-      const pdfBuffer = await this.downloadPDF(url);
-      
-      // Save to local file
-      fs.writeFileSync(filePath, pdfBuffer);
-      
-      console.log(`PDF downloaded and saved to: ${filePath}`);
-      return filePath;
-    } catch (error) {
-      console.error('Error downloading and saving PDF:', error);
-      throw new Error(`Failed to download and save PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  // Stored copy of the PDF for a paper or URL, downloading it on a miss
+  static async fetchPDF(url: string, paperId?: string, store: PdfStore = new PdfStore(), source?: string): Promise<StoredPdf> {
+    const cached = await store.find({ paperId, url });
+    if (cached) {
+      console.log(`📋 Using stored PDF ${cached.hash.slice(0, 12)} for ${paperId || url}`);
+      if (paperId) await store.linkPaper(paperId, cached.hash);
+      return cached;
     }
-  }
 
-  static async extractTextFromLocalFile(filePath: string): Promise<string> {
-    try {
-      const pdfBuffer = fs.readFileSync(filePath);
-      const data = await pdfParse(pdfBuffer);
-      return data.text;
-    } catch (error) {
-      console.error('Error extracting text from local PDF:', error);
-      throw new Error(`Failed to extract text from local PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    const pdfBuffer = await this.downloadPDF(url);
+    return store.save(pdfBuffer, { paperId, sourceUrl: url, source });
   }
 
   static async extractText(pdfBuffer: Buffer): Promise<string> {
@@ -68,114 +110,119 @@ export class PDFProcessor {
     }
   }
 
-  static async processPDF(url: string): Promise<{
-    text: string;
-    pageCount: number;
-    metadata: any;
-    localFilePath?: string;
-  }> {
+  static isPDF(buffer: Buffer): boolean {
+    return looksLikePdf(buffer);
+  }
+
+  // Parse a file from the PDF store. Throws when it cannot be parsed.
+  static async processStoredPDF(stored: StoredPdf): Promise<ProcessedPDF> {
+    const pdfBuffer = fs.readFileSync(stored.filePath);
+    const pdfData = await this.processPDFBuffer(pdfBuffer, stored.filePath);
+    return { ...pdfData, pdfHash: stored.hash };
+  }
+
+  // Parse a PDF that is already in memory, e.g. an upload. Throws when the
+  // file cannot be parsed.
+  static async processPDFBuffer(pdfBuffer: Buffer, localFilePath?: string): Promise<ProcessedPDF> {
+    // Parse page by page, falling back to plain text extraction
+    let data: pdfParse.Result;
+    let pages: string[];
+    try {
+      ({ data, pages } = await parsePages(pdfBuffer));
+    } catch (parseError) {
+      console.log('Page-by-page PDF parsing failed, falling back to plain text extraction...');
+      data = await pdfParse(pdfBuffer);
+      pages = [data.text || ''];
+    }
+
+    const ocr = await this.applyOCR(pdfBuffer, pages);
+
+    return {
+      text: ocr ? pages.join('\n\n') : data.text || '',
+      pageCount: data.numpages || 0,
+      metadata: data.info || {},
+      localFilePath,
+      pages,
+      document: parseDocument(pages, { title: data.info?.Title }),
+      ocr
+    };
+  }
+
+  // Replace the text of pages without a usable text layer (scans) with OCR
+  // output, in place. OCR problems are logged and the extracted text kept.
+  private static async applyOCR(pdfBuffer: Buffer, pages: string[]): Promise<ProcessedPDF['ocr']> {
+    const lowTextPages = findLowTextPages(pages);
+    if (!isOcrEnabled() || lowTextPages.length === 0) return undefined;
+
+    console.log(`🔠 ${lowTextPages.length} of ${pages.length} page(s) have little or no text, running OCR...`);
+
     try {
-      // First, download and save the PDF locally
-      const localFilePath = await this.downloadAndSavePDF(url);
-      
-      // Then process the local file
-      const pdfBuffer = fs.readFileSync(localFilePath);
-      
-      // Try to parse with different options
-      let data;
-      try {
-        data = await pdfParse(pdfBuffer);
-      } catch (parseError) {
-        // If standard parsing fails, try with different options
-        console.log('Standard PDF parsing failed, trying with alternative options...');
-        data = await pdfParse(pdfBuffer);
+      const results = await ocrPdfPages(pdfBuffer, lowTextPages);
+      const used = results.filter(result => result.text.trim().length > pages[result.pageIndex].trim().length);
+      if (used.length === 0) return undefined;
+
+      for (const result of used) {
+        pages[result.pageIndex] = result.text.trim();
       }
-      
+
       return {
-        text: data.text || '',
-        pageCount: data.numpages || 0,
-        metadata: data.info || {},
-        localFilePath
+        pages: used.map(result => result.pageIndex),
+        confidence: Math.round(used.reduce((total, result) => total + result.confidence, 0) / used.length),
+        engine: 'tesseract'
       };
     } catch (error) {
-      console.error('Error processing PDF:', error);
-      
-      // Return a fallback response instead of throwing
-      return {
-        text: `PDF processing failed: ${error instanceof Error ? error.message : 'Unknown error'}. Please try a different PDF or contact support.`,
-        pageCount: 0,
-        metadata: {},
-        localFilePath: undefined
-      };
+      console.warn('⚠️ OCR failed, keeping the extracted text:', error instanceof Error ? error.message : error);
+      return undefined;
     }
   }
 
+  // Bibliographic details from the PDF info dictionary and first page
+  static extractMetadata(pdfData: ProcessedPDF): PDFMetadata {
+    const info = pdfData.metadata || {};
+
+    const authors = typeof info.Author === 'string'
+      ? splitAuthorField(info.Author)
+          .filter(name => name.length > 1 && !/^(unknown|author|admin(istrator)?|user)$/i.test(name))
+      : [];
+
+    // PDF dates look like D:20200115093000+01'00'
+    const dateMatch = typeof info.CreationDate === 'string' ? info.CreationDate.match(/^(?:D:)?((?:19|20)\d{2})/) : null;
+    const doiMatch = (pdfData.pages[0] || '').match(/\b(10\.\d{4,9}\/[^\s"<>]+)/i);
+
+    return {
+      title: pdfData.document?.title || (isPlausibleTitle(info.Title) ? normalizeLine(info.Title) : null),
+      authors,
+      year: dateMatch ? parseInt(dateMatch[1], 10) : null,
+      doi: doiMatch ? doiMatch[1].replace(/[.,;)\]]+$/, '') : null,
+      abstract: pdfData.document?.abstract || null
+    };
+  }
+
+  // Collapses runs of spaces but keeps line breaks, which the section
+  // parser relies on
   static cleanText(text: string): string {
     return text
-      .replace(/\s+/g, ' ') // Replace multiple whitespace with single space
-      .replace(/\n\s*\n/g, '\n') // Replace multiple newlines with single newline
+      .replace(/[^\S\n]+/g, ' ') // Replace runs of spaces and tabs with a single space
+      .replace(/ ?\n ?/g, '\n') // Trim spaces around line breaks
+      .replace(/\n{3,}/g, '\n\n') // Keep at most one blank line
       .trim();
   }
 
-  static extractAbstract(text: string): string | null {
-    // Common patterns for abstract sections
-    const abstractPatterns = [
-      /abstract\s*:?\s*(.*?)(?=\n\s*\n|\n\s*introduction|\n\s*1\.\s*introduction)/is,
-      /abstract\s*:?\s*(.*?)(?=\n\s*\n|\n\s*keywords|\n\s*1\.)/is,
-      /abstract\s*:?\s*(.*?)(?=\n\s*\n|\n\s*introduction)/is
-    ];
-
-    for (const pattern of abstractPatterns) {
-      const match = text.match(pattern);
-      if (match && match[1]) {
-        return this.cleanText(match[1]);
-      }
-    }
-
-    return null;
+  static parseDocument(text: string): ParsedDocument {
+    return parseDocument([text]);
   }
 
-  static extractIntroduction(text: string): string | null {
-    const introPatterns = [
-      /introduction\s*:?\s*(.*?)(?=\n\s*\n|\n\s*2\.|\n\s*methodology|\n\s*methods)/is,
-      /1\.\s*introduction\s*:?\s*(.*?)(?=\n\s*\n|\n\s*2\.|\n\s*methodology|\n\s*methods)/is
-    ];
-
-    for (const pattern of introPatterns) {
-      const match = text.match(pattern);
-      if (match && match[1]) {
-        return this.cleanText(match[1]);
-      }
-    }
-
-    return null;
+  static extractAbstract(text: string, document: ParsedDocument = this.parseDocument(text)): string | null {
+    return document.abstract;
   }
 
-  static extractConclusion(text: string): string | null {
-    const conclusionPatterns = [
-      /conclusion\s*:?\s*(.*?)(?=\n\s*\n|\n\s*references|\n\s*bibliography|\n\s*acknowledgments)/is,
-      /conclusions\s*:?\s*(.*?)(?=\n\s*\n|\n\s*references|\n\s*bibliography|\n\s*acknowledgments)/is,
-      /discussion\s*:?\s*(.*?)(?=\n\s*\n|\n\s*references|\n\s*bibliography|\n\s*acknowledgments)/is
-    ];
-
-    for (const pattern of conclusionPatterns) {
-      const match = text.match(pattern);
-      if (match && match[1]) {
-        return this.cleanText(match[1]);
-      }
-    }
-
-    return null;
+  static extractIntroduction(text: string, document: ParsedDocument = this.parseDocument(text)): string | null {
+    return findSection(document, /^(introduction|background)$/i)?.text || null;
   }
 
-  static cleanupLocalFile(filePath: string): void {
-    try {
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
-        console.log(`Cleaned up local file: ${filePath}`);
-      }
-    } catch (error) {
-      console.error('Error cleaning up local file:', error);
-    }
+  static extractConclusion(text: string, document: ParsedDocument = this.parseDocument(text)): string | null {
+    const section = findSection(document, /^(conclusions?|conclusions? and future work|summary)$/i)
+      || findSection(document, /^discussion$/i);
+    return section?.text || null;
   }
 }
@@ -0,0 +1,259 @@
+import type { Paper } from '@/types/paper';
+import { OpenAlexClient, type OpenAlexWork, type OpenAlexLocation } from '@/lib/openalex-client';
+import { PDFProcessor } from '@/lib/pdf-processor';
+import { PdfStore, type StoredPdf } from '@/lib/pdf-store';
+import { fetchHtmlSafely, PDFDownloadError } from '@/lib/safe-download';
+
+// Finds a downloadable PDF for a paper. `open_access.oa_url` is often a
+// landing page, so every OpenAlex location, arXiv copy and known DOI URL
+// pattern is tried in turn, and HTML pages are searched for the
+// citation_pdf_url meta tag publishers add for Google Scholar.
+
+export type PdfSource =
+  | 'stored'
+  | 'upload'
+  | 'best_oa_location'
+  | 'location'
+  | 'paper'
+  | 'arxiv'
+  | 'doi_pattern'
+  | 'landing_page';
+
+export interface PdfCandidate {
+  url: string;
+  source: PdfSource;
+  // Landing pages are only searched for PDF links
+  kind: 'pdf' | 'landing';
+}
+
+export interface ResolvedPdf {
+  stored: StoredPdf;
+  source: PdfSource;
+  url: string | null;
+}
+
+export class PdfResolutionError extends Error {
+  constructor(message: string, public attempts: number, public retryable: boolean) {
+    super(message);
+    this.name = 'PdfResolutionError';
+  }
+}
+
+const MAX_ATTEMPTS = 10;
+const ARXIV_ID = /(\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(v\d+)?/i;
+
+function arxivIdFrom(value: string | null | undefined): string | null {
+  if (!value) return null;
+
+  const fromUrl = value.match(/arxiv\.org\/(?:abs|pdf)\/([^\s?#]+?)(?:\.pdf)?(?:[?#]|$)/i);
+  if (fromUrl && ARXIV_ID.test(fromUrl[1])) return fromUrl[1];
+
+  const fromDoi = value.match(/10\.48550\/arxiv\.([^\s]+)/i);
+  if (fromDoi) return fromDoi[1];
+
+  return null;
+}
+
+function bareDoi(doi: string | null | undefined): string | null {
+  if (!doi) return null;
+  return doi.replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, '').trim() || null;
+}
+
+// Direct PDF links for publishers whose URLs follow from the DOI
+function doiPatternUrls(doi: string): string[] {
+  const urls: string[] = [];
+
+  if (/^10\.1101\//.test(doi)) {
+    urls.push(`https://www.biorxiv.org/content/${doi}.full.pdf`);
+  }
+  const acl = doi.match(/^10\.18653\/v1\/(.+)$/i);
+  if (acl) {
+    urls.push(`https://aclanthology.org/${acl[1]}.pdf`);
+  }
+  if (/^10\.1371\/journal\./i.test(doi)) {
+    urls.push(`https://journals.plos.org/plosone/article/file?id=${doi}&type=printable`);
+  }
+  const peerj = doi.match(/^10\.7717\/peerj\.(\d+)$/i);
+  if (peerj) {
+    urls.push(`https://peerj.com/articles/${peerj[1]}.pdf`);
+  }
+
+  return urls;
+}
+
+// Candidates in the order they are tried: explicit PDF links first, then
+// URLs derived from identifiers, then landing pages to search
+export function getPdfCandidates(paper: Paper, work?: OpenAlexWork | null): PdfCandidate[] {
+  const candidates: PdfCandidate[] = [];
+  const seen = new Set<string>();
+
+  const add = (url: string | null | undefined, source: PdfSource, kind: PdfCandidate['kind']) => {
+    if (!url || !/^https?:\/\//i.test(url)) return;
+    const key = `${kind}:${url}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    candidates.push({ url, source, kind });
+  };
+
+  // Open access copies before closed ones, published versions first
+  const versionRank: Record<string, number> = { publishedVersion: 0, acceptedVersion: 1, submittedVersion: 2 };
+  const locations: OpenAlexLocation[] = [...(work?.locations || [])].sort((a, b) =>
+    Number(!!b.is_oa) - Number(!!a.is_oa)
+    || (versionRank[a.version || ''] ?? 3) - (versionRank[b.version || ''] ?? 3)
+  );
+
+  add(work?.best_oa_location?.pdf_url, 'best_oa_location', 'pdf');
+  locations.forEach(location => add(location.pdf_url, 'location', 'pdf'));
+  add(paper.pdfUrl, 'paper', 'pdf');
+
+  const doi = bareDoi(work?.doi || paper.doi);
+  const arxivId = [
+    doi,
+    paper.url,
+    paper.pdfUrl,
+    ...locations.flatMap(location => [location.landing_page_url, location.pdf_url])
+  ].map(arxivIdFrom).find(Boolean);
+  if (arxivId) {
+    add(`https://arxiv.org/pdf/${arxivId}`, 'arxiv', 'pdf');
+  }
+
+  if (doi) {
+    doiPatternUrls(doi).forEach(url => add(url, 'doi_pattern', 'pdf'));
+  }
+
+  add(work?.best_oa_location?.landing_page_url, 'landing_page', 'landing');
+  locations
+    .filter(location => location.is_oa)
+    .forEach(location => add(location.landing_page_url, 'landing_page', 'landing'));
+  add(paper.url, 'landing_page', 'landing');
+  if (doi) {
+    add(`https://doi.org/${doi}`, 'landing_page', 'landing');
+  }
+
+  return candidates;
+}
+
+function decodeHtmlAttribute(value: string): string {
+  return value
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+}
+
+function readAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeHtmlAttribute(match[1] ?? match[2] ?? match[3]) : null;
+}
+
+// PDF links advertised by a landing page: Highwire citation_pdf_url meta
+// tags, then <link rel="alternate" type="application/pdf">
+export function extractPdfLinks(html: string, baseUrl: string): string[] {
+  const links: string[] = [];
+
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    if ((readAttribute(tag, 'name') || readAttribute(tag, 'property'))?.toLowerCase() === 'citation_pdf_url') {
+      const content = readAttribute(tag, 'content');
+      if (content) links.push(content);
+    }
+  }
+
+  for (const [tag] of html.matchAll(/<link\b[^>]*>/gi)) {
+    if (readAttribute(tag, 'type')?.toLowerCase() === 'application/pdf') {
+      const href = readAttribute(tag, 'href');
+      if (href) links.push(href);
+    }
+  }
+
+  return links
+    .map(link => {
+      try {
+        return new URL(link, baseUrl).toString();
+      } catch {
+        return null;
+      }
+    })
+    .filter((link): link is string => !!link);
+}
+
+// Look up the OpenAlex work for its locations; papers from other sources
+// (e.g. uploads) go without
+async function fetchWork(paperId: string, client: OpenAlexClient): Promise<OpenAlexWork | null> {
+  if (!/^W\d+$/i.test(paperId)) return null;
+
+  try {
+    return await client.getWork(paperId);
+  } catch (error) {
+    console.warn(`⚠️ Could not load OpenAlex locations for ${paperId}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// Get a PDF for the paper into the store, trying candidates until one is a
+// real PDF. Throws PdfResolutionError when none is.
+export async function resolvePaperPdf(
+  paper: Paper,
+  options: { store?: PdfStore; client?: OpenAlexClient; work?: OpenAlexWork | null } = {}
+): Promise<ResolvedPdf> {
+  const store = options.store || new PdfStore();
+
+  const cached = await store.getByPaperId(paper.paperId);
+  if (cached) {
+    console.log(`📋 Using stored PDF ${cached.hash.slice(0, 12)} for paper ${paper.paperId}`);
+    return { stored: cached, source: (cached.source as PdfSource) || 'stored', url: cached.sourceUrl || null };
+  }
+
+  const work = options.work !== undefined
+    ? options.work
+    : await fetchWork(paper.paperId, options.client || new OpenAlexClient());
+  const queue = getPdfCandidates(paper, work);
+
+  if (queue.length === 0) {
+    throw new PdfResolutionError('No open access PDF is available for this paper', 0, false);
+  }
+
+  const tried = new Set<string>();
+  const errors: Error[] = [];
+  let attempts = 0;
+
+  while (queue.length > 0 && attempts < MAX_ATTEMPTS) {
+    const candidate = queue.shift()!;
+    const key = `${candidate.kind}:${candidate.url}`;
+    if (tried.has(key)) continue;
+    tried.add(key);
+    attempts++;
+
+    try {
+      if (candidate.kind === 'pdf') {
+        console.log(`📥 Trying ${candidate.source} PDF candidate: ${candidate.url}`);
+        const stored = await PDFProcessor.fetchPDF(candidate.url, paper.paperId, store, candidate.source);
+        console.log(`✅ Got PDF for paper ${paper.paperId} from ${candidate.source}`);
+        return { stored, source: candidate.source, url: candidate.url };
+      }
+
+      console.log(`🔎 Looking for PDF links on landing page: ${candidate.url}`);
+      const { html, finalUrl } = await fetchHtmlSafely(candidate.url);
+      // Links found on the page are tried next, before other candidates
+      const links = extractPdfLinks(html, finalUrl).map(url => ({ url, source: candidate.source, kind: 'pdf' as const }));
+      queue.unshift(...links);
+    } catch (error) {
+      // A "PDF" link that served HTML is usually a landing page itself
+      if (error instanceof PDFDownloadError && candidate.kind === 'pdf' && error.contentType?.includes('html')) {
+        queue.unshift({ url: candidate.url, source: candidate.source, kind: 'landing' });
+      }
+
+      console.warn(`⚠️ ${candidate.source} candidate failed (${candidate.url}):`, error instanceof Error ? error.message : error);
+      errors.push(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  // Worth retrying only if something failed for a reason that may pass
+  const retryable = errors.some(error => !(error instanceof PDFDownloadError) || error.status >= 500);
+  const lastError = errors[errors.length - 1]?.message || 'no PDF found';
+  throw new PdfResolutionError(
+    `Could not obtain a PDF after ${attempts} attempt(s): ${lastError}`,
+    attempts,
+    retryable
+  );
+}
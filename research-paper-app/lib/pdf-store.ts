@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Local PDF store keyed by the SHA-256 of the file, so a PDF is kept once no
+// matter how many papers or URLs point at it. The index maps paper IDs and
+// source URLs to hashes and tracks access times for eviction.
+
+const RETENTION_DAYS = parseFloat(process.env.PDF_STORE_RETENTION_DAYS || '30') || 30;
+const MAX_STORE_BYTES = (parseInt(process.env.PDF_STORE_MAX_MB || '1024', 10) || 1024) * 1024 * 1024;
+
+export interface StoredPdf {
+  hash: string;
+  filePath: string;
+  size: number;
+  sourceUrl?: string;
+  // How the file was obtained, e.g. 'arxiv' or 'upload'
+  source?: string;
+  storedAt: string;
+  lastAccessedAt: string;
+}
+
+interface PdfStoreIndex {
+  files: Record<string, Omit<StoredPdf, 'filePath'>>;
+  papers: Record<string, string>;
+  urls: Record<string, string>;
+}
+
+export class PdfStore {
+  private rootDir: string;
+  private indexPath: string;
+  private index: PdfStoreIndex = { files: {}, papers: {}, urls: {} };
+
+  constructor(rootDir: string = path.join(process.cwd(), 'data', 'pdfs')) {
+    this.rootDir = rootDir;
+    this.indexPath = path.join(rootDir, 'index.json');
+  }
+
+  // The index is re-read before every operation, since each request works
+  // with its own PdfStore
+  private loadIndex() {
+    try {
+      if (!fs.existsSync(this.rootDir)) {
+        fs.mkdirSync(this.rootDir, { recursive: true });
+      }
+
+      if (fs.existsSync(this.indexPath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.indexPath, 'utf-8'));
+        this.index = {
+          files: parsed.files || {},
+          papers: parsed.papers || {},
+          urls: parsed.urls || {}
+        };
+      }
+    } catch (error) {
+      console.error('Error loading PDF store index:', error);
+      this.index = { files: {}, papers: {}, urls: {} };
+    }
+  }
+
+  private saveIndex() {
+    writeFileAtomic(this.indexPath, JSON.stringify(this.index, null, 2));
+  }
+
+  private filePathFor(hash: string): string {
+    return path.join(this.rootDir, `${hash}.pdf`);
+  }
+
+  // Resolve a hash to a stored file, dropping index entries whose file has
+  // gone missing
+  private resolve(hash: string | undefined): StoredPdf | null {
+    if (!hash) return null;
+
+    const file = this.index.files[hash];
+    const filePath = this.filePathFor(hash);
+    if (!file || !fs.existsSync(filePath)) {
+      this.forget(hash);
+      this.saveIndex();
+      return null;
+    }
+
+    file.lastAccessedAt = new Date().toISOString();
+    this.saveIndex();
+    return { ...file, filePath };
+  }
+
+  async getByPaperId(paperId: string): Promise<StoredPdf | null> {
+    this.loadIndex();
+    return this.resolve(this.index.papers[paperId]);
+  }
+
+  async getByUrl(url: string): Promise<StoredPdf | null> {
+    this.loadIndex();
+    return this.resolve(this.index.urls[url]);
+  }
+
+  // Paper ID first: the URL of an open access copy can change
+  async find(options: { paperId?: string; url?: string }): Promise<StoredPdf | null> {
+    return (options.paperId ? await this.getByPaperId(options.paperId) : null)
+      || (options.url ? await this.getByUrl(options.url) : null);
+  }
+
+  async save(pdfBuffer: Buffer, options: { paperId?: string; sourceUrl?: string; source?: string } = {}): Promise<StoredPdf> {
+    this.loadIndex();
+
+    const hash = crypto.createHash('sha256').update(pdfBuffer).digest('hex');
+    const filePath = this.filePathFor(hash);
+    const now = new Date().toISOString();
+
+    if (!fs.existsSync(filePath)) {
+      writeFileAtomic(filePath, pdfBuffer);
+      console.log(`💾 Stored PDF ${hash.slice(0, 12)} (${pdfBuffer.length} bytes)`);
+    } else {
+      console.log(`📋 PDF ${hash.slice(0, 12)} already stored`);
+    }
+
+    const existing = this.index.files[hash];
+    this.index.files[hash] = {
+      hash,
+      size: pdfBuffer.length,
+      sourceUrl: existing?.sourceUrl || options.sourceUrl,
+      source: existing?.source || options.source,
+      storedAt: existing?.storedAt || now,
+      lastAccessedAt: now
+    };
+    if (options.paperId) this.index.papers[options.paperId] = hash;
+    if (options.sourceUrl) this.index.urls[options.sourceUrl] = hash;
+
+    this.evict(hash);
+    this.saveIndex();
+
+    return { ...this.index.files[hash], filePath };
+  }
+
+  async linkPaper(paperId: string, hash: string): Promise<void> {
+    this.loadIndex();
+    if (!this.index.files[hash]) return;
+
+    this.index.papers[paperId] = hash;
+    this.saveIndex();
+  }
+
+  async getStats(): Promise<{ fileCount: number; totalBytes: number }> {
+    this.loadIndex();
+    const files = Object.values(this.index.files);
+    return {
+      fileCount: files.length,
+      totalBytes: files.reduce((total, file) => total + file.size, 0)
+    };
+  }
+
+  private forget(hash: string) {
+    delete this.index.files[hash];
+    for (const [paperId, paperHash] of Object.entries(this.index.papers)) {
+      if (paperHash === hash) delete this.index.papers[paperId];
+    }
+    for (const [url, urlHash] of Object.entries(this.index.urls)) {
+      if (urlHash === hash) delete this.index.urls[url];
+    }
+  }
+
+  private remove(hash: string) {
+    try {
+      fs.rmSync(this.filePathFor(hash), { force: true });
+    } catch (error) {
+      console.error(`Error removing stored PDF ${hash}:`, error);
+    }
+    this.forget(hash);
+  }
+
+  // Drop files not accessed within the retention period, then the least
+  // recently used until the store fits its size limit. The file just saved
+  // is never evicted.
+  private evict(keepHash?: string) {
+    const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const files = Object.values(this.index.files)
+      .filter(file => file.hash !== keepHash)
+      .sort((a, b) => Date.parse(a.lastAccessedAt) - Date.parse(b.lastAccessedAt));
+
+    let totalBytes = Object.values(this.index.files).reduce((total, file) => total + file.size, 0);
+    let evicted = 0;
+
+    for (const file of files) {
+      const expired = Date.parse(file.lastAccessedAt) < cutoff;
+      if (!expired && totalBytes <= MAX_STORE_BYTES) continue;
+
+      this.remove(file.hash);
+      totalBytes -= file.size;
+      evicted++;
+    }
+
+    if (evicted > 0) {
+      console.log(`🗑️ Evicted ${evicted} PDF(s) from the store`);
+    }
+  }
+}
+
+// Write to a temporary file and rename it into place, so readers never see
+// a partly written file
+export function writeFileAtomic(filePath: string, contents: string | Buffer) {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  fs.writeFileSync(tempPath, contents);
+  fs.renameSync(tempPath, filePath);
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { parseSearchQuery } from '@/lib/query-parser';
+import { APIValidationError } from '@/utils/api-utils';
+
+describe('parseSearchQuery', () => {
+  it('keeps plain queries unchanged', () => {
+    expect(parseSearchQuery('deep learning "graph neural network"').search).toBe('deep learning "graph neural network"');
+  });
+
+  it('renders title and abstract terms as boolean text', () => {
+    const plan = parseSearchQuery('title:(vision OR image) abstract:transformer');
+    expect(plan.titleSearch).toBe('vision OR image');
+    expect(plan.abstractSearch).toBe('transformer');
+  });
+
+  it('strips filter separators from title and abstract values', () => {
+    const plan = parseSearchQuery('title:"a|b, c" abstract:x|y');
+    expect(plan.titleSearch).toBe('"a b c"');
+    expect(plan.abstractSearch).toBe('x y');
+  });
+
+  it('rejects a field term with nothing left to search', () => {
+    expect(() => parseSearchQuery('title:|')).toThrow(APIValidationError);
+  });
+});
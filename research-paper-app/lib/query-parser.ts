@@ -0,0 +1,369 @@
+import { APIValidationError } from '@/utils/api-utils';
+
+// Search query language:
+//   deep learning              words (OpenAlex relevance search)
+//   "graph neural network"     phrase
+//   a AND b, a OR b, NOT a     operators (upper case); adjacent terms are ANDed
+//   (a OR b) AND c             grouping
+//   title:, abstract:, author:, venue:, doi:   field prefixes, also on groups
+//                              such as title:(vision OR image)
+//
+// OpenAlex ANDs its filters together, so terms for different fields can
+// only be combined with AND; OR and NOT work within one field.
+
+export type QueryField = 'title' | 'abstract' | 'author' | 'venue' | 'doi';
+
+export const QUERY_FIELDS: QueryField[] = ['title', 'abstract', 'author', 'venue', 'doi'];
+
+export type QueryNode =
+  | { type: 'term'; field: QueryField | null; value: string; phrase: boolean; start: number; end: number }
+  | { type: 'not'; child: QueryNode; start: number; end: number }
+  | { type: 'and' | 'or'; children: QueryNode[]; start: number; end: number };
+
+// Author, venue or DOI values of which any may match; when negated, none may.
+// Separate conditions are ANDed.
+export interface EntityCondition {
+  values: string[];
+  negated: boolean;
+}
+
+export interface QueryPlan {
+  // Free-text part for OpenAlex's search parameter; '' when the query only
+  // has field terms
+  search: string;
+  titleSearch: string | null;
+  abstractSearch: string | null;
+  authors: EntityCondition[];
+  venues: EntityCondition[];
+  dois: EntityCondition[];
+}
+
+type Token =
+  | { type: 'word' | 'phrase'; value: string; start: number; end: number }
+  | { type: 'field'; field: QueryField; start: number; end: number }
+  | { type: 'and' | 'or' | 'not' | 'open' | 'close'; start: number; end: number };
+
+const FIELD_PREFIX = new RegExp(`^(${QUERY_FIELDS.join('|')}):`, 'i');
+const OPERATORS: Record<string, 'and' | 'or' | 'not'> = { AND: 'and', OR: 'or', NOT: 'not' };
+
+function describe(token: Token | undefined): string {
+  if (!token) return 'end of query';
+  switch (token.type) {
+    case 'word': return `"${token.value}"`;
+    case 'phrase': return `"\\"${token.value}\\""`;
+    case 'field': return `"${token.field}:"`;
+    case 'open': return '"("';
+    case 'close': return '")"';
+    default: return token.type.toUpperCase();
+  }
+}
+
+// Positions in messages are 1-based for the user
+function syntaxError(message: string, position: number): APIValidationError {
+  return new APIValidationError(`${message} (at character ${position + 1})`, 'query');
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close', start: i, end: i + 1 });
+      i++;
+    } else if (char === '"') {
+      const close = input.indexOf('"', i + 1);
+      if (close < 0) {
+        throw syntaxError('Unclosed quote', i);
+      }
+      tokens.push({ type: 'phrase', value: input.slice(i + 1, close).trim(), start: i, end: close + 1 });
+      i = close + 1;
+    } else {
+      const fieldMatch = input.slice(i).match(FIELD_PREFIX);
+      if (fieldMatch) {
+        const field = fieldMatch[1].toLowerCase() as QueryField;
+        tokens.push({ type: 'field', field, start: i, end: i + fieldMatch[0].length });
+        i += fieldMatch[0].length;
+
+        // DOIs may contain parentheses, e.g. 10.1016/S0140-6736(20)30183-5
+        if (field === 'doi' && i < input.length && !/[\s"(]/.test(input[i])) {
+          const end = input.slice(i).search(/\s/);
+          const stop = end < 0 ? input.length : i + end;
+          tokens.push({ type: 'word', value: input.slice(i, stop), start: i, end: stop });
+          i = stop;
+        }
+        continue;
+      }
+
+      const end = input.slice(i).search(/[\s()"]/);
+      const stop = end < 0 ? input.length : i + end;
+      const value = input.slice(i, stop);
+      const operator = OPERATORS[value];
+      tokens.push(operator ? { type: operator, start: i, end: stop } : { type: 'word', value, start: i, end: stop });
+      i = stop;
+    }
+  }
+
+  return tokens;
+}
+
+// Recursive descent; AND binds tighter than OR
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[], private inputLength: number) {}
+
+  parse(): QueryNode {
+    if (this.tokens.length === 0) {
+      throw new APIValidationError('Query cannot be empty', 'query');
+    }
+
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next) {
+      throw syntaxError(next.type === 'close' ? 'Unmatched ")"' : `Unexpected ${describe(next)}`, next.start);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.type === 'or') {
+      this.next();
+      children.push(this.parseAnd());
+    }
+    return children.length === 1
+      ? children[0]
+      : { type: 'or', children, start: children[0].start, end: children[children.length - 1].end };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+    while (true) {
+      const token = this.peek();
+      if (!token || token.type === 'or' || token.type === 'close') break;
+      if (token.type === 'and') this.next();
+      children.push(this.parseUnary());
+    }
+    return children.length === 1
+      ? children[0]
+      : { type: 'and', children, start: children[0].start, end: children[children.length - 1].end };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+    if (token?.type === 'not') {
+      this.next();
+      const child = this.parseUnary();
+      return { type: 'not', child, start: token.start, end: child.end };
+    }
+    return this.parsePrimary(null);
+  }
+
+  private parsePrimary(field: QueryField | null): QueryNode {
+    const token = this.next();
+
+    if (!token) {
+      throw syntaxError('Expected a search term', this.inputLength);
+    }
+
+    switch (token.type) {
+      case 'word':
+      case 'phrase':
+        if (!token.value) {
+          throw syntaxError('Empty phrase', token.start);
+        }
+        return { type: 'term', field, value: token.value, phrase: token.type === 'phrase', start: token.start, end: token.end };
+
+      case 'field': {
+        if (field) {
+          throw syntaxError(`Unexpected "${token.field}:" inside ${field}:`, token.start);
+        }
+        const next = this.peek();
+        if (!next || !['word', 'phrase', 'open'].includes(next.type)) {
+          throw syntaxError(`Expected a search term after "${token.field}:"`, token.end);
+        }
+        const node = this.parsePrimary(token.field);
+        return { ...node, start: token.start };
+      }
+
+      case 'open': {
+        if (this.peek()?.type === 'close') {
+          throw syntaxError('Empty parentheses', token.start);
+        }
+        const node = field ? this.withField(this.parseOr(), field) : this.parseOr();
+        const close = this.next();
+        if (close?.type !== 'close') {
+          throw syntaxError('Missing ")"', close ? close.start : this.inputLength);
+        }
+        return { ...node, start: token.start, end: close.end };
+      }
+
+      default:
+        throw syntaxError(`Expected a search term but found ${describe(token)}`, token.start);
+    }
+  }
+
+  // field:(...) applies the field to every term in the group
+  private withField(node: QueryNode, field: QueryField): QueryNode {
+    switch (node.type) {
+      case 'term':
+        if (node.field && node.field !== field) {
+          throw syntaxError(`Unexpected "${node.field}:" inside ${field}:`, node.start);
+        }
+        return { ...node, field };
+      case 'not':
+        return { ...node, child: this.withField(node.child, field) };
+      default:
+        return { ...node, children: node.children.map(child => this.withField(child, field)) };
+    }
+  }
+}
+
+export function parseQuery(input: string): QueryNode {
+  return new Parser(tokenize(input), input.length).parse();
+}
+
+function fieldsOf(node: QueryNode, fields: Set<QueryField | null> = new Set()): Set<QueryField | null> {
+  if (node.type === 'term') fields.add(node.field);
+  else if (node.type === 'not') fieldsOf(node.child, fields);
+  else node.children.forEach(child => fieldsOf(child, fields));
+  return fields;
+}
+
+// AND-ed parts of the query, with nested ANDs flattened
+function conjuncts(node: QueryNode): QueryNode[] {
+  return node.type === 'and' ? node.children.flatMap(conjuncts) : [node];
+}
+
+// Boolean text for a .search filter. Commas separate OpenAlex filters and
+// "|" would make the value an OR list, so neither can appear in a value.
+function renderText(node: QueryNode, nested: boolean = false): string {
+  switch (node.type) {
+    case 'term': {
+      const value = node.value.replace(/[,|"]/g, ' ').replace(/\s+/g, ' ').trim();
+      if (!value) {
+        throw syntaxError(`"${node.value}" has no searchable text`, node.start);
+      }
+      return node.phrase ? `"${value}"` : value;
+    }
+    case 'not':
+      return `NOT ${renderText(node.child, true)}`;
+    default: {
+      const text = node.children.map(child => renderText(child, true)).join(node.type === 'and' ? ' AND ' : ' OR ');
+      return nested ? `(${text})` : text;
+    }
+  }
+}
+
+function entityCondition(node: QueryNode, field: QueryField): EntityCondition {
+  const negated = node.type === 'not';
+  const inner = node.type === 'not' ? node.child : node;
+  const terms = inner.type === 'or' ? inner.children.flatMap(child => child.type === 'or' ? child.children : [child]) : [inner];
+
+  if (terms.some(term => term.type !== 'term')) {
+    throw syntaxError(`${field}: supports OR between values and NOT, but not nested groups`, node.start);
+  }
+
+  return {
+    values: terms.map(term => (term as Extract<QueryNode, { type: 'term' }>).value.trim()),
+    negated
+  };
+}
+
+// Split a parsed query into OpenAlex's search text and per-field conditions.
+// Free-text parts are kept as written, so plain queries reach OpenAlex
+// unchanged.
+export function compileQuery(node: QueryNode, input: string): QueryPlan {
+  const plan: QueryPlan = { search: '', titleSearch: null, abstractSearch: null, authors: [], venues: [], dois: [] };
+  const searchParts: string[] = [];
+  const titleParts: string[] = [];
+  const abstractParts: string[] = [];
+
+  for (const part of conjuncts(node)) {
+    const fields = fieldsOf(part);
+    if (fields.size > 1) {
+      const names = Array.from(fields).map(field => field ? `${field}:` : 'free text').join(', ');
+      throw syntaxError(`OR and NOT cannot mix ${names}; join terms for different fields with AND`, part.start);
+    }
+
+    const field = Array.from(fields)[0];
+    switch (field) {
+      case null:
+        searchParts.push(input.slice(part.start, part.end));
+        break;
+      case 'title':
+        titleParts.push(renderText(part));
+        break;
+      case 'abstract':
+        abstractParts.push(renderText(part));
+        break;
+      case 'author':
+        plan.authors.push(entityCondition(part, field));
+        break;
+      case 'venue':
+        plan.venues.push(entityCondition(part, field));
+        break;
+      case 'doi': {
+        const condition = entityCondition(part, field);
+        condition.values = condition.values.map(value => {
+          const doi = value.replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, '');
+          if (!/^10\.\d+\/\S+$/.test(doi) || /[,|+]/.test(doi)) {
+            throw syntaxError(`"${value}" is not a valid DOI`, part.start);
+          }
+          return doi;
+        });
+        plan.dois.push(condition);
+        break;
+      }
+    }
+  }
+
+  // Plain words and phrases keep OpenAlex's default matching; once a part
+  // uses operators the parts are joined explicitly
+  const plainText = conjuncts(node).every(part => part.type === 'term');
+  plan.search = searchParts.join(plainText ? ' ' : ' AND ');
+  plan.titleSearch = titleParts.length > 0 ? titleParts.join(' AND ') : null;
+  plan.abstractSearch = abstractParts.length > 0 ? abstractParts.join(' AND ') : null;
+  return plan;
+}
+
+// Parse and compile; throws APIValidationError describing the problem
+export function parseSearchQuery(input: string): QueryPlan {
+  return compileQuery(parseQuery(input), input);
+}
+
+// One row of the visual query builder in SearchFilters
+export interface QueryBuilderRow {
+  operator: 'AND' | 'OR' | 'NOT';
+  field: QueryField | 'any';
+  value: string;
+}
+
+// Query text for builder rows, read left to right (AND binds tighter than
+// OR, as when typed). The first row's operator only matters for NOT.
+export function buildQuery(rows: QueryBuilderRow[]): string {
+  return rows
+    .filter(row => row.value.trim())
+    .map((row, index) => {
+      const value = row.value.trim().replace(/"/g, '');
+      const quoted = /[\s():]/.test(value) || value in OPERATORS ? `"${value}"` : value;
+      const term = row.field === 'any' ? quoted : `${row.field}:${quoted}`;
+
+      if (row.operator === 'NOT') return `NOT ${term}`;
+      return index === 0 ? term : `${row.operator} ${term}`;
+    })
+    .join(' ');
+}
@@ -0,0 +1,168 @@
+import type { VectorStore, VectorStoreEntry } from '@/lib/vector-store';
+import type { PassageMatch } from '@/types/paper';
+
+// Retrieval step for chat: picks the passages most relevant to the question
+// and fits them into a token budget for the prompt.
+
+export interface RetrievalOptions {
+  tokenBudget?: number;
+  candidateCount?: number;
+  historyTurns?: number;
+  // Largest share of the budget a single paper may take in collection chat
+  maxPaperShare?: number;
+}
+
+export interface RetrievedContext {
+  passages: PassageMatch[];
+  tokensUsed: number;
+}
+
+const DEFAULT_TOKEN_BUDGET = parseInt(process.env.RAG_CONTEXT_TOKENS || '3000', 10);
+const DEFAULT_CANDIDATE_COUNT = 20;
+const DEFAULT_HISTORY_TURNS = 2;
+const DEFAULT_MAX_PAPER_SHARE = 0.4;
+const MAX_COLLECTION_CANDIDATES = 200;
+
+// Rough estimate (~4 characters per token) that is good enough for budgeting
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// The retrieval query combines the new message with the most recent user
+// turns, so follow-ups like "what about their results?" keep their subject.
+export function buildRetrievalQuery(message: string, chatHistory: any[] = [], historyTurns: number = DEFAULT_HISTORY_TURNS): string {
+  const recentTurns = chatHistory
+    .filter(msg => msg.role === 'user')
+    .slice(-historyTurns)
+    .map(msg => msg.content || msg.parts?.[0]?.text || msg.text || '');
+
+  return [...recentTurns, message].join('\n');
+}
+
+// Document order within a paper; tables and figures without a position in
+// the text go last
+function byPosition(a: PassageMatch, b: PassageMatch): number {
+  return (a.start ?? Number.MAX_SAFE_INTEGER) - (b.start ?? Number.MAX_SAFE_INTEGER);
+}
+
+// Greedily take passages in score order until the budget is spent, then
+// return them in document order so the prompt reads naturally.
+export function fitPassagesToBudget(passages: PassageMatch[], tokenBudget: number): RetrievedContext {
+  const selected: PassageMatch[] = [];
+  let tokensUsed = 0;
+
+  for (const passage of [...passages].sort((a, b) => b.score - a.score)) {
+    const tokens = estimateTokens(passage.text);
+    if (tokensUsed + tokens > tokenBudget) continue;
+    selected.push(passage);
+    tokensUsed += tokens;
+  }
+
+  selected.sort((a, b) => a.paperId === b.paperId ? byPosition(a, b) : a.paperId.localeCompare(b.paperId));
+  return { passages: selected, tokensUsed };
+}
+
+export async function retrievePaperContext(
+  vectorStore: VectorStore,
+  entry: VectorStoreEntry,
+  message: string,
+  chatHistory: any[] = [],
+  options: RetrievalOptions = {}
+): Promise<RetrievedContext> {
+  const tokenBudget = options.tokenBudget || DEFAULT_TOKEN_BUDGET;
+  const query = buildRetrievalQuery(message, chatHistory, options.historyTurns);
+
+  const passages = await vectorStore.searchPassages(query, options.candidateCount || DEFAULT_CANDIDATE_COUNT, {
+    paperIds: [entry.paperId]
+  });
+
+  if (passages.length > 0) {
+    return fitPassagesToBudget(passages, tokenBudget);
+  }
+
+  // Papers processed before chunking have no passages; use the opening text
+  const opening = openingPassage(entry, tokenBudget);
+  return opening
+    ? { passages: [opening], tokensUsed: estimateTokens(opening.text) }
+    : { passages: [], tokensUsed: 0 };
+}
+
+// Cross-paper retrieval for collection chat. Passages are taken in score
+// order, but each paper is capped at a share of the budget so one long or
+// very similar paper cannot crowd out the rest of the collection.
+export async function retrieveCollectionContext(
+  vectorStore: VectorStore,
+  entries: VectorStoreEntry[],
+  message: string,
+  chatHistory: any[] = [],
+  options: RetrievalOptions = {}
+): Promise<RetrievedContext> {
+  const tokenBudget = options.tokenBudget || DEFAULT_TOKEN_BUDGET;
+  const query = buildRetrievalQuery(message, chatHistory, options.historyTurns);
+  const candidateCount = options.candidateCount
+    || Math.min(DEFAULT_CANDIDATE_COUNT * entries.length, MAX_COLLECTION_CANDIDATES);
+
+  const passages = await vectorStore.searchPassages(query, candidateCount, {
+    paperIds: entries.map(entry => entry.paperId)
+  });
+
+  // Papers without passages contribute their opening text at the lowest rank
+  const withPassages = new Set(passages.map(passage => passage.paperId));
+  const paperCap = entries.length > 1
+    ? Math.floor(tokenBudget * (options.maxPaperShare || DEFAULT_MAX_PAPER_SHARE))
+    : tokenBudget;
+  const candidates = [...passages];
+  for (const entry of entries) {
+    if (withPassages.has(entry.paperId)) continue;
+    const opening = openingPassage(entry, paperCap);
+    if (opening) candidates.push(opening);
+  }
+
+  const selected: PassageMatch[] = [];
+  const tokensPerPaper = new Map<string, number>();
+  let tokensUsed = 0;
+
+  for (const passage of candidates.sort((a, b) => b.score - a.score)) {
+    const tokens = estimateTokens(passage.text);
+    const paperTokens = tokensPerPaper.get(passage.paperId) || 0;
+    if (tokensUsed + tokens > tokenBudget || paperTokens + tokens > paperCap) continue;
+
+    selected.push(passage);
+    tokensPerPaper.set(passage.paperId, paperTokens + tokens);
+    tokensUsed += tokens;
+  }
+
+  // Group by paper, then document order within each paper
+  const paperOrder = entries.map(entry => entry.paperId);
+  selected.sort((a, b) => a.paperId === b.paperId
+    ? byPosition(a, b)
+    : paperOrder.indexOf(a.paperId) - paperOrder.indexOf(b.paperId));
+
+  return { passages: selected, tokensUsed };
+}
+
+function openingPassage(entry: VectorStoreEntry, tokenBudget: number): PassageMatch | null {
+  if (!entry.fullText) return null;
+
+  const text = entry.fullText.substring(0, tokenBudget * 4);
+  return {
+    paperId: entry.paperId,
+    title: entry.title,
+    chunkIndex: 0,
+    start: 0,
+    end: text.length,
+    text,
+    score: 0
+  };
+}
+
+// Passages are numbered from 1 so answers can cite them as [1], [2], ...
+export function formatPassages(passages: PassageMatch[], includeTitles: boolean = false): string {
+  return passages
+    .map((passage, i) => {
+      const source = includeTitles ? ` "${passage.title}"` : '';
+      const location = passage.figureLabel || `characters ${passage.start}-${passage.end}`;
+      return `[${i + 1}]${source} (${location})\n${passage.text}`;
+    })
+    .join('\n\n');
+}
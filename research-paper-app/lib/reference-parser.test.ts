@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { parseReference, parseReferences, splitReferences } from '@/lib/reference-parser';
+
+describe('splitReferences', () => {
+  it('splits bracketed entries and joins their wrapped lines', () => {
+    const block = [
+      '[1] A. Vaswani, N. Shazeer, and N. Parmar, "Attention is all you need," in',
+      'Advances in Neural Information Processing Systems, 2017.',
+      '[2] K. He, X. Zhang, S. Ren, and J. Sun, "Deep residual learning for image',
+      'recognition," in CVPR, 2016.'
+    ].join('\n');
+
+    expect(splitReferences(block)).toEqual([
+      '[1] A. Vaswani, N. Shazeer, and N. Parmar, "Attention is all you need," in Advances in Neural Information Processing Systems, 2017.',
+      '[2] K. He, X. Zhang, S. Ren, and J. Sun, "Deep residual learning for image recognition," in CVPR, 2016.'
+    ]);
+  });
+
+  it('only starts numbered entries at the next number in sequence', () => {
+    const block = [
+      '1. LeCun Y, Bengio Y, Hinton G. Deep learning. Nature. 2015;521(7553):',
+      '436-44.',
+      '2. Devlin J, Chang MW, Lee K, Toutanova K. BERT: Pre-training of deep',
+      '2019 bidirectional transformers. NAACL, 2019.'
+    ].join('\n');
+
+    const entries = splitReferences(block);
+    expect(entries).toHaveLength(2);
+    expect(entries[1]).toContain('2019 bidirectional transformers');
+  });
+
+  it('splits author-year entries at a new author after a full stop', () => {
+    const block = [
+      'Goodfellow, I., Bengio, Y., & Courville, A. (2016). Deep learning. MIT',
+      'Press.',
+      'Kingma, D. P., & Ba, J. (2015). Adam: A method for stochastic optimization.',
+      'In International Conference on Learning Representations.'
+    ].join('\n');
+
+    const entries = splitReferences(block);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toBe('Goodfellow, I., Bengio, Y., & Courville, A. (2016). Deep learning. MIT Press.');
+  });
+
+  it('drops fragments too short to be a reference', () => {
+    expect(splitReferences('[1] Short.\n[2] Also short.')).toEqual([]);
+  });
+});
+
+describe('parseReference', () => {
+  it('parses an IEEE entry', () => {
+    const reference = parseReference('[3] A. Vaswani, N. Shazeer, and N. Parmar, "Attention is all you need," in Advances in Neural Information Processing Systems, vol. 30, 2017, pp. 5998-6008.');
+
+    expect(reference.authors).toEqual(['A. Vaswani', 'N. Shazeer', 'N. Parmar']);
+    expect(reference.title).toBe('Attention is all you need');
+    expect(reference.venue).toBe('Advances in Neural Information Processing Systems');
+    expect(reference.year).toBe(2017);
+  });
+
+  it('parses an APA entry with a DOI', () => {
+    const reference = parseReference('Kingma, D. P., & Ba, J. (2015). Adam: A method for stochastic optimization. Journal of Machine Learning, 12(3), 1-10. https://doi.org/10.48550/arXiv.1412.6980');
+
+    expect(reference.authors).toEqual(['D. P. Kingma', 'J. Ba']);
+    expect(reference.title).toBe('Adam: A method for stochastic optimization');
+    expect(reference.venue).toBe('Journal of Machine Learning');
+    expect(reference.year).toBe(2015);
+    expect(reference.doi).toBe('10.48550/arXiv.1412.6980');
+  });
+
+  it('parses a Vancouver entry', () => {
+    const reference = parseReference('1. Devlin J, Chang MW, Lee K, Toutanova K. BERT: Pre-training of deep bidirectional transformers for language understanding. NAACL, 2019.');
+
+    expect(reference.authors).toEqual(['Devlin J', 'Chang MW', 'Lee K', 'Toutanova K']);
+    expect(reference.title).toBe('BERT: Pre-training of deep bidirectional transformers for language understanding');
+    expect(reference.venue).toBe('NAACL');
+    expect(reference.year).toBe(2019);
+  });
+
+  it('parses a Vancouver journal entry', () => {
+    const reference = parseReference('LeCun Y, Bengio Y, Hinton G. Deep learning. Nature. 2015;521(7553):436-44.');
+
+    expect(reference.authors).toEqual(['LeCun Y', 'Bengio Y', 'Hinton G']);
+    expect(reference.title).toBe('Deep learning');
+    expect(reference.venue).toBe('Nature');
+    expect(reference.year).toBe(2015);
+  });
+
+  it('parses a Vancouver entry ending its authors with et al.', () => {
+    const reference = parseReference('Brown TB, Mann B, Ryder N, et al. Language models are few-shot learners. NeurIPS. 2020.');
+
+    expect(reference.authors).toEqual(['Brown TB', 'Mann B', 'Ryder N']);
+    expect(reference.title).toBe('Language models are few-shot learners');
+  });
+});
+
+describe('parseReferences', () => {
+  it('splits and parses a block', () => {
+    const references = parseReferences('1. LeCun Y, Bengio Y, Hinton G. Deep learning. Nature. 2015;521(7553):436-44.\n2. Devlin J, Chang MW, Lee K, Toutanova K. BERT: Pre-training of deep bidirectional transformers. NAACL, 2019.');
+
+    expect(references.map(reference => reference.title)).toEqual([
+      'Deep learning',
+      'BERT: Pre-training of deep bidirectional transformers'
+    ]);
+  });
+});
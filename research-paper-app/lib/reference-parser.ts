@@ -0,0 +1,157 @@
+import type { ParsedReference } from '@/types/paper';
+import { joinLines } from '@/lib/document-parser';
+
+// Splits a bibliography block into entries and pulls out authors, title,
+// year, venue and DOI. Handles the common styles: bracketed ("[12] ..."),
+// numbered ("12. ...", including Vancouver "Smith J, Jones AB. ...") and
+// author-year ("Smith, J. (2020). ...").
+
+const BRACKET_MARKER = /^\[(\d{1,3})\]\s*/;
+const NUMBER_MARKER = /^(\d{1,3})\.\s+/;
+// Start of an author-year entry: "Smith, J." / "van der Berg, A." / "J. Smith"
+const AUTHOR_START = /^(?:[A-Z][A-Za-z'’-]+(?:\s[a-z]{1,3})*(?:\s[A-Z][A-Za-z'’-]+)?,\s+[A-Z]|[A-Z]\.\s?(?:[A-Z]\.\s?)?[A-Z][a-z])/;
+const DOI_PATTERN = /\b(10\.\d{4,9}\/[^\s"<>]+)/i;
+// Sentence breaks that are not initials or common abbreviations
+const SEGMENT_BREAK = /(?<!\b[A-Z]|\bal|\bvs|\bpp|\bvol|\bVol|\bno|\bNo|\bProc|\bInt|\bConf|\bJ|\bEds?|\beds?)\.\s+/;
+// Vancouver author list: "Surname Initials" separated by commas, ended by
+// a full stop that SEGMENT_BREAK would take for one after an initial
+const VANCOUVER_AUTHOR = /[A-Z][A-Za-z'’-]+(?:\s[a-z]{1,3})*(?:\s[A-Z][a-z][A-Za-z'’-]*)*\s[A-Z]{1,3}/.source;
+const VANCOUVER_AUTHORS = new RegExp(`^(${VANCOUVER_AUTHOR}(?:,\\s+${VANCOUVER_AUTHOR})*(?:,?\\s+et al)?)\\.\\s+`);
+const MAX_AUTHORS = 20;
+
+export function splitReferences(block: string): string[] {
+  const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) return [];
+
+  const bracketed = lines.filter(line => BRACKET_MARKER.test(line)).length;
+  const numbered = lines.filter(line => NUMBER_MARKER.test(line)).length;
+  const entries: string[][] = [];
+  let expected = 1;
+
+  for (const line of lines) {
+    let startsEntry: boolean;
+
+    if (bracketed >= 2) {
+      startsEntry = BRACKET_MARKER.test(line);
+    } else if (numbered >= 2) {
+      // Only the next number in sequence counts, so wrapped lines that
+      // happen to start with a number stay in their entry
+      const marker = line.match(NUMBER_MARKER);
+      startsEntry = !!marker && parseInt(marker[1], 10) === expected;
+      if (startsEntry) expected++;
+    } else {
+      const previous = entries[entries.length - 1];
+      const previousText = previous ? previous[previous.length - 1] : '';
+      startsEntry = !previous || (/[.)]$/.test(previousText) && AUTHOR_START.test(line));
+    }
+
+    if (startsEntry || entries.length === 0) {
+      entries.push([line]);
+    } else {
+      entries[entries.length - 1].push(line);
+    }
+  }
+
+  return entries
+    .map(entryLines => joinLines(entryLines))
+    .filter(entry => entry.length >= 20);
+}
+
+function cleanField(value: string | undefined): string | null {
+  const cleaned = (value || '')
+    .replace(/^[\s,.:;]+|[\s,.:;(]+$/g, '')
+    .replace(/\s+/g, ' ');
+  return cleaned.length > 0 ? cleaned : null;
+}
+
+function parseAuthors(text: string): string[] {
+  const parts = text
+    .replace(/\bet al\.?/g, '')
+    .split(/\s*(?:,|;|&|\band\b)\s*/)
+    .map(part => part.trim())
+    .filter(Boolean);
+
+  // "Smith, J." comes out as ["Smith", "J."]; put the initials back
+  const authors: string[] = [];
+  for (const part of parts) {
+    const isInitials = /^(?:[A-Z]\.?\s?-?)+$/.test(part);
+    if (isInitials && authors.length > 0 && !/\b[A-Z]\./.test(authors[authors.length - 1])) {
+      authors[authors.length - 1] = `${part} ${authors[authors.length - 1]}`;
+    } else if (part.length > 1 && !isInitials) {
+      authors.push(part);
+    }
+  }
+
+  return authors.slice(0, MAX_AUTHORS);
+}
+
+// Venue is whatever follows the title, without volume, pages and year
+function cleanVenue(text: string | undefined): string | null {
+  if (!text) return null;
+
+  const venue = text
+    .replace(/^[\s,.]*in:?\s+/i, '')
+    .split(/,?\s*(?:vol\.|volume|pp\.|pages|\d+\s*\(\d+\)|\d+[:–-]\d+|\((?:19|20)\d{2}\)|(?:19|20)\d{2}\b)/i)[0];
+
+  const cleaned = cleanField(venue);
+  return cleaned && /[A-Za-z]{3}/.test(cleaned) ? cleaned : null;
+}
+
+export function parseReference(raw: string): ParsedReference {
+  const text = raw.replace(BRACKET_MARKER, '').replace(NUMBER_MARKER, '').trim();
+
+  const doiMatch = text.match(DOI_PATTERN);
+  const doi = doiMatch ? doiMatch[1].replace(/[.,;)\]]+$/, '') : null;
+  const withoutLinks = text.replace(/\b(?:https?:\/\/|doi:\s*)\S+/gi, '').trim();
+
+  const yearMatch = withoutLinks.match(/\(((?:19|20)\d{2})[a-z]?\)/) || withoutLinks.match(/\b((?:19|20)\d{2})[a-z]?\b/);
+  const year = yearMatch && parseInt(yearMatch[1], 10) <= new Date().getFullYear() + 1
+    ? parseInt(yearMatch[1], 10)
+    : null;
+
+  let authorsText = '';
+  let title: string | null = null;
+  let venue: string | null = null;
+
+  const quoted = withoutLinks.match(/[“"]([^”"]{8,}?)[,.]?[”"]/);
+  const apaYear = withoutLinks.match(/\s*\((?:19|20)\d{2}[a-z]?\)\.?\s*/);
+  const vancouverAuthors = withoutLinks.match(VANCOUVER_AUTHORS);
+
+  if (quoted && quoted.index !== undefined) {
+    // IEEE: A. Smith and B. Jones, "Title," in Venue, 2020.
+    authorsText = withoutLinks.slice(0, quoted.index);
+    title = cleanField(quoted[1]);
+    venue = cleanVenue(withoutLinks.slice(quoted.index + quoted[0].length));
+  } else if (apaYear && apaYear.index !== undefined) {
+    // APA: Smith, J., & Jones, B. (2020). Title. Venue, 12(3), 1-10.
+    authorsText = withoutLinks.slice(0, apaYear.index);
+    const [titleText, venueText] = withoutLinks.slice(apaYear.index + apaYear[0].length).split(SEGMENT_BREAK);
+    title = cleanField(titleText);
+    venue = cleanVenue(venueText);
+  } else if (vancouverAuthors) {
+    // Vancouver: Smith J, Jones AB. Title. Venue. 2020;12(3):1-10.
+    authorsText = vancouverAuthors[1];
+    const [titleText, venueText] = withoutLinks.slice(vancouverAuthors[0].length).split(SEGMENT_BREAK);
+    title = cleanField(titleText);
+    venue = cleanVenue(venueText);
+  } else {
+    // Authors. Title. Venue, year.
+    const [first, second, third] = withoutLinks.split(SEGMENT_BREAK);
+    authorsText = first || '';
+    title = cleanField(second);
+    venue = cleanVenue(third);
+  }
+
+  return {
+    raw,
+    authors: parseAuthors(authorsText),
+    title: title && title.length >= 8 ? title : null,
+    year,
+    venue,
+    doi
+  };
+}
+
+export function parseReferences(block: string): ParsedReference[] {
+  return splitReferences(block).map(parseReference);
+}
@@ -0,0 +1,120 @@
+import type { LinkedReference, ParsedReference, Paper } from '@/types/paper';
+import { OpenAlexClient, type OpenAlexWork } from '@/lib/openalex-client';
+
+// Links parsed bibliography entries (and uploaded PDFs) to OpenAlex works:
+// by DOI when there is one, otherwise by searching the title and accepting
+// a close match.
+
+const CONCURRENCY = 4;
+const MAX_REFERENCES = 100;
+const TITLE_CANDIDATES = 5;
+const MIN_TITLE_SIMILARITY = 0.8;
+
+function titleTokens(title: string): string[] {
+  return title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// Dice coefficient over title words
+function titleSimilarity(a: string, b: string): number {
+  const tokensA = titleTokens(a);
+  const tokensB = titleTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const remaining = [...tokensB];
+  let shared = 0;
+  for (const token of tokensA) {
+    const index = remaining.indexOf(token);
+    if (index !== -1) {
+      remaining.splice(index, 1);
+      shared++;
+    }
+  }
+
+  return (2 * shared) / (tokensA.length + tokensB.length);
+}
+
+function toPaper(client: OpenAlexClient, work: OpenAlexWork): Paper {
+  return client.transformResults({
+    meta: { count: 1, db_response_time_ms: 0, page: 1, per_page: 1 },
+    results: [work]
+  })[0];
+}
+
+export interface OpenAlexMatch {
+  paper: Paper;
+  matchedBy: 'doi' | 'title';
+}
+
+// Find the OpenAlex work for a citation or an uploaded PDF. Lookup errors
+// are left to the caller.
+export async function findOpenAlexMatch(
+  reference: { title: string | null; year: number | null; doi: string | null },
+  client: OpenAlexClient = new OpenAlexClient()
+): Promise<OpenAlexMatch | null> {
+  if (reference.doi) {
+    const work = await client.getWorkByDoi(reference.doi);
+    if (work) {
+      return { paper: toPaper(client, work), matchedBy: 'doi' };
+    }
+  }
+
+  if (!reference.title) return null;
+
+  const response = await client.searchWorks(reference.title, { limit: TITLE_CANDIDATES });
+  let best: { work: OpenAlexWork; score: number } | null = null;
+
+  for (const work of response.results) {
+    const score = titleSimilarity(reference.title, work.display_name || work.title || '');
+    // Preprints and proceedings are often a year off from the cited version
+    const yearMatches = !reference.year || !work.publication_year
+      || Math.abs(reference.year - work.publication_year) <= 1;
+
+    if (score >= MIN_TITLE_SIMILARITY && yearMatches && (!best || score > best.score)) {
+      best = { work, score };
+    }
+  }
+
+  return best ? { paper: toPaper(client, best.work), matchedBy: 'title' } : null;
+}
+
+async function resolveReference(
+  client: OpenAlexClient,
+  reference: ParsedReference,
+  index: number
+): Promise<LinkedReference> {
+  try {
+    const match = await findOpenAlexMatch(reference, client);
+    return { ...reference, index, match: match?.paper || null, matchedBy: match?.matchedBy || null };
+  } catch (error) {
+    console.warn(`⚠️ Could not resolve reference ${index + 1}:`, error instanceof Error ? error.message : error);
+    return { ...reference, index, match: null, matchedBy: null };
+  }
+}
+
+export async function resolveReferences(
+  references: ParsedReference[],
+  client: OpenAlexClient = new OpenAlexClient()
+): Promise<LinkedReference[]> {
+  const pending = references.slice(0, MAX_REFERENCES);
+  const linked: LinkedReference[] = new Array(pending.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < pending.length) {
+      const index = next++;
+      linked[index] = await resolveReference(client, pending[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, pending.length) }, worker));
+
+  const matched = linked.filter(reference => reference.match).length;
+  console.log(`🔗 Linked ${matched}/${linked.length} references to OpenAlex works`);
+
+  return linked;
+}
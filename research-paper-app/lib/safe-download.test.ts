@@ -0,0 +1,87 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { PDFDownloadError, downloadPdfSafely, isPrivateAddress, validateDownloadUrl } from '@/lib/safe-download';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '169.254.169.254',
+    '192.168.0.1',
+    '::',
+    '::1',
+    'fc00::1',
+    'fe80::1',
+    'ff02::1',
+    // IPv4-mapped, dotted and hex (the URL parser's form)
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '::ffff:a9fe:a9fe',
+    '0:0:0:0:0:ffff:7f00:1',
+    // IPv4-compatible
+    '::127.0.0.1',
+    '::7f00:1',
+    // SIIT
+    '::ffff:0:7f00:1',
+    // NAT64 with a private IPv4 address, and the local-use prefix
+    '64:ff9b::7f00:1',
+    '64:ff9b::169.254.169.254',
+    '64:ff9b:1::1',
+    // 6to4 of 127.0.0.1
+    '2002:7f00:1::1'
+  ])('blocks %s', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '93.184.216.34',
+    '2606:4700:4700::1111',
+    '::ffff:5db8:d822',
+    '64:ff9b::5db8:d822',
+    '2002:5db8:d822::1'
+  ])('allows %s', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe('validateDownloadUrl', () => {
+  it.each([
+    'http://[::ffff:127.0.0.1]/paper.pdf',
+    'http://[::ffff:7f00:1]/paper.pdf',
+    'http://[::ffff:a9fe:a9fe]/latest/meta-data/',
+    'http://[::ffff:169.254.169.254]/latest/meta-data/',
+    'http://[64:ff9b::a9fe:a9fe]/',
+    'http://[::127.0.0.1]/',
+    'http://[::1]/',
+    'http://127.0.0.1/'
+  ])('rejects %s', url => {
+    expect(() => validateDownloadUrl(url)).toThrow(PDFDownloadError);
+  });
+
+  it('accepts a public URL', () => {
+    expect(validateDownloadUrl('https://arxiv.org/pdf/1706.03762').hostname).toBe('arxiv.org');
+  });
+});
+
+describe('downloadPdfSafely', () => {
+  let server: http.Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = http.createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/pdf' });
+      res.end('%PDF-1.4 secret');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it.each(['[::ffff:127.0.0.1]', '[::ffff:7f00:1]', '127.0.0.1'])('does not fetch from loopback via %s', async host => {
+    await expect(downloadPdfSafely(`http://${host}:${port}/paper.pdf`)).rejects.toBeInstanceOf(PDFDownloadError);
+  });
+});
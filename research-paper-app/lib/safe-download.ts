@@ -0,0 +1,291 @@
+import axios from 'axios';
+import dns from 'dns';
+import net from 'net';
+import path from 'path';
+import type { Readable } from 'stream';
+
+// Fetching PDFs from URLs supplied by the client. Requests may only reach
+// public addresses (checked again at connect time, so DNS rebinding and
+// redirects cannot get around it), bodies are streamed with a size cap and
+// must actually be PDFs.
+
+const MAX_DOWNLOAD_BYTES = (parseInt(process.env.MAX_PDF_DOWNLOAD_MB || '50', 10) || 50) * 1024 * 1024;
+const MAX_HTML_BYTES = 2 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 30 * 1000;
+const MAX_REDIRECTS = 5;
+const MAX_FILENAME_LENGTH = 100;
+// Servers often label PDFs as generic binary; HTML means a landing or login page
+const ALLOWED_CONTENT_TYPES = ['application/pdf', 'application/x-pdf', 'application/octet-stream', 'binary/octet-stream', 'application/download'];
+const PDF_MAGIC = '%PDF-';
+
+export class PDFDownloadError extends Error {
+  constructor(message: string, public status: number = 400, public contentType?: string) {
+    super(message);
+    this.name = 'PDFDownloadError';
+  }
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(part => parseInt(part, 10));
+  return a === 0
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b <= 127) // carrier-grade NAT
+    || (a === 169 && b === 254) // link-local, including cloud metadata
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 0)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19)) // benchmarking
+    || a >= 224; // multicast and reserved
+}
+
+// The eight 16-bit groups of an IPv6 address, with a trailing dotted IPv4
+// part (::ffff:1.2.3.4) converted to two groups; null if malformed
+function expandIPv6(address: string): number[] | null {
+  let normalized = address.toLowerCase().replace(/%.*$/, '');
+
+  const dotted = normalized.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map(part => parseInt(part, 10));
+    normalized = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const halves = normalized.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(missing).fill('0'), ...tail];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+function groupsToIPv4(high: number, low: number): string {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const groups = expandIPv6(address);
+  if (!groups) return true;
+
+  const [g0, g1, g2, g3, g4, g5, g6, g7] = groups;
+  const zeroPrefix = (count: number) => groups.slice(0, count).every(group => group === 0);
+
+  // Forms that carry an IPv4 address, which the URL parser may have
+  // rewritten to hex (::ffff:127.0.0.1 becomes ::ffff:7f00:1):
+  // IPv4-mapped ::ffff:0:0/96, IPv4-compatible ::/96 (including :: and ::1),
+  // SIIT ::ffff:0:0:0/96 and NAT64 64:ff9b::/96
+  if ((zeroPrefix(5) && g5 === 0xffff)
+    || zeroPrefix(6)
+    || (zeroPrefix(4) && g4 === 0xffff && g5 === 0)
+    || (g0 === 0x64 && g1 === 0xff9b && g2 === 0 && g3 === 0 && g4 === 0 && g5 === 0)) {
+    return isPrivateIPv4(groupsToIPv4(g6, g7));
+  }
+
+  // 6to4 (2002::/16) embeds the IPv4 address in the second and third groups
+  if (g0 === 0x2002) {
+    return isPrivateIPv4(groupsToIPv4(g1, g2));
+  }
+
+  return (g0 & 0xfe00) === 0xfc00 // unique local
+    || (g0 & 0xffc0) === 0xfe80 // link-local
+    || (g0 & 0xff00) === 0xff00 // multicast
+    || (g0 === 0x64 && g1 === 0xff9b) // NAT64 local-use 64:ff9b:1::/48
+    || (g0 === 0x2001 && g1 === 0x0db8); // documentation
+}
+
+// PDFs start with "%PDF-", though readers accept junk in the first 1KB
+export function looksLikePdf(buffer: Buffer): boolean {
+  return buffer.subarray(0, 1024).indexOf(PDF_MAGIC) !== -1;
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 4) return isPrivateIPv4(address);
+  if (family === 6) return isPrivateIPv6(address);
+  return true;
+}
+
+// Checks that can be made without a DNS lookup; the resolved addresses are
+// checked by safeLookup when connecting
+export function validateDownloadUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new PDFDownloadError('Invalid PDF URL');
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new PDFDownloadError('Only http and https PDF URLs are allowed');
+  }
+
+  if (parsed.username || parsed.password) {
+    throw new PDFDownloadError('PDF URLs may not contain credentials');
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+    throw new PDFDownloadError('PDF URL points to a private address');
+  }
+
+  // IP literals never go through DNS lookup
+  if (net.isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new PDFDownloadError('PDF URL points to a private address');
+  }
+
+  return parsed;
+}
+
+// dns.lookup that refuses private addresses, used for every connection
+// (including redirects) so the address checked is the address connected to
+function safeLookup(
+  hostname: string,
+  options: object,
+  callback: (err: Error | null, addresses: Array<{ address: string; family: 4 | 6 }>) => void
+) {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      callback(new PDFDownloadError(`PDF URL host ${hostname} resolves to a private address`), []);
+      return;
+    }
+
+    callback(null, addresses.map(entry => ({ address: entry.address, family: entry.family === 6 ? 6 : 4 })));
+  });
+}
+
+// File names from the client end up in a path and a header: keep the base
+// name only, in a conservative character set
+export function sanitizeFilename(filename?: unknown): string {
+  const fallback = `paper_${Date.now()}.pdf`;
+  if (typeof filename !== 'string') return fallback;
+
+  const base = path.basename(filename.replace(/\\/g, '/'))
+    .replace(/\.pdf$/i, '')
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .replace(/^[._]+|[._]+$/g, '')
+    .slice(0, MAX_FILENAME_LENGTH);
+
+  return base ? `${base}.pdf` : fallback;
+}
+
+interface SafeResponse {
+  stream: Readable;
+  contentType: string;
+  // Where redirects ended up, for resolving relative links
+  finalUrl: string;
+}
+
+async function openSafeStream(url: string, accept: string, maxBytes: number): Promise<SafeResponse> {
+  validateDownloadUrl(url);
+
+  const response = await axios.get<Readable>(url, {
+    responseType: 'stream',
+    timeout: DOWNLOAD_TIMEOUT_MS,
+    maxRedirects: MAX_REDIRECTS,
+    maxContentLength: maxBytes,
+    lookup: safeLookup,
+    headers: {
+      'Accept': accept,
+      'User-Agent': 'Research-Paper-App/1.0'
+    },
+    beforeRedirect: (options) => {
+      validateDownloadUrl(options.href || `${options.protocol}//${options.hostname}${options.path || ''}`);
+    }
+  }).catch(error => {
+    if (error instanceof PDFDownloadError) throw error;
+    if (error?.cause instanceof PDFDownloadError) throw error.cause;
+    if (axios.isAxiosError(error) && error.response) {
+      throw new PDFDownloadError(`Host responded with ${error.response.status}`, 502);
+    }
+    throw new PDFDownloadError(`Failed to download: ${error instanceof Error ? error.message : 'Unknown error'}`, 502);
+  });
+
+  const stream = response.data as Readable;
+  const declaredLength = parseInt(String(response.headers['content-length'] || '0'), 10);
+  if (declaredLength > maxBytes) {
+    stream.destroy();
+    throw new PDFDownloadError(`Response is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`, 413);
+  }
+
+  return {
+    stream,
+    contentType: String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase(),
+    finalUrl: response.request?.res?.responseUrl || url
+  };
+}
+
+// Read a response body, stopping as soon as it passes maxBytes. onChunk sees
+// everything received so far and may throw to abort.
+async function readLimited(stream: Readable, maxBytes: number, onChunk?: (received: Buffer[], size: number) => void): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let received = 0;
+
+  try {
+    for await (const chunk of stream) {
+      received += chunk.length;
+      if (received > maxBytes) {
+        throw new PDFDownloadError(`Response is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`, 413);
+      }
+      chunks.push(chunk);
+      onChunk?.(chunks, received);
+    }
+  } catch (error) {
+    stream.destroy();
+    if (error instanceof PDFDownloadError) throw error;
+    throw new PDFDownloadError(`Failed to download: ${error instanceof Error ? error.message : 'Unknown error'}`, 502);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+// Download a PDF into memory, rejecting anything that is too large or is not
+// a PDF
+export async function downloadPdfSafely(url: string, maxBytes: number = MAX_DOWNLOAD_BYTES): Promise<Buffer> {
+  const { stream, contentType } = await openSafeStream(url, 'application/pdf,application/octet-stream;q=0.9,*/*;q=0.1', maxBytes);
+
+  if (contentType && !ALLOWED_CONTENT_TYPES.includes(contentType)) {
+    stream.destroy();
+    throw new PDFDownloadError(`URL did not return a PDF (content type ${contentType})`, 415, contentType);
+  }
+
+  let checkedMagic = false;
+  const pdfBuffer = await readLimited(stream, maxBytes, (chunks, received) => {
+    // Check the magic bytes as soon as the first kilobyte is in
+    if (!checkedMagic && received >= 1024) {
+      checkedMagic = true;
+      if (!looksLikePdf(Buffer.concat(chunks))) {
+        throw new PDFDownloadError('URL did not return a PDF', 415, contentType);
+      }
+    }
+  });
+
+  if (!looksLikePdf(pdfBuffer)) {
+    throw new PDFDownloadError('URL did not return a PDF', 415, contentType);
+  }
+
+  return pdfBuffer;
+}
+
+// Fetch an HTML page (e.g. a landing page to look for PDF links in) under
+// the same restrictions as PDF downloads
+export async function fetchHtmlSafely(url: string, maxBytes: number = MAX_HTML_BYTES): Promise<{ html: string; finalUrl: string }> {
+  const { stream, contentType, finalUrl } = await openSafeStream(url, 'text/html,application/xhtml+xml;q=0.9', maxBytes);
+
+  if (contentType && contentType !== 'text/html' && contentType !== 'application/xhtml+xml') {
+    stream.destroy();
+    throw new PDFDownloadError(`URL did not return an HTML page (content type ${contentType})`, 415, contentType);
+  }
+
+  const body = await readLimited(stream, maxBytes);
+  return { html: body.toString('utf-8'), finalUrl };
+}
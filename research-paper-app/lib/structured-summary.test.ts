@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { parseListItems, parseStructuredSummary, StructuredSummaryError } from '@/lib/structured-summary';
+
+describe('parseListItems', () => {
+  it('reads bulleted and numbered lines', () => {
+    expect(parseListItems('- **BERT** fine-tuning\n2) Distillation\n(3) Pruning\nNot an item')).toEqual([
+      'BERT fine-tuning',
+      'Distillation',
+      'Pruning'
+    ]);
+  });
+});
+
+describe('parseStructuredSummary', () => {
+  it('reads JSON wrapped in a code fence and commentary', () => {
+    const text = 'Here is the summary:\n```json\n{"researchQuestion": "Does attention suffice?", "methods": ["Transformer"], "datasets": [], "keyFindings": ["State of the art BLEU"], "limitations": [], "futureWork": []}\n```\nLet me know if you need more.';
+
+    expect(parseStructuredSummary(text)).toEqual({
+      researchQuestion: 'Does attention suffice?',
+      methods: ['Transformer'],
+      datasets: [],
+      keyFindings: ['State of the art BLEU'],
+      limitations: [],
+      futureWork: []
+    });
+  });
+
+  it('repairs trailing commas, smart quotes and unquoted keys', () => {
+    const text = '{researchQuestion: “Can small models reason?”, keyFindings: ["Yes, with distillation",], methods: [],}';
+    const summary = parseStructuredSummary(text);
+
+    expect(summary.researchQuestion).toBe('Can small models reason?');
+    expect(summary.keyFindings).toEqual(['Yes, with distillation']);
+  });
+
+  it('leaves key-like text inside string values alone', () => {
+    const text = '{researchQuestion: "How well does it classify?", keyFindings: ["Strong results, accuracy: 90%", "Robust {under, shift: 5%}"],}';
+
+    expect(parseStructuredSummary(text).keyFindings).toEqual([
+      'Strong results, accuracy: 90%',
+      'Robust {under, shift: 5%}'
+    ]);
+  });
+
+  it('splits a numbered-list string into items', () => {
+    const summary = parseStructuredSummary(JSON.stringify({
+      researchQuestion: 'What limits retrieval?',
+      keyFindings: '1. Recall drops on long queries\n2. Reranking recovers most of it',
+      limitations: 'Not stated'
+    }));
+
+    expect(summary.keyFindings).toEqual(['Recall drops on long queries', 'Reranking recovers most of it']);
+    expect(summary.limitations).toEqual([]);
+  });
+
+  it('maps aliased keys onto the schema', () => {
+    const summary = parseStructuredSummary(JSON.stringify({
+      objective: 'Measure bias in embeddings',
+      Methodology: ['WEAT'],
+      'key findings': ['Bias persists after debiasing'],
+      future_directions: ['Multilingual audits']
+    }));
+
+    expect(summary).toEqual({
+      researchQuestion: 'Measure bias in embeddings',
+      methods: ['WEAT'],
+      datasets: [],
+      keyFindings: ['Bias persists after debiasing'],
+      limitations: [],
+      futureWork: ['Multilingual audits']
+    });
+  });
+
+  it('fails without a research question or key findings', () => {
+    expect(() => parseStructuredSummary('{"methods": ["Survey"]}')).toThrow(StructuredSummaryError);
+    expect(() => parseStructuredSummary('{"methods": ["Survey"]}')).toThrow('missing both the research question and key findings');
+  });
+
+  it('fails without a JSON object', () => {
+    expect(() => parseStructuredSummary('I could not summarise this paper.')).toThrow('does not contain a JSON object');
+  });
+});
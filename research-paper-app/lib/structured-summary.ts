@@ -0,0 +1,150 @@
+import type { StructuredSummary } from '@/types/paper';
+
+// Parsing and validation of model output for structured paper summaries.
+// Models often wrap JSON in code fences, add commentary, leave trailing
+// commas or return a string where a list was asked for; parseStructuredSummary
+// repairs those cases and only fails when no usable summary is present.
+
+export const STRUCTURED_SUMMARY_SCHEMA = `{
+  "researchQuestion": string,   // the main question or objective, one or two sentences
+  "methods": string[],          // methods, models or experimental designs used
+  "datasets": string[],         // datasets, corpora or study populations; [] if none
+  "keyFindings": string[],      // the main results, most important first
+  "limitations": string[],      // limitations stated or evident; [] if none
+  "futureWork": string[]        // directions the authors suggest; [] if none
+}`;
+
+const LIST_FIELDS = ['methods', 'datasets', 'keyFindings', 'limitations', 'futureWork'] as const;
+
+// Alternative key spellings models produce instead of the schema's camelCase
+const FIELD_ALIASES: Record<string, keyof StructuredSummary> = {
+  research_question: 'researchQuestion',
+  researchquestion: 'researchQuestion',
+  objective: 'researchQuestion',
+  methodology: 'methods',
+  method: 'methods',
+  data: 'datasets',
+  dataset: 'datasets',
+  key_findings: 'keyFindings',
+  keyfindings: 'keyFindings',
+  findings: 'keyFindings',
+  results: 'keyFindings',
+  limitation: 'limitations',
+  future_work: 'futureWork',
+  futurework: 'futureWork',
+  future_directions: 'futureWork'
+};
+
+export class StructuredSummaryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StructuredSummaryError';
+  }
+}
+
+// Pull list items out of free text, whether the model used bullets
+// ('-', '*', '•') or numbering ('1.', '2)', '(3)')
+export function parseListItems(text: string): string[] {
+  const items: string[] = [];
+
+  for (const line of text.split('\n')) {
+    const match = line.match(/^\s*(?:[-*•]|\(?\d{1,2}[.)])\s+(.+)$/);
+    if (match) {
+      const item = match[1].replace(/\*\*/g, '').trim();
+      if (item) items.push(item);
+    }
+  }
+
+  return items;
+}
+
+function extractJsonObject(text: string): string | null {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  return start !== -1 && end > start ? unfenced.slice(start, end + 1) : null;
+}
+
+// Apply a repair to the parts of the JSON outside string literals, so text
+// like "results, accuracy: 90%" inside a value is left alone
+function outsideStrings(json: string, repair: (part: string) => string): string {
+  return json.replace(/("(?:[^"\\]|\\.)*")|[^"]+/g, (part, quoted) => quoted ? part : repair(part));
+}
+
+function repairJson(json: string): string {
+  // Smart quotes first, since models use them as string delimiters too
+  return outsideStrings(json.replace(/[“”]/g, '"'), part => part
+    // Trailing commas before a closing bracket
+    .replace(/,\s*([}\]])/g, '$1')
+    // Unquoted keys
+    .replace(/([{,]\s*)([A-Za-z_][A-Za-z0-9_]*)\s*:/g, '$1"$2":'));
+}
+
+function toText(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return '';
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(toText).filter(Boolean);
+  }
+
+  const text = toText(value);
+  if (!text || /^(none|n\/a|not (stated|mentioned|reported))\.?$/i.test(text)) {
+    return [];
+  }
+
+  const items = parseListItems(text);
+  return items.length > 0 ? items : [text];
+}
+
+function normalizeKey(key: string): keyof StructuredSummary | null {
+  if ((['researchQuestion', ...LIST_FIELDS] as string[]).includes(key)) {
+    return key as keyof StructuredSummary;
+  }
+  return FIELD_ALIASES[key.toLowerCase().replace(/[\s-]/g, '_')] || FIELD_ALIASES[key.toLowerCase()] || null;
+}
+
+export function parseStructuredSummary(text: string): StructuredSummary {
+  const json = extractJsonObject(text);
+  if (!json) {
+    throw new StructuredSummaryError('Model output does not contain a JSON object');
+  }
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    try {
+      raw = JSON.parse(repairJson(json));
+    } catch (error) {
+      throw new StructuredSummaryError(`Model output is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const fields: Partial<Record<keyof StructuredSummary, unknown>> = {};
+  for (const [key, value] of Object.entries(raw || {})) {
+    const field = normalizeKey(key);
+    if (field && fields[field] === undefined) {
+      fields[field] = value;
+    }
+  }
+
+  const rawQuestion = fields.researchQuestion;
+  const summary: StructuredSummary = {
+    researchQuestion: Array.isArray(rawQuestion) ? toList(rawQuestion).join(' ') : toText(rawQuestion),
+    methods: toList(fields.methods),
+    datasets: toList(fields.datasets),
+    keyFindings: toList(fields.keyFindings),
+    limitations: toList(fields.limitations),
+    futureWork: toList(fields.futureWork)
+  };
+
+  if (!summary.researchQuestion && summary.keyFindings.length === 0) {
+    throw new StructuredSummaryError('Summary is missing both the research question and key findings');
+  }
+
+  return summary;
+}
@@ -1,5 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
-import type { Paper, SearchCacheEntry, Collection } from '@/types/paper';
+import type { Paper, SearchCacheEntry, Collection, ChatSession, ChatMessage, PaperSummaryEntry, IngestionJob, IngestionJobStatus } from '@/types/paper';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -44,6 +44,8 @@ export async function getCachedSearch(queryHash: string): Promise<SearchCacheEnt
     totalRequested: data.total_requested,
     successfulCount: data.successful_count,
     rateLimitedCount: data.rate_limited_count,
+    nextCursor: data.next_cursor ?? null,
+    totalCount: data.total_count ?? undefined,
     updatedAt: data.updated_at,
     expiresAt: data.expires_at
   };
@@ -57,6 +59,8 @@ export async function cacheSearchResult(entry: Omit<SearchCacheEntry, 'id'> & {
     total_requested: entry.totalRequested,
     successful_count: entry.successfulCount,
     rate_limited_count: entry.rateLimitedCount,
+    next_cursor: entry.nextCursor ?? null,
+    total_count: entry.totalCount ?? null,
     updated_at: entry.updatedAt,
     expires_at: entry.expiresAt
   });
@@ -367,3 +371,358 @@ export async function removePaperFromCollection(collectionId: string, paperId: s
 
   return true;
 }
+
+// Chat session functions
+function mapChatMessage(data: any): ChatMessage {
+  return {
+    id: data.id,
+    role: data.role,
+    content: data.content,
+    timestamp: data.created_at,
+    passages: data.passages || undefined,
+    unsupportedCitations: data.unsupported_citations || undefined
+  };
+}
+
+function mapChatSession(data: any, messages: ChatMessage[] = []): ChatSession {
+  return {
+    id: data.id,
+    paperId: data.paper_id,
+    collectionId: data.collection_id,
+    title: data.title,
+    messages,
+    createdAt: data.created_at,
+    updatedAt: data.updated_at
+  };
+}
+
+export async function createChatSession(session: { paperId?: string; collectionId?: string; title: string }): Promise<ChatSession> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .insert({
+      paper_id: session.paperId || null,
+      collection_id: session.collectionId || null,
+      title: session.title,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating chat session:', error);
+    throw new Error('Failed to create chat session');
+  }
+
+  return mapChatSession(data);
+}
+
+// Sessions for a paper or collection, most recently active first (without messages)
+export async function getChatSessions(owner: { paperId?: string; collectionId?: string }): Promise<ChatSession[]> {
+  let query = supabase
+    .from('chat_sessions')
+    .select('*')
+    .order('updated_at', { ascending: false });
+
+  if (owner.paperId) query = query.eq('paper_id', owner.paperId);
+  if (owner.collectionId) query = query.eq('collection_id', owner.collectionId);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching chat sessions:', error);
+    return [];
+  }
+
+  return data.map((session: any) => mapChatSession(session));
+}
+
+export async function getChatSession(sessionId: string): Promise<ChatSession | null> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('*, chat_messages (*)')
+    .eq('id', sessionId)
+    .single();
+
+  if (error || !data) return null;
+
+  const messages = (data.chat_messages || [])
+    .sort((a: any, b: any) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .map(mapChatMessage);
+
+  return mapChatSession(data, messages);
+}
+
+export async function renameChatSession(sessionId: string, title: string): Promise<ChatSession | null> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .update({ title, updated_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error('Error renaming chat session:', error);
+    return null;
+  }
+
+  return mapChatSession(data);
+}
+
+export async function deleteChatSession(sessionId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('chat_sessions')
+    .delete()
+    .eq('id', sessionId);
+
+  if (error) {
+    console.error('Error deleting chat session:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function addChatMessage(sessionId: string, message: Omit<ChatMessage, 'id' | 'timestamp'>): Promise<ChatMessage | null> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .insert({
+      session_id: sessionId,
+      role: message.role,
+      content: message.content,
+      passages: message.passages || null,
+      unsupported_citations: message.unsupportedCitations || null,
+      created_at: new Date().toISOString()
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving chat message:', error);
+    return null;
+  }
+
+  // Keep the session at the top of the list
+  await supabase
+    .from('chat_sessions')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', sessionId);
+
+  return mapChatMessage(data);
+}
+
+// Persist one question/answer turn
+export async function saveChatExchange(
+  sessionId: string,
+  question: string,
+  answer: Omit<ChatMessage, 'id' | 'timestamp' | 'role'>
+): Promise<void> {
+  await addChatMessage(sessionId, { role: 'user', content: question });
+  await addChatMessage(sessionId, { role: 'assistant', ...answer });
+}
+
+// Structured summary cache, one row per paper
+export async function getCachedSummary(paperId: string): Promise<PaperSummaryEntry | null> {
+  const { data, error } = await supabase
+    .from('paper_summaries')
+    .select('*')
+    .eq('paper_id', paperId)
+    .single();
+
+  if (error || !data) return null;
+
+  return {
+    paperId: data.paper_id,
+    summary: data.summary,
+    source: data.source,
+    model: data.model,
+    createdAt: data.created_at
+  };
+}
+
+export async function cacheSummary(entry: PaperSummaryEntry): Promise<void> {
+  const { error } = await supabase.from('paper_summaries').upsert({
+    paper_id: entry.paperId,
+    summary: entry.summary,
+    source: entry.source,
+    model: entry.model,
+    created_at: entry.createdAt
+  });
+
+  if (error) throw error;
+}
+
+// Ingestion job queue
+function mapIngestionJob(data: any): IngestionJob {
+  return {
+    id: data.id,
+    paperId: data.paper_id,
+    collectionId: data.collection_id,
+    paper: data.paper,
+    status: data.status,
+    attempts: data.attempts,
+    maxAttempts: data.max_attempts,
+    error: data.error,
+    nextAttemptAt: data.next_attempt_at,
+    startedAt: data.started_at,
+    finishedAt: data.finished_at,
+    createdAt: data.created_at,
+    updatedAt: data.updated_at
+  };
+}
+
+export async function createIngestionJob(job: { paper: Paper; collectionId?: string; maxAttempts: number }): Promise<IngestionJob> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .insert({
+      paper_id: job.paper.paperId,
+      collection_id: job.collectionId || null,
+      paper: job.paper,
+      status: 'pending',
+      attempts: 0,
+      max_attempts: job.maxAttempts,
+      next_attempt_at: now,
+      created_at: now,
+      updated_at: now
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating ingestion job:', error);
+    throw new Error('Failed to create ingestion job');
+  }
+
+  return mapIngestionJob(data);
+}
+
+// Jobs for the given papers, newest first
+export async function getIngestionJobs(filter: { paperIds?: string[]; statuses?: IngestionJobStatus[] }): Promise<IngestionJob[]> {
+  let query = supabase
+    .from('ingestion_jobs')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (filter.paperIds) query = query.in('paper_id', filter.paperIds);
+  if (filter.statuses) query = query.in('status', filter.statuses);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching ingestion jobs:', error);
+    throw new Error('Failed to fetch ingestion jobs');
+  }
+
+  return data.map(mapIngestionJob);
+}
+
+export async function getIngestionJob(jobId: string): Promise<IngestionJob | null> {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+
+  if (error || !data) return null;
+  return mapIngestionJob(data);
+}
+
+// Pending jobs whose retry delay has passed, oldest first
+export async function getRunnableIngestionJobs(limit: number): Promise<IngestionJob[]> {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching runnable ingestion jobs:', error);
+    throw new Error('Failed to fetch runnable ingestion jobs');
+  }
+
+  return data.map(mapIngestionJob);
+}
+
+// Move a pending job to running. The update only matches while the job is
+// still pending with the same attempt count, so when several workers race for
+// a job exactly one of them gets it back.
+export async function claimIngestionJob(job: IngestionJob): Promise<IngestionJob | null> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .update({
+      status: 'running',
+      attempts: job.attempts + 1,
+      started_at: now,
+      finished_at: null,
+      updated_at: now
+    })
+    .eq('id', job.id)
+    .eq('status', 'pending')
+    .eq('attempts', job.attempts)
+    .select();
+
+  if (error) {
+    console.error('Error claiming ingestion job:', error);
+    return null;
+  }
+
+  return data && data.length > 0 ? mapIngestionJob(data[0]) : null;
+}
+
+export async function updateIngestionJob(
+  jobId: string,
+  update: Partial<Pick<IngestionJob, 'status' | 'attempts' | 'error' | 'nextAttemptAt' | 'finishedAt'>>
+): Promise<void> {
+  const row: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (update.status !== undefined) row.status = update.status;
+  if (update.attempts !== undefined) row.attempts = update.attempts;
+  if (update.error !== undefined) row.error = update.error;
+  if (update.nextAttemptAt !== undefined) row.next_attempt_at = update.nextAttemptAt;
+  if (update.finishedAt !== undefined) row.finished_at = update.finishedAt;
+
+  const { error } = await supabase
+    .from('ingestion_jobs')
+    .update(row)
+    .eq('id', jobId);
+
+  if (error) {
+    console.error('Error updating ingestion job:', error);
+    throw new Error('Failed to update ingestion job');
+  }
+}
+
+// Mark a running job as still being worked on
+export async function touchIngestionJob(jobId: string): Promise<void> {
+  const { error } = await supabase
+    .from('ingestion_jobs')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'running');
+
+  if (error) {
+    console.error('Error touching ingestion job:', error);
+    throw new Error('Failed to touch ingestion job');
+  }
+}
+
+// Jobs left running by a worker that died (no update since the given time)
+// are returned to the queue
+export async function requeueStaleIngestionJobs(updatedBefore: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .update({ status: 'pending', updated_at: new Date().toISOString() })
+    .eq('status', 'running')
+    .lt('updated_at', updatedBefore)
+    .select('id');
+
+  if (error) {
+    console.error('Error requeueing stale ingestion jobs:', error);
+    return 0;
+  }
+
+  return data?.length || 0;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { bm25Rank, makeSnippet, reciprocalRankFusion, stem, toFtsQuery } from '@/lib/text-search';
+
+function highlighted(snippet: { text: string; highlights: Array<[number, number]> }): string[] {
+  return snippet.highlights.map(([start, end]) => snippet.text.slice(start, end));
+}
+
+describe('stem', () => {
+  it.each([
+    ['caresses', 'caress'],
+    ['ponies', 'poni'],
+    ['cats', 'cat'],
+    ['agreed', 'agre'],
+    ['hopping', 'hop'],
+    ['relational', 'relat'],
+    ['networks', 'network'],
+    ['attention', 'attent'],
+    ['learning', 'learn']
+  ])('stems %s to %s', (word, expected) => {
+    expect(stem(word)).toBe(expected);
+  });
+
+  it('gives inflected forms the same stem', () => {
+    expect(stem('transformers')).toBe(stem('transformer'));
+    expect(stem('trained')).toBe(stem('training'));
+  });
+});
+
+describe('toFtsQuery', () => {
+  it('quotes each distinct term and ORs them', () => {
+    expect(toFtsQuery('graph AND graph near networks')).toBe('"graph" OR "near" OR "networks"');
+  });
+
+  it('is null without searchable terms', () => {
+    expect(toFtsQuery('the of and')).toBeNull();
+  });
+});
+
+describe('bm25Rank', () => {
+  const documents = [
+    { key: 'a', text: 'Attention mechanisms for neural machine translation.' },
+    { key: 'b', text: 'Convolutional networks for image classification.' },
+    { key: 'c', text: 'Self-attention and attention heads: attention is all you need.' }
+  ];
+
+  it('ranks documents by matching terms, stemmed', () => {
+    expect(bm25Rank(documents, 'attending attention', 10).map(result => result.key)).toEqual(['c', 'a']);
+  });
+
+  it('leaves out documents without a match and respects the limit', () => {
+    expect(bm25Rank(documents, 'classification', 10).map(result => result.key)).toEqual(['b']);
+    expect(bm25Rank(documents, 'attention', 1)).toHaveLength(1);
+  });
+
+  it('returns nothing for a stopword-only query', () => {
+    expect(bm25Rank(documents, 'the and', 10)).toEqual([]);
+  });
+});
+
+describe('makeSnippet', () => {
+  it('highlights matches after line breaks', () => {
+    const snippet = makeSnippet('Intro text.\n\nWe study attention here.', 'attention');
+    expect(snippet.text).toBe('Intro text. We study attention here.');
+    expect(highlighted(snippet)).toEqual(['attention']);
+  });
+
+  it('highlights every stemmed match in multi-line text', () => {
+    const snippet = makeSnippet('Transformers\n  rely on\tself-attention.\r\nEach transformer layer attends twice.', 'transformer attention');
+    expect(highlighted(snippet)).toEqual(['Transformers', 'attention', 'transformer']);
+  });
+
+  it('windows long text around the first match', () => {
+    const text = `${'Lorem ipsum dolor sit amet.\n'.repeat(20)}The retrieval step is described here.\n${'Consectetur adipiscing elit.\n'.repeat(20)}`;
+    const snippet = makeSnippet(text, 'retrieval', 100);
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    expect(snippet.text.length).toBeLessThanOrEqual(102);
+    expect(highlighted(snippet)).toEqual(['retrieval']);
+  });
+
+  it('returns the start of the text without matches', () => {
+    expect(makeSnippet('No match\nhere.', 'attention')).toEqual({ text: 'No match here.', highlights: [] });
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('favours keys ranked high in several lists', () => {
+    const scores = reciprocalRankFusion([['a', 'b', 'c'], ['b', 'c', 'a']], 60);
+    const order = Array.from(scores.entries()).sort((x, y) => y[1] - x[1]).map(([key]) => key);
+
+    expect(order).toEqual(['b', 'a', 'c']);
+    expect(scores.get('b')).toBeCloseTo(1 / 62 + 1 / 61);
+  });
+});
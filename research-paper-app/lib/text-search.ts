@@ -0,0 +1,239 @@
+import type { PassageChunk, TextField, VectorStoreEntry } from '@/lib/vector-store';
+import { tokenize } from '@/lib/embeddings';
+import { figureText } from '@/lib/caption-extractor';
+
+// Keyword side of library search: Porter stemming (the same algorithm as
+// SQLite's FTS5 "porter" tokenizer, so both backends agree on what matches),
+// BM25 scoring for backends without a full-text index, snippets with the
+// matched words marked, and reciprocal rank fusion for combining keyword and
+// vector rankings.
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const RRF_K = 60;
+const SNIPPET_LENGTH = 240;
+
+// --- Porter stemmer (M. F. Porter, 1980) ---
+
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: 'ate', tional: 'tion', enci: 'ence', anci: 'ance', izer: 'ize', bli: 'ble', alli: 'al',
+  entli: 'ent', eli: 'e', ousli: 'ous', ization: 'ize', ation: 'ate', ator: 'ate', alism: 'al',
+  iveness: 'ive', fulness: 'ful', ousness: 'ous', aliti: 'al', iviti: 'ive', biliti: 'ble', logi: 'log'
+};
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: 'ic', ative: '', alize: 'al', iciti: 'ic', ical: 'ic', ful: '', ness: ''
+};
+
+const CONSONANT = '[^aeiou]';
+const VOWEL = '[aeiouy]';
+const CONSONANTS = CONSONANT + '[^aeiouy]*';
+const VOWELS = VOWEL + '[aeiou]*';
+const MEASURE_GT_0 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}`);
+const MEASURE_EQ_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}(${VOWELS})?$`);
+const MEASURE_GT_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}${VOWELS}${CONSONANTS}`);
+const HAS_VOWEL = new RegExp(`^(${CONSONANTS})?${VOWEL}`);
+const ENDS_CVC = new RegExp(`^${CONSONANTS}${VOWEL}[^aeiouwxy]$`);
+
+export function stem(word: string): string {
+  if (word.length < 3) return word;
+
+  let w = word;
+  const startsWithY = w[0] === 'y';
+  if (startsWithY) w = 'Y' + w.slice(1);
+
+  // Step 1a
+  if (/(ss|i)es$/.test(w)) w = w.slice(0, -2);
+  else if (/[^s]s$/.test(w)) w = w.slice(0, -1);
+
+  // Step 1b
+  let match: RegExpMatchArray | null;
+  if ((match = w.match(/^(.+?)eed$/))) {
+    if (MEASURE_GT_0.test(match[1])) w = w.slice(0, -1);
+  } else if ((match = w.match(/^(.+?)(ed|ing)$/)) && HAS_VOWEL.test(match[1])) {
+    w = match[1];
+    if (/(at|bl|iz)$/.test(w)) w += 'e';
+    else if (/([^aeiouylsz])\1$/.test(w)) w = w.slice(0, -1);
+    else if (ENDS_CVC.test(w)) w += 'e';
+  }
+
+  // Step 1c
+  if ((match = w.match(/^(.+?)y$/)) && HAS_VOWEL.test(match[1])) {
+    w = match[1] + 'i';
+  }
+
+  // Step 2
+  if ((match = w.match(/^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/))
+    && MEASURE_GT_0.test(match[1])) {
+    w = match[1] + STEP2_SUFFIXES[match[2]];
+  }
+
+  // Step 3
+  if ((match = w.match(/^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/)) && MEASURE_GT_0.test(match[1])) {
+    w = match[1] + STEP3_SUFFIXES[match[2]];
+  }
+
+  // Step 4
+  if ((match = w.match(/^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/))) {
+    if (MEASURE_GT_1.test(match[1])) w = match[1];
+  } else if ((match = w.match(/^(.+?)(s|t)(ion)$/)) && MEASURE_GT_1.test(match[1] + match[2])) {
+    w = match[1] + match[2];
+  }
+
+  // Step 5
+  if ((match = w.match(/^(.+?)e$/))) {
+    const base = match[1];
+    if (MEASURE_GT_1.test(base) || (MEASURE_EQ_1.test(base) && !ENDS_CVC.test(base))) w = base;
+  }
+  if (/ll$/.test(w) && MEASURE_GT_1.test(w)) w = w.slice(0, -1);
+
+  return startsWithY ? 'y' + w.slice(1) : w;
+}
+
+// Stemmed terms of a text, without stopwords
+export function analyze(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+// FTS5 MATCH expression: any of the query's terms, each quoted so words
+// like "and" or "near" are never read as operators. Stemming is left to
+// the porter tokenizer. Null when nothing searchable is left.
+export function toFtsQuery(query: string): string | null {
+  const terms = Array.from(new Set(tokenize(query)));
+  return terms.length > 0 ? terms.map(term => `"${term}"`).join(' OR ') : null;
+}
+
+// --- Indexed text ---
+
+export interface IndexedText {
+  field: TextField;
+  chunkIndex?: number;
+  text: string;
+}
+
+// Text of a chunk: its slice of fullText, or the caption and content of the
+// table or figure it stands for. Null when the entry no longer has it.
+export function passageText(entry: Pick<VectorStoreEntry, 'fullText' | 'figures'>, chunk: Pick<PassageChunk, 'start' | 'end' | 'figureIndex'>): string | null {
+  if (chunk.figureIndex !== undefined) {
+    const figure = entry.figures?.[chunk.figureIndex];
+    return figure ? figureText(figure) : null;
+  }
+  return entry.fullText && chunk.start !== null && chunk.end !== null ? entry.fullText.slice(chunk.start, chunk.end) : null;
+}
+
+// What the full-text index holds for a paper: its title, abstract and
+// every chunk
+export function indexableTexts(entry: Pick<VectorStoreEntry, 'title' | 'abstract' | 'fullText' | 'chunks' | 'figures'>): IndexedText[] {
+  const texts: IndexedText[] = [{ field: 'title', text: entry.title }];
+  if (entry.abstract) texts.push({ field: 'abstract', text: entry.abstract });
+
+  for (const chunk of entry.chunks || []) {
+    const text = passageText(entry, chunk);
+    if (text) texts.push({ field: 'chunk', chunkIndex: chunk.index, text });
+  }
+
+  return texts;
+}
+
+// --- BM25 over documents held in memory ---
+
+export interface TextDocument<T> {
+  key: T;
+  text: string;
+}
+
+export function bm25Rank<T>(documents: TextDocument<T>[], query: string, nResults: number): Array<{ key: T; score: number }> {
+  const queryTerms = Array.from(new Set(analyze(query)));
+  if (queryTerms.length === 0 || documents.length === 0) return [];
+
+  const analyzed = documents.map(document => analyze(document.text));
+  const averageLength = analyzed.reduce((total, terms) => total + terms.length, 0) / analyzed.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const terms of analyzed) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const results: Array<{ key: T; score: number }> = [];
+  analyzed.forEach((terms, i) => {
+    const frequencies = new Map<string, number>();
+    terms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = frequencies.get(term);
+      if (!tf) continue;
+      const df = documentFrequency.get(term)!;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * terms.length / averageLength));
+    }
+    if (score > 0) results.push({ key: documents[i].key, score });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score)
+    .slice(0, nResults);
+}
+
+// --- Snippets ---
+
+export interface Snippet {
+  text: string;
+  // [start, end) character ranges of matched words within text
+  highlights: Array<[number, number]>;
+}
+
+// Window of the text around the first matched word, with every word whose
+// stem matches a query term marked. Whitespace is collapsed first so the
+// highlights line up with the returned text.
+export function makeSnippet(rawText: string, query: string, maxLength: number = SNIPPET_LENGTH): Snippet {
+  const text = rawText.replace(/\s+/g, ' ').trim();
+  const queryTerms = new Set(analyze(query));
+  const words = Array.from(text.matchAll(/[A-Za-z0-9]+/g));
+  const matched = words.filter(word => queryTerms.has(stem(word[0].toLowerCase())));
+
+  let start = 0;
+  if (matched.length > 0 && text.length > maxLength) {
+    // Some context before the first match, starting at a word boundary
+    start = Math.max(0, matched[0].index! - Math.floor(maxLength / 4));
+    if (start > 0) {
+      const space = text.indexOf(' ', start);
+      start = space >= 0 && space < matched[0].index! ? space + 1 : start;
+    }
+  }
+
+  let end = Math.min(text.length, start + maxLength);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const highlights = matched
+    .filter(word => word.index! >= start && word.index! + word[0].length <= end)
+    .map(word => [word.index! - start + prefix.length, word.index! - start + prefix.length + word[0].length] as [number, number]);
+
+  return {
+    text: prefix + text.slice(start, end) + suffix,
+    highlights
+  };
+}
+
+// --- Rank fusion ---
+
+// Reciprocal rank fusion: each list adds 1 / (k + rank) for every key it
+// ranks, so keys near the top of several lists come first without having to
+// compare BM25 and cosine scores directly
+export function reciprocalRankFusion(rankings: string[][], k: number = RRF_K): Map<string, number> {
+  const scores = new Map<string, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((key, rank) => {
+      scores.set(key, (scores.get(key) || 0) + 1 / (k + rank + 1));
+    });
+  }
+
+  return scores;
+}
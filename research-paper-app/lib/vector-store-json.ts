@@ -0,0 +1,149 @@
+import fs from 'fs';
+import path from 'path';
+import type {
+  ChunkMatch,
+  EmbeddingSpace,
+  PassageSearchOptions,
+  TextMatch,
+  VectorStoreBackend,
+  VectorStoreEntry
+} from '@/lib/vector-store';
+import { cosineSimilarity } from '@/lib/embeddings';
+import { writeFileAtomic } from '@/lib/pdf-store';
+import { bm25Rank, indexableTexts } from '@/lib/text-search';
+
+export const DEFAULT_JSON_STORE_PATH = path.join(process.cwd(), 'data', 'vector-store.json');
+
+// The original store: every entry in one JSON file, read when the backend is
+// created and rewritten on every change. Kept for setups without SQLite and
+// as the source of the one-time migration.
+export class JsonVectorBackend implements VectorStoreBackend {
+  readonly name = 'json';
+  private dataPath: string;
+  private data: Map<string, VectorStoreEntry> = new Map();
+
+  constructor(dataPath: string = DEFAULT_JSON_STORE_PATH) {
+    this.dataPath = dataPath;
+    this.loadData();
+  }
+
+  private loadData() {
+    try {
+      // Ensure data directory exists
+      const dataDir = path.dirname(this.dataPath);
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+
+      // Load existing data
+      if (fs.existsSync(this.dataPath)) {
+        const fileContent = fs.readFileSync(this.dataPath, 'utf-8');
+        const entries = JSON.parse(fileContent);
+        this.data = new Map(Object.entries(entries));
+      }
+    } catch (error) {
+      console.error('Error loading vector store data:', error);
+      this.data = new Map();
+    }
+  }
+
+  private saveData() {
+    try {
+      console.log(`💾 Saving vector store data to ${this.dataPath}...`);
+      writeFileAtomic(this.dataPath, JSON.stringify(Object.fromEntries(this.data)));
+      console.log(`✅ Vector store data saved successfully. Total papers: ${this.data.size}`);
+    } catch (error) {
+      console.error('❌ Error saving vector store data:', error);
+    }
+  }
+
+  async getPaper(paperId: string): Promise<VectorStoreEntry | null> {
+    return this.data.get(paperId) || null;
+  }
+
+  async upsertPaper(entry: VectorStoreEntry): Promise<void> {
+    this.data.set(entry.paperId, entry);
+    this.saveData();
+  }
+
+  async updatePaper(paperId: string, updates: Partial<Omit<VectorStoreEntry, 'paperId' | 'timestamp'>>): Promise<VectorStoreEntry | null> {
+    const existing = this.data.get(paperId);
+    if (!existing) return null;
+
+    const entry: VectorStoreEntry = { ...existing, ...updates };
+    this.data.set(paperId, entry);
+    this.saveData();
+    return entry;
+  }
+
+  async deletePaper(paperId: string): Promise<void> {
+    this.data.delete(paperId);
+    this.saveData();
+  }
+
+  async getAllPapers(): Promise<VectorStoreEntry[]> {
+    return Array.from(this.data.values());
+  }
+
+  async getPaperCount(): Promise<number> {
+    return this.data.size;
+  }
+
+  private searchable(paperIds?: string[]): VectorStoreEntry[] {
+    const wanted = paperIds ? new Set(paperIds) : null;
+    return Array.from(this.data.values()).filter(entry =>
+      (!wanted || wanted.has(entry.paperId))
+      && !!entry.chunks?.length && !!entry.fullText && !!entry.embeddingProvider && !!entry.embeddingDimension
+    );
+  }
+
+  async getEmbeddingSpaces(paperIds?: string[]): Promise<EmbeddingSpace[]> {
+    const spaces = new Map<string, EmbeddingSpace>();
+
+    for (const entry of this.searchable(paperIds)) {
+      const key = `${entry.embeddingProvider}|${entry.embeddingDimension}`;
+      const space = spaces.get(key) || { provider: entry.embeddingProvider!, dimension: entry.embeddingDimension!, paperCount: 0 };
+      space.paperCount++;
+      spaces.set(key, space);
+    }
+
+    return Array.from(spaces.values());
+  }
+
+  // Exact cosine scan over every chunk in the space
+  async searchChunks(space: EmbeddingSpace, queryEmbedding: number[], nResults: number, options: PassageSearchOptions = {}): Promise<ChunkMatch[]> {
+    const matches: ChunkMatch[] = [];
+
+    for (const entry of this.searchable(options.paperIds)) {
+      if (entry.embeddingProvider !== space.provider || entry.embeddingDimension !== space.dimension) continue;
+
+      for (const chunk of entry.chunks!) {
+        const score = cosineSimilarity(queryEmbedding, chunk.embedding);
+        if (options.minScore !== undefined && score < options.minScore) continue;
+        matches.push({ paperId: entry.paperId, chunk, score });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score)
+      .slice(0, nResults);
+  }
+
+  // BM25 computed on the fly; there is no persistent index to keep in sync
+  async searchText(query: string, nResults: number, options: PassageSearchOptions = {}): Promise<TextMatch[]> {
+    const wanted = options.paperIds ? new Set(options.paperIds) : null;
+    const documents = Array.from(this.data.values())
+      .filter(entry => !wanted || wanted.has(entry.paperId))
+      .flatMap(entry => indexableTexts(entry).map(({ field, chunkIndex, text }) => ({
+        key: { paperId: entry.paperId, field, chunkIndex },
+        text
+      })));
+
+    return bm25Rank(documents, query, nResults).map(({ key, score }) => ({
+      paperId: key.paperId,
+      field: key.field,
+      ...(key.chunkIndex !== undefined && { chunkIndex: key.chunkIndex }),
+      score
+    }));
+  }
+}
@@ -0,0 +1,183 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import { migrateJsonStore, SqliteVectorBackend } from '@/lib/vector-store-sqlite';
+import type { VectorStoreEntry } from '@/lib/vector-store';
+
+// Small enough that the LSH buckets are used for the larger space below
+vi.hoisted(() => {
+  process.env.VECTOR_STORE_ANN_MIN_CHUNKS = '40';
+});
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vector-store-sqlite-'));
+let databases = 0;
+
+// A fresh database and a JSON store path that does not exist yet
+function paths() {
+  databases++;
+  return {
+    dbPath: path.join(tempDir, `store-${databases}.db`),
+    jsonPath: path.join(tempDir, `store-${databases}.json`)
+  };
+}
+
+function createBackend(): SqliteVectorBackend {
+  const { dbPath, jsonPath } = paths();
+  return new SqliteVectorBackend(dbPath, jsonPath);
+}
+
+function entry(paperId: string, vectors: number[][], overrides: Partial<VectorStoreEntry> = {}): VectorStoreEntry {
+  return {
+    paperId,
+    title: `Paper ${paperId}`,
+    fullText: 'Attention mechanisms relate positions in a sequence.',
+    embedding: vectors[0],
+    embeddingProvider: 'local-hash',
+    embeddingDimension: vectors[0].length,
+    chunks: vectors.map((embedding, index) => ({ index, start: index * 10, end: index * 10 + 10, embedding })),
+    metadata: { year: 2017 },
+    timestamp: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+function unit(dimension: number, axis: number, noise = 0): number[] {
+  return Array.from({ length: dimension }, (_, i) => (i === axis ? 1 : 0) + noise * Math.sin(i * 7 + axis * 13));
+}
+
+const space = { provider: 'local-hash', dimension: 4, paperCount: 0 };
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('SqliteVectorBackend', () => {
+  it('stores and reads back an entry with its chunks', async () => {
+    const backend = createBackend();
+    const stored = entry('W1', [[1, 0, 0, 0], [0, 1, 0, 0]], {
+      figures: [{ kind: 'table', label: 'Table 1', number: '1', caption: 'Results.', content: null, page: 2 }]
+    });
+    stored.chunks!.push({ index: 2, start: null, end: null, embedding: [0, 0, 1, 0], figureIndex: 0 });
+
+    await backend.upsertPaper(stored);
+
+    expect(await backend.getPaper('W1')).toEqual({ ...stored, abstract: undefined, document: undefined, linkedReferences: undefined });
+    expect(await backend.getPaperCount()).toBe(1);
+    expect(await backend.getPaper('missing')).toBeNull();
+  });
+
+  it('updates only the given fields and replaces chunks when included', async () => {
+    const backend = createBackend();
+    await backend.upsertPaper(entry('W1', [[1, 0, 0, 0], [0, 1, 0, 0]]));
+
+    await backend.updatePaper('W1', { metadata: { year: 2018 } });
+    expect((await backend.getPaper('W1'))?.chunks).toHaveLength(2);
+
+    await backend.updatePaper('W1', { chunks: [{ index: 0, start: 0, end: 5, embedding: [0, 0, 0, 1] }] });
+    const updated = await backend.getPaper('W1');
+    expect(updated?.metadata).toEqual({ year: 2018 });
+    expect(updated?.chunks).toHaveLength(1);
+    expect(await backend.updatePaper('missing', { title: 'x' })).toBeNull();
+  });
+
+  it('searches chunks by cosine similarity within a space and filter', async () => {
+    const backend = createBackend();
+    await backend.upsertPaper(entry('W1', [[1, 0, 0, 0], [0, 1, 0, 0]]));
+    await backend.upsertPaper(entry('W2', [[0.9, 0.1, 0, 0]]));
+    await backend.upsertPaper(entry('W3', [[8, 0, 0, 0, 0, 0, 0, 0]]));
+
+    const matches = await backend.searchChunks(space, [1, 0, 0, 0], 2);
+    expect(matches.map(match => [match.paperId, match.chunk.index])).toEqual([['W1', 0], ['W2', 0]]);
+    expect(matches[0].score).toBeCloseTo(1);
+
+    const filtered = await backend.searchChunks(space, [1, 0, 0, 0], 5, { paperIds: ['W2'], minScore: 0.5 });
+    expect(filtered.map(match => match.paperId)).toEqual(['W2']);
+
+    expect(await backend.getEmbeddingSpaces()).toEqual([
+      { provider: 'local-hash', dimension: 4, paperCount: 2 },
+      { provider: 'local-hash', dimension: 8, paperCount: 1 }
+    ]);
+  });
+
+  it('finds the nearest chunks through the LSH buckets in a large space', async () => {
+    const backend = createBackend();
+    const dimension = 16;
+    // Forty chunks spread over every axis, plus a tight cluster around axis 3
+    for (let paper = 0; paper < 8; paper++) {
+      await backend.upsertPaper(entry(`W${paper}`, Array.from({ length: 5 }, (_, i) => unit(dimension, (paper * 5 + i) % dimension, 0.3))));
+    }
+    await backend.upsertPaper(entry('cluster', Array.from({ length: 8 }, (_, i) => unit(dimension, 3, 0.01 * (i + 1)))));
+
+    const matches = await backend.searchChunks({ ...space, dimension }, unit(dimension, 3), 3);
+
+    expect(matches.map(match => [match.paperId, match.chunk.index])).toEqual([['cluster', 0], ['cluster', 1], ['cluster', 2]]);
+  });
+
+  it('deletes a paper with its chunks and indexed text', async () => {
+    const backend = createBackend();
+    await backend.upsertPaper(entry('W1', [[1, 0, 0, 0]], { title: 'Sparse transformers' }));
+    await backend.upsertPaper(entry('W2', [[0, 1, 0, 0]]));
+
+    expect((await backend.searchText('sparse', 5)).map(match => match.paperId)).toEqual(['W1']);
+
+    await backend.deletePaper('W1');
+
+    expect(await backend.searchText('sparse', 5)).toEqual([]);
+    expect((await backend.searchChunks(space, [1, 0, 0, 0], 5)).map(match => match.paperId)).toEqual(['W2']);
+  });
+
+  it('ranks keyword matches in titles and chunks', async () => {
+    const backend = createBackend();
+    await backend.upsertPaper(entry('W1', [[1, 0, 0, 0]], { title: 'Graph neural networks', fullText: 'Message passing over graphs.' }));
+    await backend.upsertPaper(entry('W2', [[0, 1, 0, 0]], { title: 'Image classification', fullText: 'Convolutional networks.' }));
+
+    const matches = await backend.searchText('graph networks', 5);
+
+    expect(matches[0]).toMatchObject({ paperId: 'W1', field: 'title' });
+    expect(await backend.searchText('graph', 5, { paperIds: ['W2'] })).toEqual([]);
+    expect(await backend.searchText('the of', 5)).toEqual([]);
+  });
+});
+
+describe('migrateJsonStore', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('imports the JSON store once and renames it', async () => {
+    const { dbPath, jsonPath } = paths();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    fs.writeFileSync(jsonPath, JSON.stringify({
+      W1: entry('W1', [[1, 0, 0, 0]]),
+      W2: { ...entry('W2', [[0, 1, 0, 0]]), timestamp: undefined }
+    }));
+
+    const backend = new SqliteVectorBackend(dbPath, jsonPath);
+
+    expect(await backend.getPaperCount()).toBe(2);
+    expect((await backend.getPaper('W2'))?.timestamp).toBeTruthy();
+    expect(fs.existsSync(jsonPath)).toBe(false);
+    expect(fs.existsSync(`${jsonPath}.migrated`)).toBe(true);
+
+    // A JSON file showing up later is not imported again
+    fs.writeFileSync(jsonPath, JSON.stringify({ W3: entry('W3', [[0, 0, 1, 0]]) }));
+    expect(migrateJsonStore(backend, jsonPath)).toBe(0);
+    expect(await backend.getPaperCount()).toBe(2);
+  });
+
+  it('records a failed migration instead of retrying it for every backend', async () => {
+    const { dbPath, jsonPath } = paths();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    fs.writeFileSync(jsonPath, '{ not json');
+
+    const backend = new SqliteVectorBackend(dbPath, jsonPath);
+    new SqliteVectorBackend(dbPath, jsonPath);
+
+    expect(error).toHaveBeenCalledOnce();
+    expect(backend.getMeta('json_migration_error')).toMatch(/JSON/);
+    expect(backend.getMeta('json_migrated_at')).toBeNull();
+    expect(await backend.getPaperCount()).toBe(0);
+    expect(fs.existsSync(jsonPath)).toBe(true);
+  });
+});
@@ -0,0 +1,584 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type {
+  ChunkMatch,
+  EmbeddingSpace,
+  PassageChunk,
+  PassageSearchOptions,
+  TextField,
+  TextMatch,
+  VectorStoreBackend,
+  VectorStoreEntry
+} from '@/lib/vector-store';
+import { cosineSimilarity } from '@/lib/embeddings';
+import { getLshIndex, LSH_LAYOUT } from '@/lib/ann-index';
+import { DEFAULT_JSON_STORE_PATH } from '@/lib/vector-store-json';
+import { indexableTexts, toFtsQuery } from '@/lib/text-search';
+
+// Vector store in a SQLite database. Each paper is one row plus a row per
+// chunk, written in a single transaction, so saving a paper never touches
+// the others and readers never see half a write. Chunk vectors are also
+// filed under LSH buckets (see ann-index.ts) so unfiltered searches over a
+// large library only score likely neighbours. Titles, abstracts and chunk
+// texts go into an FTS5 index for keyword search.
+
+const DEFAULT_DB_PATH = process.env.VECTOR_STORE_PATH || path.join(process.cwd(), 'data', 'vector-store.db');
+// Below this many chunks in a space an exact scan is fast enough and exact
+const ANN_MIN_CHUNKS = parseInt(process.env.VECTOR_STORE_ANN_MIN_CHUNKS || '5000', 10) || 5000;
+// Candidates scored per requested result; fewer means falling back to a scan
+const ANN_MIN_CANDIDATES_PER_RESULT = 4;
+// Bumped when what goes into the full-text index changes
+const TEXT_INDEX_VERSION = '1';
+const TEXT_INDEX_FIELDS: Array<keyof VectorStoreEntry> = ['title', 'abstract', 'fullText', 'chunks', 'figures'];
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS papers (
+    paper_id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    abstract TEXT,
+    full_text TEXT,
+    embedding BLOB NOT NULL,
+    embedding_provider TEXT,
+    embedding_dimension INTEGER,
+    document TEXT,
+    linked_references TEXT,
+    figures TEXT,
+    metadata TEXT NOT NULL,
+    timestamp TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS chunks (
+    id INTEGER PRIMARY KEY,
+    paper_id TEXT NOT NULL REFERENCES papers(paper_id) ON DELETE CASCADE,
+    chunk_index INTEGER NOT NULL,
+    -- Null for a table or figure whose caption is not in full_text
+    start_offset INTEGER,
+    end_offset INTEGER,
+    figure_index INTEGER,
+    space TEXT NOT NULL,
+    embedding BLOB NOT NULL,
+    UNIQUE (paper_id, chunk_index)
+  );
+  CREATE INDEX IF NOT EXISTS chunks_space_idx ON chunks (space, paper_id);
+
+  CREATE TABLE IF NOT EXISTS chunk_buckets (
+    space TEXT NOT NULL,
+    table_no INTEGER NOT NULL,
+    bucket INTEGER NOT NULL,
+    chunk_id INTEGER NOT NULL REFERENCES chunks(id) ON DELETE CASCADE,
+    PRIMARY KEY (space, table_no, bucket, chunk_id)
+  ) WITHOUT ROWID;
+  CREATE INDEX IF NOT EXISTS chunk_buckets_chunk_idx ON chunk_buckets (chunk_id);
+
+  -- One row per indexed title, abstract or chunk; passages_fts holds only
+  -- the tokens (contentless), keyed by the same id
+  CREATE TABLE IF NOT EXISTS passages (
+    id INTEGER PRIMARY KEY,
+    paper_id TEXT NOT NULL REFERENCES papers(paper_id) ON DELETE CASCADE,
+    field TEXT NOT NULL,
+    chunk_index INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS passages_paper_idx ON passages (paper_id);
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS passages_fts USING fts5(
+    text,
+    content = '',
+    contentless_delete = 1,
+    tokenize = 'porter unicode61 remove_diacritics 2'
+  );
+
+  CREATE TRIGGER IF NOT EXISTS passages_fts_delete AFTER DELETE ON passages BEGIN
+    DELETE FROM passages_fts WHERE rowid = old.id;
+  END;
+
+  CREATE TABLE IF NOT EXISTS store_meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+interface PaperRow {
+  paper_id: string;
+  title: string;
+  abstract: string | null;
+  full_text: string | null;
+  embedding: Buffer;
+  embedding_provider: string | null;
+  embedding_dimension: number | null;
+  document: string | null;
+  linked_references: string | null;
+  figures: string | null;
+  metadata: string;
+  timestamp: string;
+}
+
+interface TextMatchRow {
+  paper_id: string;
+  field: TextField;
+  chunk_index: number | null;
+  rank: number;
+}
+
+interface ChunkRow {
+  id: number;
+  paper_id: string;
+  chunk_index: number;
+  start_offset: number | null;
+  end_offset: number | null;
+  figure_index: number | null;
+  embedding: Buffer;
+}
+
+function spaceKey(provider: string, dimension: number): string {
+  return `${provider}|${dimension}`;
+}
+
+// Vectors are stored as float32, plenty for cosine similarity
+function toBlob(vector: number[]): Buffer {
+  return Buffer.from(new Float32Array(vector).buffer);
+}
+
+function fromBlob(blob: Buffer): Float32Array {
+  // Copy, since the blob's offset need not be 4-byte aligned
+  return new Float32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength));
+}
+
+function parseJson<T>(value: string | null): T | undefined {
+  return value ? JSON.parse(value) as T : undefined;
+}
+
+function toChunk(row: ChunkRow): PassageChunk {
+  return {
+    index: row.chunk_index,
+    start: row.start_offset,
+    end: row.end_offset,
+    embedding: Array.from(fromBlob(row.embedding)),
+    ...(row.figure_index !== null && { figureIndex: row.figure_index })
+  };
+}
+
+// One connection per database file and process; better-sqlite3 is
+// synchronous, so requests never interleave inside a transaction
+const connections = new Map<string, Database.Database>();
+
+function openDatabase(dbPath: string): Database.Database {
+  let db = connections.get(dbPath);
+  if (db) return db;
+
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  db = new Database(dbPath);
+  // WAL lets other processes read while one writes
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = NORMAL');
+  db.pragma('busy_timeout = 5000');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+  allowNullChunkOffsets(db);
+
+  connections.set(dbPath, db);
+  return db;
+}
+
+// Chunk offsets used to be NOT NULL. SQLite cannot drop the constraint in
+// place, so older databases get the chunks table rebuilt with the same ids;
+// foreign keys are off meanwhile so the buckets are not cascade-deleted.
+function allowNullChunkOffsets(db: Database.Database) {
+  const columns = db.prepare('PRAGMA table_info(chunks)').all() as Array<{ name: string; notnull: number }>;
+  if (!columns.some(column => column.name === 'start_offset' && column.notnull)) return;
+
+  db.pragma('foreign_keys = OFF');
+  try {
+    db.transaction(() => {
+      db.exec(`
+        CREATE TABLE chunks_rebuilt (
+          id INTEGER PRIMARY KEY,
+          paper_id TEXT NOT NULL REFERENCES papers(paper_id) ON DELETE CASCADE,
+          chunk_index INTEGER NOT NULL,
+          start_offset INTEGER,
+          end_offset INTEGER,
+          figure_index INTEGER,
+          space TEXT NOT NULL,
+          embedding BLOB NOT NULL,
+          UNIQUE (paper_id, chunk_index)
+        );
+        INSERT INTO chunks_rebuilt (id, paper_id, chunk_index, start_offset, end_offset, figure_index, space, embedding)
+          SELECT id, paper_id, chunk_index, start_offset, end_offset, figure_index, space, embedding FROM chunks;
+        DROP TABLE chunks;
+        ALTER TABLE chunks_rebuilt RENAME TO chunks;
+        CREATE INDEX IF NOT EXISTS chunks_space_idx ON chunks (space, paper_id);
+      `);
+    })();
+  } finally {
+    db.pragma('foreign_keys = ON');
+  }
+}
+
+export class SqliteVectorBackend implements VectorStoreBackend {
+  readonly name = 'sqlite';
+  private db: Database.Database;
+
+  constructor(dbPath: string = DEFAULT_DB_PATH, jsonPath: string = DEFAULT_JSON_STORE_PATH) {
+    this.db = openDatabase(dbPath);
+
+    // A failed migration is recorded rather than retried by every backend
+    // constructed after it; delete the json_migration_error row to retry
+    if (!this.getMeta('json_migration_error')) {
+      try {
+        migrateJsonStore(this, jsonPath);
+      } catch (error) {
+        console.error('❌ Error migrating vector store JSON to SQLite, not retrying:', error);
+        this.setMeta('json_migration_error', `${new Date().toISOString()} ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (this.getMeta('lsh_layout') !== LSH_LAYOUT) {
+      this.rebuildBuckets();
+    }
+    if (this.getMeta('text_index') !== TEXT_INDEX_VERSION) {
+      this.rebuildTextIndex();
+    }
+  }
+
+  // Re-file every chunk after the LSH layout changed
+  private rebuildBuckets() {
+    this.runInTransaction(() => {
+      if (this.getMeta('lsh_layout') === LSH_LAYOUT) return;
+
+      this.db.prepare('DELETE FROM chunk_buckets').run();
+      const insertBucket = this.db.prepare('INSERT INTO chunk_buckets (space, table_no, bucket, chunk_id) VALUES (?, ?, ?, ?)');
+      // In batches: the connection cannot write while a query is iterating
+      const selectBatch = this.db.prepare('SELECT id, space, embedding FROM chunks WHERE id > ? ORDER BY id LIMIT 500');
+      let lastId = 0;
+      let count = 0;
+
+      while (true) {
+        const rows = selectBatch.all(lastId) as Array<Pick<ChunkRow, 'id' | 'embedding'> & { space: string }>;
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+          const vector = fromBlob(row.embedding);
+          getLshIndex(row.space, vector.length).buckets(vector).forEach((bucket, table) => {
+            insertBucket.run(row.space, table, bucket, row.id);
+          });
+        }
+        lastId = rows[rows.length - 1].id;
+        count += rows.length;
+      }
+
+      this.setMeta('lsh_layout', LSH_LAYOUT);
+      if (count > 0) console.log(`🔁 Rebuilt LSH buckets for ${count} chunks`);
+    });
+  }
+
+  // Index every paper's text, for databases created before the full-text
+  // index existed or after its contents changed
+  private rebuildTextIndex() {
+    this.runInTransaction(() => {
+      if (this.getMeta('text_index') === TEXT_INDEX_VERSION) return;
+
+      this.db.prepare('DELETE FROM passages').run();
+      this.db.prepare(`INSERT INTO passages_fts (passages_fts) VALUES ('delete-all')`).run();
+      const selectBatch = this.db.prepare(`
+        SELECT paper_id, title, abstract, full_text, figures FROM papers
+        WHERE paper_id > ? ORDER BY paper_id LIMIT 100
+      `);
+      const selectChunks = this.db.prepare('SELECT * FROM chunks WHERE paper_id = ? ORDER BY chunk_index');
+      let lastId = '';
+      let count = 0;
+
+      while (true) {
+        const rows = selectBatch.all(lastId) as Array<Pick<PaperRow, 'paper_id' | 'title' | 'abstract' | 'full_text' | 'figures'>>;
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+          this.writeTextIndex({
+            paperId: row.paper_id,
+            title: row.title,
+            abstract: row.abstract ?? undefined,
+            fullText: row.full_text ?? undefined,
+            figures: parseJson(row.figures),
+            chunks: (selectChunks.all(row.paper_id) as ChunkRow[]).map(toChunk)
+          });
+        }
+        lastId = rows[rows.length - 1].paper_id;
+        count += rows.length;
+      }
+
+      this.setMeta('text_index', TEXT_INDEX_VERSION);
+      if (count > 0) console.log(`🔁 Rebuilt full-text index for ${count} papers`);
+    });
+  }
+
+  async getPaper(paperId: string): Promise<VectorStoreEntry | null> {
+    const row = this.db.prepare('SELECT * FROM papers WHERE paper_id = ?').get(paperId) as PaperRow | undefined;
+    return row ? this.toEntry(row) : null;
+  }
+
+  async upsertPaper(entry: VectorStoreEntry): Promise<void> {
+    this.db.transaction(() => this.writeEntry(entry))();
+  }
+
+  // Only the given columns are written; chunks are replaced when included
+  async updatePaper(paperId: string, updates: Partial<Omit<VectorStoreEntry, 'paperId' | 'timestamp'>>): Promise<VectorStoreEntry | null> {
+    const existing = await this.getPaper(paperId);
+    if (!existing) return null;
+
+    const entry: VectorStoreEntry = { ...existing, ...updates };
+    this.db.transaction(() => {
+      this.writePaperRow(entry);
+      if (updates.chunks) this.writeChunks(entry);
+      if (TEXT_INDEX_FIELDS.some(field => field in updates)) this.writeTextIndex(entry);
+    })();
+    return entry;
+  }
+
+  async deletePaper(paperId: string): Promise<void> {
+    // Chunks, their buckets and the paper's indexed text go with it
+    this.db.prepare('DELETE FROM papers WHERE paper_id = ?').run(paperId);
+  }
+
+  async getAllPapers(): Promise<VectorStoreEntry[]> {
+    const rows = this.db.prepare('SELECT * FROM papers ORDER BY timestamp').all() as PaperRow[];
+    return rows.map(row => this.toEntry(row));
+  }
+
+  async getPaperCount(): Promise<number> {
+    return (this.db.prepare('SELECT COUNT(*) AS count FROM papers').get() as { count: number }).count;
+  }
+
+  async getEmbeddingSpaces(paperIds?: string[]): Promise<EmbeddingSpace[]> {
+    const rows = this.db.prepare(`
+      SELECT p.embedding_provider AS provider, p.embedding_dimension AS dimension, COUNT(*) AS paperCount
+      FROM papers p
+      WHERE p.full_text IS NOT NULL
+        AND p.embedding_provider IS NOT NULL
+        AND p.embedding_dimension IS NOT NULL
+        AND EXISTS (SELECT 1 FROM chunks c WHERE c.paper_id = p.paper_id)
+        AND (? IS NULL OR p.paper_id IN (SELECT value FROM json_each(?)))
+      GROUP BY p.embedding_provider, p.embedding_dimension
+    `).all(...this.paperFilter(paperIds)) as EmbeddingSpace[];
+    return rows;
+  }
+
+  // Filtered searches (one paper or a collection) and small spaces are
+  // scanned exactly; large unfiltered ones go through the LSH buckets
+  async searchChunks(space: EmbeddingSpace, queryEmbedding: number[], nResults: number, options: PassageSearchOptions = {}): Promise<ChunkMatch[]> {
+    const key = spaceKey(space.provider, space.dimension);
+    let rows: Iterable<ChunkRow> | null = null;
+
+    if (!options.paperIds) {
+      const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM chunks WHERE space = ?').get(key) as { count: number };
+      if (count >= ANN_MIN_CHUNKS) {
+        const candidateIds = this.findCandidates(key, space.dimension, queryEmbedding);
+        if (candidateIds.length >= nResults * ANN_MIN_CANDIDATES_PER_RESULT) {
+          rows = this.db.prepare('SELECT * FROM chunks WHERE id IN (SELECT value FROM json_each(?))')
+            .iterate(JSON.stringify(candidateIds)) as Iterable<ChunkRow>;
+        }
+      }
+    }
+
+    rows ??= this.db.prepare(`
+      SELECT * FROM chunks
+      WHERE space = ? AND (? IS NULL OR paper_id IN (SELECT value FROM json_each(?)))
+    `).iterate(key, ...this.paperFilter(options.paperIds)) as Iterable<ChunkRow>;
+
+    const scored: Array<{ row: ChunkRow; score: number }> = [];
+    for (const row of rows) {
+      const score = cosineSimilarity(queryEmbedding, fromBlob(row.embedding));
+      if (options.minScore !== undefined && score < options.minScore) continue;
+      scored.push({ row, score });
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, nResults)
+      .map(({ row, score }) => ({ paperId: row.paper_id, chunk: toChunk(row), score }));
+  }
+
+  // BM25 over the FTS5 index. SQLite's bm25() is lower-is-better, so it is
+  // negated to match the other scores.
+  async searchText(query: string, nResults: number, options: PassageSearchOptions = {}): Promise<TextMatch[]> {
+    const match = toFtsQuery(query);
+    if (!match) return [];
+
+    const rows = this.db.prepare(`
+      SELECT p.paper_id, p.field, p.chunk_index, bm25(passages_fts) AS rank
+      FROM passages_fts
+      JOIN passages p ON p.id = passages_fts.rowid
+      WHERE passages_fts MATCH ?
+        AND (? IS NULL OR p.paper_id IN (SELECT value FROM json_each(?)))
+      ORDER BY rank
+      LIMIT ?
+    `).all(match, ...this.paperFilter(options.paperIds), nResults) as TextMatchRow[];
+
+    return rows.map(row => ({
+      paperId: row.paper_id,
+      field: row.field,
+      ...(row.chunk_index !== null && { chunkIndex: row.chunk_index }),
+      score: -row.rank
+    }));
+  }
+
+  private findCandidates(key: string, dimension: number, queryEmbedding: number[]): number[] {
+    const lookup = this.db.prepare(`
+      SELECT chunk_id FROM chunk_buckets
+      WHERE space = ? AND table_no = ? AND bucket IN (SELECT value FROM json_each(?))
+    `).pluck();
+    const candidates = new Set<number>();
+
+    for (const probe of getLshIndex(key, dimension).probes(queryEmbedding)) {
+      for (const id of lookup.all(key, probe.table, JSON.stringify(probe.buckets)) as number[]) {
+        candidates.add(id);
+      }
+    }
+
+    return Array.from(candidates);
+  }
+
+  // Bind values for "(? IS NULL OR paper_id IN (SELECT value FROM json_each(?)))"
+  private paperFilter(paperIds?: string[]): [string | null, string | null] {
+    const json = paperIds ? JSON.stringify(paperIds) : null;
+    return [json, json];
+  }
+
+  // Must run inside a transaction
+  writeEntry(entry: VectorStoreEntry) {
+    this.writePaperRow(entry);
+    this.writeChunks(entry);
+    this.writeTextIndex(entry);
+  }
+
+  private writePaperRow(entry: VectorStoreEntry) {
+    this.db.prepare(`
+      INSERT INTO papers (paper_id, title, abstract, full_text, embedding, embedding_provider, embedding_dimension,
+                          document, linked_references, figures, metadata, timestamp)
+      VALUES (@paper_id, @title, @abstract, @full_text, @embedding, @embedding_provider, @embedding_dimension,
+              @document, @linked_references, @figures, @metadata, @timestamp)
+      ON CONFLICT (paper_id) DO UPDATE SET
+        title = excluded.title,
+        abstract = excluded.abstract,
+        full_text = excluded.full_text,
+        embedding = excluded.embedding,
+        embedding_provider = excluded.embedding_provider,
+        embedding_dimension = excluded.embedding_dimension,
+        document = excluded.document,
+        linked_references = excluded.linked_references,
+        figures = excluded.figures,
+        metadata = excluded.metadata,
+        timestamp = excluded.timestamp
+    `).run({
+      paper_id: entry.paperId,
+      title: entry.title,
+      abstract: entry.abstract ?? null,
+      full_text: entry.fullText ?? null,
+      embedding: toBlob(entry.embedding),
+      embedding_provider: entry.embeddingProvider ?? null,
+      embedding_dimension: entry.embeddingDimension ?? null,
+      document: entry.document ? JSON.stringify(entry.document) : null,
+      linked_references: entry.linkedReferences ? JSON.stringify(entry.linkedReferences) : null,
+      figures: entry.figures ? JSON.stringify(entry.figures) : null,
+      metadata: JSON.stringify(entry.metadata || {}),
+      timestamp: entry.timestamp
+    });
+  }
+
+  private writeChunks(entry: VectorStoreEntry) {
+    this.db.prepare('DELETE FROM chunks WHERE paper_id = ?').run(entry.paperId);
+    if (!entry.chunks?.length || !entry.embeddingProvider || !entry.embeddingDimension) return;
+
+    const key = spaceKey(entry.embeddingProvider, entry.embeddingDimension);
+    const index = getLshIndex(key, entry.embeddingDimension);
+    const insertChunk = this.db.prepare(`
+      INSERT INTO chunks (paper_id, chunk_index, start_offset, end_offset, figure_index, space, embedding)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertBucket = this.db.prepare('INSERT INTO chunk_buckets (space, table_no, bucket, chunk_id) VALUES (?, ?, ?, ?)');
+
+    for (const chunk of entry.chunks) {
+      const { lastInsertRowid } = insertChunk.run(
+        entry.paperId, chunk.index, chunk.start, chunk.end, chunk.figureIndex ?? null, key, toBlob(chunk.embedding)
+      );
+      index.buckets(chunk.embedding).forEach((bucket, table) => {
+        insertBucket.run(key, table, bucket, lastInsertRowid);
+      });
+    }
+  }
+
+  private writeTextIndex(entry: Pick<VectorStoreEntry, 'paperId' | 'title' | 'abstract' | 'fullText' | 'chunks' | 'figures'>) {
+    // The trigger removes the old tokens
+    this.db.prepare('DELETE FROM passages WHERE paper_id = ?').run(entry.paperId);
+
+    const insertPassage = this.db.prepare('INSERT INTO passages (paper_id, field, chunk_index) VALUES (?, ?, ?)');
+    const insertText = this.db.prepare('INSERT INTO passages_fts (rowid, text) VALUES (?, ?)');
+
+    for (const { field, chunkIndex, text } of indexableTexts(entry)) {
+      const { lastInsertRowid } = insertPassage.run(entry.paperId, field, chunkIndex ?? null);
+      insertText.run(lastInsertRowid, text);
+    }
+  }
+
+  private toEntry(row: PaperRow): VectorStoreEntry {
+    const chunkRows = this.db.prepare('SELECT * FROM chunks WHERE paper_id = ? ORDER BY chunk_index').all(row.paper_id) as ChunkRow[];
+
+    return {
+      paperId: row.paper_id,
+      title: row.title,
+      abstract: row.abstract ?? undefined,
+      fullText: row.full_text ?? undefined,
+      embedding: Array.from(fromBlob(row.embedding)),
+      embeddingProvider: row.embedding_provider ?? undefined,
+      embeddingDimension: row.embedding_dimension ?? undefined,
+      chunks: chunkRows.map(toChunk),
+      document: parseJson(row.document),
+      linkedReferences: parseJson(row.linked_references),
+      figures: parseJson(row.figures),
+      metadata: JSON.parse(row.metadata),
+      timestamp: row.timestamp
+    };
+  }
+
+  getMeta(key: string): string | null {
+    const row = this.db.prepare('SELECT value FROM store_meta WHERE key = ?').get(key) as { value: string } | undefined;
+    return row?.value ?? null;
+  }
+
+  setMeta(key: string, value: string) {
+    this.db.prepare('INSERT INTO store_meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value').run(key, value);
+  }
+
+  runInTransaction(fn: () => void) {
+    // IMMEDIATE takes the write lock up front, so two processes starting at
+    // once cannot both migrate
+    this.db.transaction(fn).immediate();
+  }
+}
+
+// One-time import of the old data/vector-store.json. Runs when the database
+// is first opened; afterwards the JSON file is renamed to *.migrated and
+// never read again.
+export function migrateJsonStore(backend: SqliteVectorBackend, jsonPath: string = DEFAULT_JSON_STORE_PATH): number {
+  if (backend.getMeta('json_migrated_at')) return 0;
+
+  let imported = 0;
+  backend.runInTransaction(() => {
+    if (backend.getMeta('json_migrated_at')) return;
+
+    if (fs.existsSync(jsonPath)) {
+      const entries = Object.values(JSON.parse(fs.readFileSync(jsonPath, 'utf-8'))) as VectorStoreEntry[];
+      for (const entry of entries) {
+        backend.writeEntry({ ...entry, timestamp: entry.timestamp || new Date().toISOString() });
+        imported++;
+      }
+    }
+
+    backend.setMeta('json_migrated_at', new Date().toISOString());
+  });
+
+  if (imported > 0) {
+    fs.renameSync(jsonPath, `${jsonPath}.migrated`);
+    console.log(`📦 Migrated ${imported} papers from ${path.basename(jsonPath)} to SQLite`);
+  }
+
+  return imported;
+}
@@ -1,55 +1,123 @@
-import fs from 'fs';
-import path from 'path';
-import type { Paper } from '@/types/paper';
+import type {
+  Paper,
+  PassageMatch,
+  ParsedDocument,
+  LinkedReference,
+  DocumentFigure,
+  LibrarySearchResult,
+  LibrarySnippet
+} from '@/types/paper';
+import { getEmbeddingProviderByName } from '@/lib/embeddings';
+import { makeSnippet, passageText, reciprocalRankFusion } from '@/lib/text-search';
+import { JsonVectorBackend } from '@/lib/vector-store-json';
+import { SqliteVectorBackend } from '@/lib/vector-store-sqlite';
 
-interface VectorStoreEntry {
+// Overlapping passage of a paper's fullText. The text itself is not stored;
+// it is sliced from fullText using the offsets.
+export interface PassageChunk {
+  index: number;
+  start: number | null;
+  end: number | null;
+  embedding: number[];
+  // Chunks for tables and figures point into the entry's figures instead;
+  // the offsets then mark the caption in fullText, or are null when the
+  // caption is not found there
+  figureIndex?: number;
+}
+
+export interface PassageSearchOptions {
+  paperIds?: string[];
+  minScore?: number;
+}
+
+export interface LibrarySearchOptions {
+  limit?: number;
+  paperIds?: string[];
+}
+
+// Hits taken from each ranking per requested paper; papers have many chunks
+const LIBRARY_CANDIDATES_PER_RESULT = 5;
+const MAX_SNIPPETS_PER_PAPER = 3;
+
+export interface VectorStoreEntry {
   paperId: string;
   title: string;
   abstract?: string;
   fullText?: string;
   embedding: number[];
+  // Missing on entries written before embeddings were tracked; those vectors
+  // are treated as incomparable.
+  embeddingProvider?: string;
+  embeddingDimension?: number;
+  // Passage chunks embedded with the same provider as the paper embedding
+  chunks?: PassageChunk[];
+  // Section structure of the PDF; missing on entries processed before it
+  // was parsed
+  document?: ParsedDocument;
+  // Bibliography entries resolved against OpenAlex
+  linkedReferences?: LinkedReference[];
+  // Captioned tables and figures; missing on entries processed before they
+  // were extracted
+  figures?: DocumentFigure[];
   metadata: Record<string, any>;
   timestamp: string;
 }
 
-export class VectorStore {
-  private dataPath: string;
-  private data: Map<string, VectorStoreEntry> = new Map();
+// Provider and dimension shared by a set of vectors; only vectors in the
+// same space are compared
+export interface EmbeddingSpace {
+  provider: string;
+  dimension: number;
+  paperCount: number;
+}
 
-  constructor() {
-    this.dataPath = path.join(process.cwd(), 'data', 'vector-store.json');
-    this.loadData();
-  }
+export interface ChunkMatch {
+  paperId: string;
+  chunk: PassageChunk;
+  score: number;
+}
 
-  private loadData() {
-    try {
-      // Ensure data directory exists
-      const dataDir = path.dirname(this.dataPath);
-      if (!fs.existsSync(dataDir)) {
-        fs.mkdirSync(dataDir, { recursive: true });
-      }
+export type TextField = 'title' | 'abstract' | 'chunk';
 
-      // Load existing data
-      if (fs.existsSync(this.dataPath)) {
-        const fileContent = fs.readFileSync(this.dataPath, 'utf-8');
-        const entries = JSON.parse(fileContent);
-        this.data = new Map(Object.entries(entries));
-      }
-    } catch (error) {
-      console.error('Error loading vector store data:', error);
-      this.data = new Map();
-    }
-  }
+// Keyword hit on a paper's title, abstract or one of its chunks; higher
+// scores are better but are only comparable within one search
+export interface TextMatch {
+  paperId: string;
+  field: TextField;
+  chunkIndex?: number;
+  score: number;
+}
 
-  private saveData() {
-    try {
-      console.log(`💾 Saving vector store data to ${this.dataPath}...`);
-      const entries = Object.fromEntries(this.data);
-      fs.writeFileSync(this.dataPath, JSON.stringify(entries, null, 2));
-      console.log(`✅ Vector store data saved successfully. Total papers: ${this.data.size}`);
-    } catch (error) {
-      console.error('❌ Error saving vector store data:', error);
-    }
+// Where VectorStore keeps its entries. Backends store each paper on its own
+// (no rewriting of other papers) and find the chunks nearest to a query
+// vector within one embedding space. They also keep a full-text index of
+// titles, abstracts and chunks, ranked with BM25.
+export interface VectorStoreBackend {
+  readonly name: string;
+  getPaper(paperId: string): Promise<VectorStoreEntry | null>;
+  upsertPaper(entry: VectorStoreEntry): Promise<void>;
+  updatePaper(paperId: string, updates: Partial<Omit<VectorStoreEntry, 'paperId' | 'timestamp'>>): Promise<VectorStoreEntry | null>;
+  deletePaper(paperId: string): Promise<void>;
+  getAllPapers(): Promise<VectorStoreEntry[]>;
+  getPaperCount(): Promise<number>;
+  // Spaces of the papers that have passage chunks and full text
+  getEmbeddingSpaces(paperIds?: string[]): Promise<EmbeddingSpace[]>;
+  searchChunks(space: EmbeddingSpace, queryEmbedding: number[], nResults: number, options?: PassageSearchOptions): Promise<ChunkMatch[]>;
+  searchText(query: string, nResults: number, options?: PassageSearchOptions): Promise<TextMatch[]>;
+}
+
+// 'sqlite' (default) or 'json' for the original single-file store
+export function createVectorStoreBackend(): VectorStoreBackend {
+  return process.env.VECTOR_STORE_BACKEND === 'json'
+    ? new JsonVectorBackend()
+    : new SqliteVectorBackend();
+}
+
+export class VectorStore {
+  private backend: VectorStoreBackend;
+
+  constructor(backend: VectorStoreBackend = createVectorStoreBackend()) {
+    this.backend = backend;
   }
 
   async addPaper(paper: {
@@ -58,24 +126,30 @@ export class VectorStore {
     abstract?: string;
     fullText?: string;
     embedding: number[];
+    embeddingProvider: string;
+    embeddingDimension: number;
+    chunks?: PassageChunk[];
+    document?: ParsedDocument;
+    figures?: DocumentFigure[];
     metadata: Record<string, any>;
   }) {
-    console.log(`📝 Adding paper ${paper.paperId} to vector store...`);
-    
-    const entry: VectorStoreEntry = {
+    console.log(`📝 Adding paper ${paper.paperId} to vector store (${this.backend.name})...`);
+
+    await this.backend.upsertPaper({
       ...paper,
       timestamp: new Date().toISOString()
-    };
+    });
 
-    this.data.set(paper.paperId, entry);
-    console.log(`💾 Paper ${paper.paperId} added to memory, saving to disk...`);
-    
-    this.saveData();
     console.log(`✅ Paper ${paper.paperId} successfully saved to vector store`);
   }
 
+  // Merge fields into an existing entry, e.g. data resolved after ingestion
+  async updatePaper(paperId: string, updates: Partial<Omit<VectorStoreEntry, 'paperId' | 'timestamp'>>): Promise<VectorStoreEntry | null> {
+    return this.backend.updatePaper(paperId, updates);
+  }
+
   async getPaper(paperId: string): Promise<VectorStoreEntry | null> {
-    const paper = this.data.get(paperId) || null;
+    const paper = await this.backend.getPaper(paperId);
     if (paper) {
       console.log(`📖 Found paper ${paperId} in vector store`);
     } else {
@@ -84,39 +158,155 @@ export class VectorStore {
     return paper;
   }
 
-  async searchPapers(query: string, nResults: number = 10): Promise<VectorStoreEntry[]> {
-    // Simple text-based search for now
-    const results: Array<{ entry: VectorStoreEntry; score: number }> = [];
-    
-    for (const entry of this.data.values()) {
-      const text = `${entry.title} ${entry.abstract || ''} ${entry.fullText || ''}`.toLowerCase();
-      const queryLower = query.toLowerCase();
-      
-      if (text.includes(queryLower)) {
-        // Simple scoring based on how many query words match
-        const queryWords = queryLower.split(' ');
-        const score = queryWords.filter(word => text.includes(word)).length;
-        results.push({ entry, score });
+  // Top-k over passage chunks. The query is embedded once per provider in
+  // use, so vectors from different models are never compared.
+  async searchPassages(query: string, nResults: number = 5, options: PassageSearchOptions = {}): Promise<PassageMatch[]> {
+    const spaces = await this.backend.getEmbeddingSpaces(options.paperIds);
+    const entries = new Map<string, VectorStoreEntry | null>();
+    const matches: PassageMatch[] = [];
+
+    for (const space of spaces) {
+      const provider = getEmbeddingProviderByName(space.provider, space.dimension);
+      if (!provider) {
+        console.warn(`⚠️ Embedding provider ${space.provider} unavailable, skipping ${space.paperCount} papers`);
+        continue;
+      }
+
+      let queryEmbedding: number[];
+      try {
+        queryEmbedding = await provider.embed(query);
+      } catch (error) {
+        console.error(`❌ Failed to embed query with ${space.provider}:`, error);
+        continue;
+      }
+
+      for (const { paperId, chunk, score } of await this.backend.searchChunks(space, queryEmbedding, nResults, options)) {
+        if (!entries.has(paperId)) {
+          entries.set(paperId, await this.backend.getPaper(paperId));
+        }
+        const entry = entries.get(paperId);
+        if (!entry?.fullText) continue;
+
+        const text = passageText(entry, chunk);
+        if (text === null) continue;
+        const figure = chunk.figureIndex !== undefined ? entry.figures?.[chunk.figureIndex] : undefined;
+
+        matches.push({
+          paperId,
+          title: entry.title,
+          chunkIndex: chunk.index,
+          start: chunk.start,
+          end: chunk.end,
+          text,
+          score,
+          ...(figure && { figureLabel: figure.label })
+        });
       }
     }
 
-    // Sort by score and return top results
-    return results
+    return matches
       .sort((a, b) => b.score - a.score)
-      .slice(0, nResults)
-      .map(result => result.entry);
+      .slice(0, nResults);
+  }
+
+  // Papers in the order of searchLibrary
+  async searchPapers(query: string, nResults: number = 10): Promise<VectorStoreEntry[]> {
+    const results = await this.searchLibrary(query, { limit: nResults });
+    const papers = await Promise.all(results.map(result => this.backend.getPaper(result.paperId)));
+    return papers.filter((paper): paper is VectorStoreEntry => !!paper);
+  }
+
+  // Hybrid search over everything ingested: BM25 keyword hits and vector
+  // passage hits are each ranked by paper and the two rankings fused with
+  // reciprocal rank fusion. Each result carries snippets with the matched
+  // words highlighted.
+  async searchLibrary(query: string, options: LibrarySearchOptions = {}): Promise<LibrarySearchResult[]> {
+    const limit = options.limit || 10;
+    const candidates = limit * LIBRARY_CANDIDATES_PER_RESULT;
+
+    const [textMatches, passages] = await Promise.all([
+      this.backend.searchText(query, candidates, { paperIds: options.paperIds }),
+      this.searchPassages(query, candidates, { paperIds: options.paperIds })
+    ]);
+
+    const textRanking = Array.from(new Set(textMatches.map(match => match.paperId)));
+    const vectorRanking = Array.from(new Set(passages.map(passage => passage.paperId)));
+    const ranked = Array.from(reciprocalRankFusion([textRanking, vectorRanking]))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit);
+
+    console.log(`🔎 Library search "${query}": ${textRanking.length} keyword and ${vectorRanking.length} vector matches`);
+
+    const results: LibrarySearchResult[] = [];
+    for (const [paperId, score] of ranked) {
+      const entry = await this.backend.getPaper(paperId);
+      if (!entry) continue;
+
+      // Keyword hits first (their snippets are sure to contain the query's
+      // words), then passages found only by meaning
+      const snippets: LibrarySnippet[] = [];
+      const seenChunks = new Set<number>();
+
+      for (const match of textMatches) {
+        if (match.paperId !== paperId || snippets.length >= MAX_SNIPPETS_PER_PAPER) continue;
+
+        if (match.field === 'abstract' && entry.abstract) {
+          snippets.push({ field: 'abstract', ...makeSnippet(entry.abstract, query) });
+        } else if (match.field === 'chunk' && match.chunkIndex !== undefined && !seenChunks.has(match.chunkIndex)) {
+          const chunk = entry.chunks?.find(candidate => candidate.index === match.chunkIndex);
+          const text = chunk && passageText(entry, chunk);
+          if (!chunk || !text) continue;
+
+          seenChunks.add(chunk.index);
+          const figure = chunk.figureIndex !== undefined ? entry.figures?.[chunk.figureIndex] : undefined;
+          snippets.push({
+            field: 'passage',
+            ...makeSnippet(text, query),
+            chunkIndex: chunk.index,
+            ...(figure && { figureLabel: figure.label })
+          });
+        }
+      }
+
+      for (const passage of passages) {
+        if (passage.paperId !== paperId || snippets.length >= MAX_SNIPPETS_PER_PAPER || seenChunks.has(passage.chunkIndex)) continue;
+
+        seenChunks.add(passage.chunkIndex);
+        snippets.push({
+          field: 'passage',
+          ...makeSnippet(passage.text, query),
+          chunkIndex: passage.chunkIndex,
+          ...(passage.figureLabel && { figureLabel: passage.figureLabel })
+        });
+      }
+
+      const textRank = textRanking.indexOf(paperId);
+      const vectorRank = vectorRanking.indexOf(paperId);
+      results.push({
+        paperId,
+        title: entry.title,
+        titleHighlights: makeSnippet(entry.title, query, entry.title.length).highlights,
+        authors: entry.metadata?.authors,
+        year: entry.metadata?.year,
+        score,
+        textRank: textRank >= 0 ? textRank + 1 : null,
+        vectorRank: vectorRank >= 0 ? vectorRank + 1 : null,
+        snippets
+      });
+    }
+
+    return results;
   }
 
   async deletePaper(paperId: string) {
-    this.data.delete(paperId);
-    this.saveData();
+    await this.backend.deletePaper(paperId);
   }
 
   async getAllPapers(): Promise<VectorStoreEntry[]> {
-    return Array.from(this.data.values());
+    return this.backend.getAllPapers();
   }
 
   async getPaperCount(): Promise<number> {
-    return this.data.size;
+    return this.backend.getPaperCount();
   }
 }
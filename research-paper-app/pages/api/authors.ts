@@ -0,0 +1,72 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { OpenAlexClient } from '@/lib/openalex-client';
+import {
+  APIValidationError,
+  formatAPIResponse,
+  formatAPIError,
+  retryWithBackoff
+} from '../../utils/api-utils';
+
+const MAX_SEARCH_RESULTS = 25;
+const MAX_TOP_WORKS = 50;
+
+// Authors: GET ?q=name searches, GET ?id=A...&works=10 returns the profile
+// and most cited works
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { q, id, limit, works } = req.query;
+    const client = new OpenAlexClient();
+
+    if (typeof id === 'string') {
+      const authorId = id.split('/').pop()!.toUpperCase();
+      if (!/^A\d+$/.test(authorId)) {
+        throw new APIValidationError('Author ID must be an OpenAlex author ID such as A5023888391', 'id');
+      }
+
+      const worksLimit = Math.min(Math.max(parseInt(String(works ?? '10'), 10) || 10, 1), MAX_TOP_WORKS);
+
+      const [author, topWorks] = await Promise.all([
+        retryWithBackoff(() => client.getAuthor(authorId), 2, 500),
+        retryWithBackoff(() => client.getAuthorWorks(authorId, worksLimit), 2, 500)
+      ]);
+
+      if (!author) {
+        return res.status(404).json({ error: 'Author not found' });
+      }
+
+      return res.status(200).json(formatAPIResponse({
+        author: client.transformAuthor(author),
+        works: client.transformResults(topWorks)
+      }));
+    }
+
+    if (typeof q !== 'string' || q.trim().length < 2) {
+      throw new APIValidationError('Query must be at least 2 characters', 'q');
+    }
+    if (q.length > 100) {
+      throw new APIValidationError('Query is too long', 'q');
+    }
+
+    const searchLimit = Math.min(Math.max(parseInt(String(limit ?? '10'), 10) || 10, 1), MAX_SEARCH_RESULTS);
+    const authors = await retryWithBackoff(
+      () => client.searchAuthors(q.trim(), searchLimit),
+      2, // max retries
+      500 // base delay
+    );
+
+    return res.status(200).json(formatAPIResponse(authors.map(author => client.transformAuthor(author))));
+  } catch (error) {
+    console.error('Author lookup error:', error);
+
+    const errorResponse = formatAPIError(error, 'Failed to look up authors');
+
+    return res.status(errorResponse.status || 500).json(errorResponse);
+  }
+}
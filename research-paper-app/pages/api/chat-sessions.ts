@@ -0,0 +1,121 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  createChatSession,
+  getChatSessions,
+  getChatSession,
+  renameChatSession,
+  deleteChatSession
+} from '@/lib/supabase';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  switch (req.method) {
+    case 'GET':
+      return handleGetSessions(req, res);
+    case 'POST':
+      return handleCreateSession(req, res);
+    case 'PUT':
+      return handleRenameSession(req, res);
+    case 'DELETE':
+      return handleDeleteSession(req, res);
+    default:
+      return res.status(405).json({ error: 'Method not allowed' });
+  }
+}
+
+// GET ?id=... resumes a session with its messages;
+// GET ?paperId=... or ?collectionId=... lists sessions
+async function handleGetSessions(req: NextApiRequest, res: NextApiResponse) {
+  const { id, paperId, collectionId } = req.query;
+
+  try {
+    if (id) {
+      const session = await getChatSession(id as string);
+      if (!session) {
+        return res.status(404).json({ error: 'Chat session not found' });
+      }
+      return res.status(200).json({ success: true, data: session });
+    }
+
+    if (!paperId && !collectionId) {
+      return res.status(400).json({ error: 'Paper ID or collection ID is required' });
+    }
+
+    const sessions = await getChatSessions({
+      paperId: paperId as string | undefined,
+      collectionId: collectionId as string | undefined
+    });
+    return res.status(200).json({ success: true, data: sessions });
+  } catch (error) {
+    console.error('Error fetching chat sessions:', error);
+    return res.status(500).json({ error: 'Failed to fetch chat sessions' });
+  }
+}
+
+async function handleCreateSession(req: NextApiRequest, res: NextApiResponse) {
+  const { paperId, collectionId, title } = req.body;
+
+  if (!paperId && !collectionId) {
+    return res.status(400).json({ error: 'Paper ID or collection ID is required' });
+  }
+
+  try {
+    const session = await createChatSession({
+      paperId,
+      collectionId,
+      title: title?.trim() || 'New chat'
+    });
+
+    return res.status(201).json({ success: true, data: session });
+  } catch (error) {
+    console.error('Error creating chat session:', error);
+    return res.status(500).json({ error: 'Failed to create chat session' });
+  }
+}
+
+async function handleRenameSession(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+  const { title } = req.body;
+
+  if (!id) {
+    return res.status(400).json({ error: 'Chat session ID is required' });
+  }
+
+  if (!title || !title.trim()) {
+    return res.status(400).json({ error: 'Title is required' });
+  }
+
+  try {
+    const session = await renameChatSession(id as string, title.trim());
+    if (!session) {
+      return res.status(404).json({ error: 'Chat session not found' });
+    }
+
+    return res.status(200).json({ success: true, data: session });
+  } catch (error) {
+    console.error('Error renaming chat session:', error);
+    return res.status(500).json({ error: 'Failed to rename chat session' });
+  }
+}
+
+async function handleDeleteSession(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id) {
+    return res.status(400).json({ error: 'Chat session ID is required' });
+  }
+
+  try {
+    const success = await deleteChatSession(id as string);
+    if (!success) {
+      return res.status(404).json({ error: 'Chat session not found' });
+    }
+
+    return res.status(200).json({ success: true, message: 'Chat session deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting chat session:', error);
+    return res.status(500).json({ error: 'Failed to delete chat session' });
+  }
+}
@@ -1,7 +1,11 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { GeminiAIClient } from '@/lib/gemini-ai';
-import { VectorStore } from '@/lib/vector-store';
-import { getCollection } from '@/lib/supabase';
+import { LLM_CONFIGURATION_HINT } from '@/lib/llm-provider';
+import { VectorStore, type VectorStoreEntry } from '@/lib/vector-store';
+import { retrieveCollectionContext, formatPassages } from '@/lib/rag-context';
+import { validateCitations, CITATION_INSTRUCTIONS } from '@/lib/citations';
+import { initSSE, sendSSE, abortOnClose } from '@/utils/sse';
+import { getCollection, getChatSession, saveChatExchange } from '@/lib/supabase';
 
 export default async function handler(
   req: NextApiRequest,
@@ -11,13 +15,26 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { collectionId, message, chatHistory = [] } = req.body;
+  const { collectionId, message, sessionId, stream = false } = req.body;
+  let { chatHistory = [] } = req.body;
 
   if (!collectionId || !message) {
     return res.status(400).json({ error: 'Collection ID and message are required' });
   }
 
   try {
+    // Persisted chats keep their history on the server
+    if (sessionId) {
+      const session = await getChatSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ error: 'Chat session not found' });
+      }
+      if (session.collectionId !== collectionId) {
+        return res.status(403).json({ error: 'Chat session does not belong to this collection' });
+      }
+      chatHistory = session.messages.map(msg => ({ role: msg.role, content: msg.content }));
+    }
+
     console.log(`Fetching collection ${collectionId} from Supabase...`);
     
     // Get collection data from Supabase
@@ -31,7 +48,7 @@ export default async function handler(
 
     // Get all papers from the collection that are in the vector store
     const vectorStore = new VectorStore();
-    const collectionPapers: any[] = [];
+    const collectionPapers: VectorStoreEntry[] = [];
     
     console.log('Checking papers in vector store...');
     for (const paper of collection.papers) {
@@ -76,53 +93,105 @@ export default async function handler(
       collectionContext += '\n';
     });
 
-    // Add full text from papers (truncated to avoid token limits)
-    collectionContext += 'Full content from papers:\n';
-    collectionPapers.forEach((paper, index) => {
-      collectionContext += `\n--- Paper ${index + 1}: ${paper.title} ---\n`;
-      if (paper.fullText) {
-        // Limit each paper's text to avoid token limits
-        const maxLength = 3000;
-        const truncatedText = paper.fullText.length > maxLength 
-          ? paper.fullText.substring(0, maxLength) + '...'
-          : paper.fullText;
-        collectionContext += truncatedText + '\n';
-      }
-    });
+    // Retrieve the most relevant passages across all papers for this question
+    const { passages } = await retrieveCollectionContext(vectorStore, collectionPapers, message, chatHistory);
+    console.log(`Retrieved ${passages.length} passages from ${new Set(passages.map(p => p.paperId)).size} papers`);
+
+    collectionContext += 'Relevant passages from the papers:\n';
+    collectionContext += formatPassages(passages, true) + '\n';
 
     // Create the system prompt
     const systemPrompt = `You are an AI assistant that helps users understand and discuss research papers from a collection called "${collection.name}".
 
 ${collectionContext}
 
-You have access to the full content of ${collectionPapers.length} research papers in this collection. Please answer questions about:
+You have access to passages retrieved from ${collectionPapers.length} research papers in this collection. Please answer questions about:
 - Individual papers and their content
 - Relationships between papers in the collection
 - Themes and patterns across the collection
 - Specific findings, methodologies, or conclusions from any paper
 - Comparisons between papers
 
-If the user asks about something not covered in these papers, politely indicate that the information is not available in this collection. Always cite which paper(s) you're referring to when answering questions.`;
+If the user asks about something not covered in the retrieved passages, politely indicate that the information is not available in this collection.
+${CITATION_INSTRUCTIONS}`;
+
+    // Create conversation history
+    const conversationHistory = chatHistory.map((msg: any) => ({
+      role: msg.role,
+      parts: [{ text: msg.content }]
+    }));
+
+    // Add the current message
+    const currentMessage = {
+      role: 'user' as const,
+      parts: [{ text: message }]
+    };
+
+    // Initialize AI client
+    const geminiClient = new GeminiAIClient();
+    if (!geminiClient.isConfigured()) {
+      return res.status(400).json({
+        error: 'AI provider not configured',
+        details: `${geminiClient.getProviderName()}: ${LLM_CONFIGURATION_HINT}`
+      });
+    }
+
+    // Streaming mode: sources first, then tokens as they arrive, then the
+    // final answer with its citation check
+    if (stream) {
+      initSSE(res);
+      const controller = abortOnClose(res);
+      sendSSE(res, 'sources', { sources: passages });
+
+      let streamed = '';
+      let failed = false;
+      try {
+        console.log('Streaming request to Gemini AI...');
+        for await (const text of geminiClient.streamChat(systemPrompt, conversationHistory, currentMessage, { signal: controller.signal })) {
+          streamed += text;
+          sendSSE(res, 'token', { text });
+        }
+
+        const citations = validateCitations(streamed, passages.length);
+        if (!controller.signal.aborted) {
+          sendSSE(res, 'done', {
+            response: streamed,
+            collectionId,
+            sources: passages,
+            citations,
+            papersProcessed: collectionPapers.length,
+            totalPapers: collection.papers.length
+          });
+        } else {
+          console.log('Client stopped the stream');
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error streaming from Gemini AI:', error);
+          sendSSE(res, 'error', { error: 'Failed to generate response from AI' });
+          failed = true;
+        }
+      }
+
+      // A stopped answer is kept as far as it got. The client already has
+      // its answer, so a failed save is only logged.
+      if (sessionId && streamed && !failed) {
+        try {
+          await saveChatExchange(sessionId, message, {
+            content: streamed,
+            passages,
+            unsupportedCitations: validateCitations(streamed, passages.length).unsupported
+          });
+        } catch (error) {
+          console.error('Error saving chat exchange:', error);
+        }
+      }
+
+      return res.end();
+    }
 
-    console.log('Initializing Gemini AI client...');
-    
-    // Initialize Gemini AI client
     let response: string;
     try {
-      const geminiClient = new GeminiAIClient();
-      
-      // Create conversation history
-      const conversationHistory = chatHistory.map((msg: any) => ({
-        role: msg.role,
-        parts: [{ text: msg.content }]
-      }));
-
-      // Add the current message
-      const currentMessage = {
-        role: 'user' as const,
-        parts: [{ text: message }]
-      };
-
       console.log('Sending request to Gemini AI...');
       response = await geminiClient.chat(systemPrompt, conversationHistory, currentMessage);
       console.log('Received response from Gemini AI');
@@ -134,12 +203,28 @@ If the user asks about something not covered in these papers, politely indicate
       });
     }
 
+    // Flag citation markers that do not map to a supplied passage
+    const citations = validateCitations(response, passages.length);
+    if (citations.unsupported.length > 0) {
+      console.warn(`Answer cites unsupported passages: ${citations.unsupported.join(', ')}`);
+    }
+
+    if (sessionId) {
+      await saveChatExchange(sessionId, message, {
+        content: response,
+        passages,
+        unsupportedCitations: citations.unsupported
+      });
+    }
+
     console.log('Sending successful response');
     res.status(200).json({
       success: true,
       data: {
         response,
         collectionId,
+        sources: passages,
+        citations,
         papersProcessed: collectionPapers.length,
         totalPapers: collection.papers.length
       }
@@ -1,7 +1,12 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { GeminiAIClient } from '@/lib/gemini-ai';
+import { LLM_CONFIGURATION_HINT } from '@/lib/llm-provider';
 import { VectorStore } from '@/lib/vector-store';
-import type { Paper } from '@/types/paper';
+import { retrievePaperContext, formatPassages } from '@/lib/rag-context';
+import { validateCitations, CITATION_INSTRUCTIONS } from '@/lib/citations';
+import { initSSE, sendSSE, abortOnClose } from '@/utils/sse';
+import { getChatSession, saveChatExchange } from '@/lib/supabase';
+import type { Paper, PassageMatch } from '@/types/paper';
 
 export default async function handler(
   req: NextApiRequest,
@@ -11,30 +16,51 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { paperId, message, chatHistory = [] } = req.body;
+  const { paperId, message, sessionId, stream = false } = req.body;
+  let { chatHistory = [] } = req.body;
 
   if (!paperId || !message) {
     return res.status(400).json({ error: 'Paper ID and message are required' });
   }
 
   try {
+    // Persisted chats keep their history on the server
+    if (sessionId) {
+      const session = await getChatSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ error: 'Chat session not found' });
+      }
+      if (session.paperId !== paperId) {
+        return res.status(403).json({ error: 'Chat session does not belong to this paper' });
+      }
+      chatHistory = session.messages.map(msg => ({ role: msg.role, content: msg.content }));
+    }
+
     // Get paper data from Vector Store
     const vectorStore = new VectorStore();
     let paperContext: string;
+    let passages: PassageMatch[];
 
     try {
       const vectorResult = await vectorStore.getPaper(paperId);
       if (vectorResult) {
+        // Retrieve the passages most relevant to this question
+        const retrieved = await retrievePaperContext(vectorStore, vectorResult, message, chatHistory);
+        passages = retrieved.passages;
+
         paperContext = `
 Paper Title: ${vectorResult.title}
 Authors: ${vectorResult.metadata.authors || 'Unknown'}
 Year: ${vectorResult.metadata.year || 'Unknown'}
 Abstract: ${vectorResult.abstract || 'No abstract available'}
-${vectorResult.fullText ? `Full Text: ${vectorResult.fullText.substring(0, 2000)}...` : ''}
+
+Relevant passages from the paper:
+${formatPassages(passages)}
 
 You are an AI assistant that helps users understand and discuss this research paper. 
-Please answer questions about the paper's content, methodology, findings, and implications.
-If the user asks about something not covered in the paper, politely indicate that the information is not available in this paper.
+Please answer questions about the paper's content, methodology, findings, and implications using the passages above.
+If the passages do not cover what the user asks about, politely indicate that the information is not available in the retrieved parts of this paper.
+${CITATION_INSTRUCTIONS}
 `;
       } else {
         throw new Error('Paper not found in vector store');
@@ -47,19 +73,79 @@ If the user asks about something not covered in the paper, politely indicate tha
       });
     }
 
-    // Initialize Gemini AI client
-    let response: string;
-    try {
-      const geminiClient = new GeminiAIClient();
-      response = await geminiClient.chatWithPaper(message, paperContext, chatHistory);
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('GOOGLE_AI_API_KEY')) {
-        return res.status(400).json({
-          error: 'Google AI API key not configured',
-          details: 'Please set the GOOGLE_AI_API_KEY environment variable to use chat functionality.'
-        });
+    // Initialize AI client
+    const geminiClient = new GeminiAIClient();
+    if (!geminiClient.isConfigured()) {
+      return res.status(400).json({
+        error: 'AI provider not configured',
+        details: `${geminiClient.getProviderName()}: ${LLM_CONFIGURATION_HINT}`
+      });
+    }
+
+    // Streaming mode: sources first, then tokens as they arrive, then the
+    // final answer with its citation check
+    if (stream) {
+      initSSE(res);
+      const controller = abortOnClose(res);
+      sendSSE(res, 'sources', { passages });
+
+      let streamed = '';
+      let failed = false;
+      try {
+        for await (const text of geminiClient.streamChatWithPaper(message, paperContext, chatHistory, { signal: controller.signal })) {
+          streamed += text;
+          sendSSE(res, 'token', { text });
+        }
+
+        const citations = validateCitations(streamed, passages.length);
+        if (!controller.signal.aborted) {
+          sendSSE(res, 'done', {
+            response: streamed,
+            paperId,
+            passages,
+            citations,
+            timestamp: new Date().toISOString()
+          });
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error streaming chat with paper:', error);
+          sendSSE(res, 'error', { error: 'Failed to generate response from AI' });
+          failed = true;
+        }
+      }
+
+      // A stopped answer is kept as far as it got. The client already has
+      // its answer, so a failed save is only logged.
+      if (sessionId && streamed && !failed) {
+        try {
+          await saveChatExchange(sessionId, message, {
+            content: streamed,
+            passages,
+            unsupportedCitations: validateCitations(streamed, passages.length).unsupported
+          });
+        } catch (error) {
+          console.error('Error saving chat exchange:', error);
+        }
       }
-      throw error;
+
+      return res.end();
+    }
+
+    const response = await geminiClient.chatWithPaper(message, paperContext, chatHistory);
+
+    // Flag citation markers that do not map to a supplied passage
+    const citations = validateCitations(response, passages.length);
+    if (citations.unsupported.length > 0) {
+      console.warn(`Answer cites unsupported passages: ${citations.unsupported.join(', ')}`);
+    }
+
+    if (sessionId) {
+      await saveChatExchange(sessionId, message, {
+        content: response,
+        passages,
+        unsupportedCitations: citations.unsupported
+      });
     }
 
     res.status(200).json({
@@ -67,6 +153,8 @@ If the user asks about something not covered in the paper, politely indicate tha
       data: {
         response,
         paperId,
+        passages,
+        citations,
         timestamp: new Date().toISOString()
       }
     });
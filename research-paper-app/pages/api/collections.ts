@@ -1,8 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import type { Collection, Paper } from '@/types/paper';
-import { PDFProcessor } from '@/lib/pdf-processor';
-import { VectorStore } from '@/lib/vector-store';
-import { GeminiAIClient } from '@/lib/gemini-ai';
+import { enqueueIngestion } from '@/lib/ingestion-queue';
 import { 
   createCollection,
   getCollections as getSupabaseCollections,
@@ -13,96 +11,6 @@ import {
   removePaperFromCollection as removePaperFromSupabaseCollection
 } from '@/lib/supabase';
 
-// Helper function to process paper for RAG
-async function processPaperForRAG(paper: Paper): Promise<boolean> {
-  try {
-    console.log(`🔍 Starting RAG processing for paper: ${paper.paperId} - "${paper.title}"`);
-    
-    // Check if paper is already in vector store
-    const vectorStore = new VectorStore();
-    const existingPaper = await vectorStore.getPaper(paper.paperId);
-    
-    if (existingPaper) {
-      console.log(`📋 Paper ${paper.paperId} already processed for RAG`);
-      return true;
-    }
-
-    // Only process if PDF URL is available
-    if (!paper.pdfUrl) {
-      console.log(`⚠️ No PDF URL available for paper ${paper.paperId}`);
-      return false;
-    }
-
-    console.log(`📥 Processing PDF for paper ${paper.paperId} from URL: ${paper.pdfUrl}`);
-
-    // Process the PDF
-    const pdfData = await PDFProcessor.processPDF(paper.pdfUrl);
-    
-    if (pdfData.text.includes('PDF processing failed:')) {
-      console.error(`❌ PDF processing failed for paper ${paper.paperId}: ${pdfData.text}`);
-      return false;
-    }
-    
-    console.log(`📄 PDF processed successfully. Text length: ${pdfData.text.length}, Pages: ${pdfData.pageCount}`);
-    
-    // Clean and extract sections
-    const cleanedText = PDFProcessor.cleanText(pdfData.text);
-    const extractedAbstract = PDFProcessor.extractAbstract(cleanedText) || paper.abstract;
-    const introduction = PDFProcessor.extractIntroduction(cleanedText);
-    const conclusion = PDFProcessor.extractConclusion(cleanedText);
-
-    console.log(`🧹 Text cleaned. Abstract: ${!!extractedAbstract}, Introduction: ${!!introduction}, Conclusion: ${!!conclusion}`);
-
-    // Generate embedding using Gemini AI
-    let embedding: number[] = [];
-    try {
-      console.log(`🤖 Generating embedding for paper ${paper.paperId}...`);
-      const geminiClient = new GeminiAIClient();
-      const textForEmbedding = `${paper.title} ${extractedAbstract || ''} ${introduction || ''}`;
-      embedding = await geminiClient.generateEmbedding(textForEmbedding);
-      console.log(`✅ Embedding generated successfully. Length: ${embedding.length}`);
-    } catch (error) {
-      console.warn(`⚠️ Failed to generate embedding for paper ${paper.paperId}:`, error);
-      // Create a simple embedding as fallback
-      embedding = new Array(768).fill(0).map(() => Math.random() - 0.5);
-      console.log(`🔄 Using fallback embedding. Length: ${embedding.length}`);
-    }
-
-    // Add to Vector Store
-    console.log(`💾 Adding paper ${paper.paperId} to vector store...`);
-    await vectorStore.addPaper({
-      paperId: paper.paperId,
-      title: paper.title,
-      abstract: extractedAbstract || undefined,
-      fullText: cleanedText,
-      embedding,
-      metadata: {
-        authors: paper.authors?.map(a => a.name).join(', ') || 'Unknown',
-        year: paper.year || new Date().getFullYear(),
-        pageCount: pdfData.pageCount,
-        pdfUrl: paper.pdfUrl,
-        localFilePath: pdfData.localFilePath,
-        hasIntroduction: !!introduction,
-        hasConclusion: !!conclusion
-      }
-    });
-
-    console.log(`✅ Successfully added paper ${paper.paperId} to vector store`);
-
-    // Clean up the local file after processing
-    if (pdfData.localFilePath) {
-      PDFProcessor.cleanupLocalFile(pdfData.localFilePath);
-      console.log(`🗑️ Cleaned up local file: ${pdfData.localFilePath}`);
-    }
-
-    console.log(`🎉 Successfully processed paper ${paper.paperId} for RAG`);
-    return true;
-  } catch (error) {
-    console.error(`❌ Error processing paper ${paper.paperId} for RAG:`, error);
-    return false;
-  }
-}
-
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -185,17 +93,13 @@ async function handleUpdateCollection(req: NextApiRequest, res: NextApiResponse)
       
       console.log(`Successfully added paper ${paperToAdd.paperId} to collection ${id} in Supabase`);
       
-      // Process paper for RAG in the background
-      console.log(`Starting RAG processing for paper ${paperToAdd.paperId}...`);
-      processPaperForRAG(paperToAdd).then(success => {
-        if (success) {
-          console.log(`✅ Paper ${paperToAdd.paperId} successfully processed for RAG`);
-        } else {
-          console.error(`❌ Failed to process paper ${paperToAdd.paperId} for RAG`);
-        }
-      }).catch(error => {
-        console.error(`❌ Error during RAG processing for paper ${paperToAdd.paperId}:`, error);
-      });
+      // Queue the paper for RAG processing; the collections page polls
+      // /api/ingestion-jobs for its progress
+      try {
+        await enqueueIngestion(paperToAdd, id as string);
+      } catch (error) {
+        console.error(`❌ Failed to queue RAG processing for paper ${paperToAdd.paperId}:`, error);
+      }
     }
     // Handle removing a single paper
     else if (removePaper) {
@@ -1,5 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { PDFProcessor } from '@/lib/pdf-processor';
+import { PdfStore } from '@/lib/pdf-store';
+import { resolvePaperPdf, PdfResolutionError } from '@/lib/pdf-resolver';
+import { PDFDownloadError, sanitizeFilename } from '@/lib/safe-download';
 import fs from 'fs';
 
 export default async function handler(
@@ -10,35 +13,51 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { pdfUrl, filename } = req.body;
+  const { pdfUrl, filename, paperId, title } = req.body;
 
-  if (!pdfUrl) {
-    return res.status(400).json({ error: 'PDF URL is required' });
+  if (!pdfUrl && !paperId) {
+    return res.status(400).json({ error: 'PDF URL or paper ID is required' });
   }
 
   try {
-    // Download and save the PDF locally first
-    const localFilePath = await PDFProcessor.downloadAndSavePDF(pdfUrl, filename);
-    
-    // Read the local file
-    const pdfBuffer = fs.readFileSync(localFilePath);
-    
+    // Serve the stored copy when there is one, downloading only on a miss
+    const store = new PdfStore();
+    const cached = await store.find({ paperId, url: pdfUrl });
+
+    // On a miss, papers go through the resolver, which falls back to other
+    // open access locations when pdfUrl is a landing page
+    const stored = cached
+      || (paperId
+        ? (await resolvePaperPdf({ paperId, title: title || '', pdfUrl }, { store })).stored
+        : await PDFProcessor.fetchPDF(pdfUrl, undefined, store));
+    const pdfBuffer = fs.readFileSync(stored.filePath);
+
     // Set response headers for file download
-    const safeFilename = filename || `paper_${Date.now()}.pdf`;
+    const safeFilename = sanitizeFilename(filename);
     
     res.setHeader('Content-Type', 'application/pdf');
     res.setHeader('Content-Disposition', `attachment; filename="${safeFilename}"`);
     res.setHeader('Content-Length', pdfBuffer.length);
+    res.setHeader('X-PDF-Cache', cached ? 'HIT' : 'MISS');
     
     // Send the PDF buffer
     res.send(pdfBuffer);
 
-    // Clean up the local file after sending
-    setTimeout(() => {
-      PDFProcessor.cleanupLocalFile(localFilePath);
-    }, 1000);
-
   } catch (error) {
+    if (error instanceof PdfResolutionError) {
+      return res.status(error.retryable ? 502 : 404).json({
+        error: 'Failed to download PDF',
+        details: error.message
+      });
+    }
+
+    if (error instanceof PDFDownloadError) {
+      return res.status(error.status).json({
+        error: 'Failed to download PDF',
+        details: error.message
+      });
+    }
+
     console.error('Error downloading PDF:', error);
     res.status(500).json({ 
       error: 'Failed to download PDF',
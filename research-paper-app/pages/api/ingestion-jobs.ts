@@ -0,0 +1,79 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getCollection } from '@/lib/supabase';
+import {
+  getLatestIngestionJobs,
+  retryIngestionJob,
+  startIngestionWorker
+} from '@/lib/ingestion-queue';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  switch (req.method) {
+    case 'GET':
+      return handleGetJobs(req, res);
+    case 'POST':
+      return handleJobAction(req, res);
+    default:
+      return res.status(405).json({ error: 'Method not allowed' });
+  }
+}
+
+// GET ?collectionId=... or ?paperId=... returns the latest job per paper
+async function handleGetJobs(req: NextApiRequest, res: NextApiResponse) {
+  const { collectionId, paperId } = req.query;
+
+  try {
+    let paperIds: string[];
+    if (collectionId) {
+      const collection = await getCollection(collectionId as string);
+      if (!collection) {
+        return res.status(404).json({ error: 'Collection not found' });
+      }
+      paperIds = collection.papers.map(p => p.paperId);
+    } else if (paperId) {
+      paperIds = [paperId as string];
+    } else {
+      return res.status(400).json({ error: 'Collection ID or paper ID is required' });
+    }
+
+    const jobs = await getLatestIngestionJobs(paperIds);
+    return res.status(200).json({ success: true, data: jobs });
+  } catch (error) {
+    console.error('Error fetching ingestion jobs:', error);
+    return res.status(500).json({ error: 'Failed to fetch ingestion jobs' });
+  }
+}
+
+// POST { action: 'retry', jobId } requeues a failed job and starts the worker.
+// POST { action: 'run' } works through the queue before responding, for use
+// from a scheduled task.
+async function handleJobAction(req: NextApiRequest, res: NextApiResponse) {
+  const { action, jobId } = req.body;
+
+  try {
+    if (action === 'retry') {
+      if (!jobId) {
+        return res.status(400).json({ error: 'Job ID is required' });
+      }
+
+      const job = await retryIngestionJob(jobId);
+      if (!job) {
+        return res.status(409).json({ error: 'Only failed jobs can be retried' });
+      }
+
+      return res.status(200).json({ success: true, data: job });
+    }
+
+    if (action === 'run') {
+      await startIngestionWorker();
+      return res.status(200).json({ success: true, message: 'Ingestion queue processed' });
+    }
+
+    return res.status(400).json({ error: 'Unknown action' });
+  } catch (error) {
+    console.error('Error handling ingestion job action:', error);
+    return res.status(500).json({ error: 'Failed to handle ingestion job action' });
+  }
+}
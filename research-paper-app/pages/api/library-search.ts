@@ -0,0 +1,54 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { VectorStore } from '@/lib/vector-store';
+import { getCollection } from '@/lib/supabase';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+// Hybrid keyword + vector search over the papers ingested locally.
+// GET ?q=...&limit=...&collectionId=... (collectionId narrows the search
+// to one collection's papers)
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { q, limit, collectionId } = req.query;
+
+  if (!q || typeof q !== 'string' || !q.trim()) {
+    return res.status(400).json({ error: 'Search query is required' });
+  }
+
+  const parsedLimit = typeof limit === 'string' ? parseInt(limit, 10) : DEFAULT_LIMIT;
+  const safeLimit = Math.min(Math.max(parsedLimit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  try {
+    let paperIds: string[] | undefined;
+    if (typeof collectionId === 'string' && collectionId) {
+      const collection = await getCollection(collectionId);
+      if (!collection) {
+        return res.status(404).json({ error: 'Collection not found' });
+      }
+      paperIds = collection.papers.map(paper => paper.paperId);
+    }
+
+    const vectorStore = new VectorStore();
+    const data = await vectorStore.searchLibrary(q.trim(), { limit: safeLimit, paperIds });
+
+    res.status(200).json({
+      success: true,
+      data,
+      query: q.trim(),
+      count: data.length
+    });
+  } catch (error) {
+    console.error('Error searching library:', error);
+    res.status(500).json({
+      error: 'Failed to search library',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { VectorStore } from '@/lib/vector-store';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { paperId } = req.query;
+
+  if (!paperId || typeof paperId !== 'string') {
+    return res.status(400).json({ error: 'Paper ID is required' });
+  }
+
+  try {
+    const vectorStore = new VectorStore();
+    const entry = await vectorStore.getPaper(paperId);
+
+    if (!entry) {
+      return res.status(404).json({
+        error: 'Paper not processed',
+        details: 'Process this paper\'s PDF to extract its tables and figures.'
+      });
+    }
+
+    const data = entry.figures || [];
+    res.status(200).json({
+      success: true,
+      data,
+      tableCount: data.filter(figure => figure.kind === 'table').length,
+      figureCount: data.filter(figure => figure.kind === 'figure').length,
+      // Entries processed before extraction need their PDF processed again
+      needsReprocessing: !entry.figures
+    });
+  } catch (error) {
+    console.error('Error fetching figures:', error);
+    res.status(500).json({
+      error: 'Failed to fetch figures',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
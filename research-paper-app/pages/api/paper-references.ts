@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { VectorStore } from '@/lib/vector-store';
+import { parseReferences } from '@/lib/reference-parser';
+import { resolveReferences } from '@/lib/reference-resolver';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { paperId, refresh } = req.query;
+
+  if (!paperId || typeof paperId !== 'string') {
+    return res.status(400).json({ error: 'Paper ID is required' });
+  }
+
+  try {
+    const vectorStore = new VectorStore();
+    const entry = await vectorStore.getPaper(paperId);
+
+    if (!entry) {
+      return res.status(404).json({
+        error: 'Paper not processed',
+        details: 'Process this paper\'s PDF to extract its references.'
+      });
+    }
+
+    // Papers processed before references were linked get them on first view
+    let linkedReferences = entry.linkedReferences;
+    if ((!linkedReferences || refresh === 'true') && entry.document?.references) {
+      linkedReferences = await resolveReferences(parseReferences(entry.document.references));
+      await vectorStore.updatePaper(paperId, { linkedReferences });
+    }
+
+    const data = linkedReferences || [];
+    res.status(200).json({
+      success: true,
+      data,
+      count: data.length,
+      matched: data.filter(reference => reference.match).length
+    });
+  } catch (error) {
+    console.error('Error fetching references:', error);
+    res.status(500).json({
+      error: 'Failed to fetch references',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,86 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { GeminiAIClient } from '@/lib/gemini-ai';
+import { LLM_CONFIGURATION_HINT } from '@/lib/llm-provider';
+import { VectorStore } from '@/lib/vector-store';
+import { getCachedSummary, cacheSummary } from '@/lib/supabase';
+import type { Paper, PaperSummaryEntry } from '@/types/paper';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { paperId, title, authors, year, abstract, refresh = false } = req.body;
+
+  if (!paperId || !title) {
+    return res.status(400).json({ error: 'Paper ID and title are required' });
+  }
+
+  try {
+    if (!refresh) {
+      try {
+        const cached = await getCachedSummary(paperId);
+        if (cached) {
+          return res.status(200).json({ success: true, data: cached, fromCache: true });
+        }
+      } catch (error) {
+        console.warn('Summary cache lookup failed:', error);
+      }
+    }
+
+    // Prefer the processed full text; fall back to the abstract
+    const vectorStore = new VectorStore();
+    const entry = await vectorStore.getPaper(paperId);
+    const fullText = entry?.fullText || null;
+
+    if (!fullText && !abstract) {
+      return res.status(400).json({
+        error: 'Not enough text to summarize',
+        details: 'This paper has no abstract. Process its PDF first to generate a summary from the full text.'
+      });
+    }
+
+    const client = new GeminiAIClient();
+    if (!client.isConfigured()) {
+      return res.status(400).json({
+        error: 'AI provider not configured',
+        details: `${client.getProviderName()}: ${LLM_CONFIGURATION_HINT}`
+      });
+    }
+
+    const paper: Paper = {
+      paperId,
+      title,
+      authors: authors || [],
+      year: year || null,
+      abstract: entry?.abstract || abstract || null,
+      fullText
+    };
+
+    const summary = await client.generateStructuredSummary(paper);
+    const result: PaperSummaryEntry = {
+      paperId,
+      summary,
+      source: fullText ? 'fullText' : 'abstract',
+      model: client.getModelName(),
+      createdAt: new Date().toISOString()
+    };
+
+    try {
+      await cacheSummary(result);
+    } catch (error) {
+      console.warn('Failed to cache summary:', error);
+    }
+
+    res.status(200).json({ success: true, data: result, fromCache: false });
+  } catch (error) {
+    console.error('Error generating structured summary:', error);
+    res.status(500).json({
+      error: 'Failed to generate summary',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -1,9 +1,10 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { OpenAlexCache } from '@/lib/openalex-cache';
-import { OpenAlexClient } from '@/lib/openalex-client';
+import { parseSearchQuery } from '@/lib/query-parser';
 import { 
   validateSearchQuery, 
   validateLimit, 
+  validateCursor,
   formatAPIResponse, 
   formatAPIError,
   retryWithBackoff 
@@ -20,41 +21,25 @@ export default async function handler(
   }
 
   try {
-    const { query, limit, filters } = req.body;
+    const { query, limit, filters, cursor } = req.body;
 
     // Validate input parameters
     validateSearchQuery(query);
+    // Reject malformed queries before anything is fetched or cached
+    parseSearchQuery(query);
     const safeLimit = validateLimit(limit);
+    // nextCursor of the previous response, for the following page
+    const safeCursor = validateCursor(cursor);
 
-    console.log(`Searching for: "${query}" with limit: ${safeLimit}`, { filters });
+    console.log(`Searching for: "${query}" with limit: ${safeLimit}, cursor: ${safeCursor}`, { filters });
 
-    let result: CacheResult;
-
-    // If filters are provided, use the new filtered search
-    if (filters) {
-      const client = new OpenAlexClient();
-      const openAlexResponse = await retryWithBackoff(
-        () => client.searchWorksWithFilters(query, filters, { limit: safeLimit }),
-        3, // max retries
-        1000 // base delay
-      );
-
-      const transformedResults = client.transformResults(openAlexResponse);
-      
-      result = {
-        successful: transformedResults,
-        rateLimited: 0,
-        fromCache: [],
-        totalRequested: transformedResults.length
-      };
-    } else {
-      // Use the existing caching system for backward compatibility
-      result = await retryWithBackoff(
-        () => OpenAlexCache.searchWithCaching(query, safeLimit),
-        3, // max retries
-        1000 // base delay
-      );
-    }
+    // Filtered and unfiltered searches share the browser/Supabase cache;
+    // filters and sort are part of the cache key
+    const result: CacheResult = await retryWithBackoff(
+      () => OpenAlexCache.searchWithCaching(query, safeLimit, safeCursor, filters),
+      3, // max retries
+      1000 // base delay
+    );
 
     // Return the results with cache information
     const cacheInfo = {
@@ -65,7 +50,13 @@ export default async function handler(
       totalRequested: result.totalRequested
     };
 
-    return res.status(200).json(formatAPIResponse(result, cacheInfo));
+    // Paging: pass meta.nextCursor back as cursor for more results
+    const meta = {
+      count: result.totalCount ?? result.successful.length,
+      nextCursor: result.nextCursor ?? null
+    };
+
+    return res.status(200).json(formatAPIResponse(result, cacheInfo, meta));
 
   } catch (error) {
     console.error('Search API error:', error);
@@ -1,4 +1,5 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { createLLMProvider, getGoogleAIApiKey } from '@/lib/llm-provider';
 
 export default async function handler(
   req: NextApiRequest,
@@ -12,13 +13,20 @@ export default async function handler(
     supabaseUrl: !!process.env.NEXT_PUBLIC_SUPABASE_URL,
     supabaseAnonKey: !!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
     supabaseServiceKey: !!process.env.SUPABASE_SERVICE_ROLE_KEY,
-    geminiApiKey: !!process.env.GOOGLE_AI_API_KEY,
+    geminiApiKey: !!getGoogleAIApiKey(),
   };
 
+  const llm = createLLMProvider();
+
   res.status(200).json({
     success: true,
     data: {
       environmentVariables: envVars,
+      llmProvider: {
+        name: llm.name,
+        model: llm.defaultModel,
+        configured: llm.isConfigured()
+      },
       message: 'Environment variables check completed'
     }
   });
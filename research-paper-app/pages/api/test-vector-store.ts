@@ -28,6 +28,7 @@ export default async function handler(
           hasAbstract: !!paper.abstract,
           hasFullText: !!paper.fullText,
           embeddingLength: paper.embedding.length,
+          embeddingProvider: paper.embeddingProvider || null,
           timestamp: paper.timestamp
         }))
       }
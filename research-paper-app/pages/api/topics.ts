@@ -0,0 +1,46 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { OpenAlexClient } from '@/lib/openalex-client';
+import {
+  APIValidationError,
+  formatAPIResponse,
+  formatAPIError,
+  retryWithBackoff
+} from '../../utils/api-utils';
+
+const MAX_SUGGESTIONS = 15;
+
+// Topic autocomplete for the search filters: GET ?q=...
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { q } = req.query;
+
+    if (typeof q !== 'string' || q.trim().length < 2) {
+      throw new APIValidationError('Query must be at least 2 characters', 'q');
+    }
+    if (q.length > 100) {
+      throw new APIValidationError('Query is too long', 'q');
+    }
+
+    const client = new OpenAlexClient();
+    const suggestions = await retryWithBackoff(
+      () => client.autocompleteTopics(q.trim(), MAX_SUGGESTIONS),
+      2, // max retries
+      500 // base delay
+    );
+
+    return res.status(200).json(formatAPIResponse(suggestions));
+  } catch (error) {
+    console.error('Topic autocomplete error:', error);
+
+    const errorResponse = formatAPIError(error, 'Failed to look up topics');
+
+    return res.status(errorResponse.status || 500).json(errorResponse);
+  }
+}
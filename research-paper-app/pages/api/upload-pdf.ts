@@ -0,0 +1,207 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import crypto from 'crypto';
+import type { Paper } from '@/types/paper';
+import { PDFProcessor, type ProcessedPDF } from '@/lib/pdf-processor';
+import { ingestProcessedPdf, IngestionError } from '@/lib/paper-ingestion';
+import { findOpenAlexMatch, type OpenAlexMatch } from '@/lib/reference-resolver';
+import { addPaperToCollection } from '@/lib/supabase';
+import { PdfStore } from '@/lib/pdf-store';
+
+// The multipart body is read by hand so its size can be capped while it
+// streams in
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+const MAX_UPLOAD_BYTES = (parseInt(process.env.MAX_UPLOAD_MB || '25', 10) || 25) * 1024 * 1024;
+// How long the rest of an oversized upload is drained after the 413 has
+// been sent before the connection is dropped
+const OVERSIZE_DRAIN_MS = 5 * 1000;
+
+class UploadError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+// Oversized bodies are discarded rather than cut off, so the client can
+// still read the 413 response
+function readBody(req: NextApiRequest, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () => {
+      req.removeListener('data', onData);
+      req.resume();
+      reject(new UploadError(`File is larger than ${maxBytes / 1024 / 1024} MB`, 413));
+    };
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+
+    const onData = (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > maxBytes) {
+        tooLarge();
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    const declaredLength = parseInt(req.headers['content-length'] || '0', 10);
+    if (declaredLength > maxBytes) {
+      tooLarge();
+      return;
+    }
+
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// Close the connection once the error response is out, giving up on the
+// rest of the body if it is still arriving after OVERSIZE_DRAIN_MS
+function closeAfterResponse(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader('Connection', 'close');
+  res.on('finish', () => {
+    if (req.complete) return;
+    const timer = setTimeout(() => req.destroy(), OVERSIZE_DRAIN_MS);
+    req.on('end', () => clearTimeout(timer));
+  });
+}
+
+// Paper for an upload that has no OpenAlex match, keyed by file content so
+// uploading the same file twice replaces the earlier entry
+function paperFromPdf(pdfBuffer: Buffer, pdfData: ProcessedPDF, filename: string): Paper {
+  const metadata = PDFProcessor.extractMetadata(pdfData);
+  const hash = crypto.createHash('sha256').update(pdfBuffer).digest('hex');
+
+  return {
+    paperId: `upload-${hash.slice(0, 16)}`,
+    title: metadata.title || filename.replace(/\.pdf$/i, ''),
+    abstract: metadata.abstract,
+    year: metadata.year,
+    doi: metadata.doi,
+    authors: metadata.authors.map((name, index) => ({
+      authorId: `upload-${hash.slice(0, 8)}-${index}`,
+      name
+    })),
+    isOpenAccess: false,
+    pdfUrl: null
+  };
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const contentType = req.headers['content-type'] || '';
+  if (!contentType.startsWith('multipart/form-data')) {
+    return res.status(415).json({ error: 'Expected a multipart/form-data upload' });
+  }
+
+  try {
+    const body = await readBody(req, MAX_UPLOAD_BYTES);
+    const form = await new Response(new Uint8Array(body), { headers: { 'Content-Type': contentType } }).formData();
+
+    const file = form.get('file');
+    if (!file || typeof file === 'string') {
+      return res.status(400).json({ error: 'A PDF file is required in the "file" field' });
+    }
+
+    const pdfBuffer = Buffer.from(await file.arrayBuffer());
+    if (!PDFProcessor.isPDF(pdfBuffer)) {
+      return res.status(415).json({ error: 'File is not a PDF' });
+    }
+
+    let pdfData: ProcessedPDF;
+    try {
+      pdfData = await PDFProcessor.processPDFBuffer(pdfBuffer);
+    } catch (error) {
+      return res.status(422).json({
+        success: false,
+        error: 'PDF processing failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    // Matching is optional and best effort: an unmatched upload is still
+    // ingested under its own ID
+    let match: OpenAlexMatch | null = null;
+    if (form.get('matchOpenAlex') !== 'false') {
+      const metadata = PDFProcessor.extractMetadata(pdfData);
+      try {
+        match = await findOpenAlexMatch(metadata);
+      } catch (error) {
+        console.warn('OpenAlex lookup for uploaded PDF failed:', error);
+      }
+    }
+
+    const paper: Paper = match
+      ? { ...match.paper, abstract: match.paper.abstract || pdfData.document?.abstract || null }
+      : paperFromPdf(pdfBuffer, pdfData, file.name || 'Uploaded paper');
+
+    // Keep the upload so the paper can be downloaded and reprocessed later
+    const stored = await new PdfStore().save(pdfBuffer, { paperId: paper.paperId, source: 'upload' });
+
+    console.log(`📤 Ingesting uploaded PDF "${file.name}" as paper ${paper.paperId}${match ? ` (matched by ${match.matchedBy})` : ''}`);
+    const { entry, introduction, conclusion, pageCount } = await ingestProcessedPdf(paper, {
+      ...pdfData,
+      localFilePath: stored.filePath,
+      pdfHash: stored.hash
+    }, undefined, { pdfSource: 'upload' });
+
+    const collectionId = form.get('collectionId');
+    let addedToCollection = false;
+    if (typeof collectionId === 'string' && collectionId) {
+      addedToCollection = await addPaperToCollection(collectionId, paper);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        paper,
+        matchedBy: match?.matchedBy || null,
+        addedToCollection,
+        textLength: entry.fullText?.length || 0,
+        pageCount,
+        abstract: entry.abstract,
+        introduction,
+        conclusion,
+        sectionCount: entry.document?.sections.length || 0,
+        hasReferences: !!entry.document?.references,
+        figureCount: entry.figures?.length || 0,
+        embeddingProvider: entry.embeddingProvider,
+        passageCount: entry.chunks?.length || 0,
+        ocrApplied: !!entry.metadata.ocr,
+        addedToVectorStore: true
+      }
+    });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      if (error.status === 413) {
+        closeAfterResponse(req, res);
+      }
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof IngestionError) {
+      return res.status(422).json({
+        success: false,
+        error: 'PDF processing failed',
+        details: error.message
+      });
+    }
+
+    console.error('Error processing uploaded PDF:', error);
+    res.status(500).json({
+      error: 'Failed to process uploaded PDF',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import Link from 'next/link';
+import type { GetServerSideProps } from 'next';
+import type { AuthorProfile, Paper } from '@/types/paper';
+import { OpenAlexClient } from '@/lib/openalex-client';
+import { PaperCard } from '@/components/PaperCard';
+import { CollectionsManager } from '@/components/CollectionsManager';
+import CitationsByYearChart from '@/components/CitationsByYearChart';
+
+const TOP_WORKS = 20;
+
+interface AuthorPageProps {
+  author: AuthorProfile;
+  works: Paper[];
+}
+
+// getServerSideProps cannot return undefined values
+function toSerializablePaper(paper: Paper): Paper {
+  return {
+    ...paper,
+    year: paper.year ?? null,
+    venue: paper.venue ?? null,
+    url: paper.url ?? null,
+    doi: paper.doi ?? null,
+    pdfUrl: paper.pdfUrl ?? null,
+    type: paper.type ?? null
+  };
+}
+
+function formatYears(years: number[]): string {
+  if (years.length === 0) return '';
+  const first = Math.min(...years);
+  const last = Math.max(...years);
+  return first === last ? `${first}` : `${first}–${last}`;
+}
+
+export const getServerSideProps: GetServerSideProps<AuthorPageProps> = async (context) => {
+  const { id } = context.params || {};
+  const authorId = typeof id === 'string' ? id.toUpperCase() : '';
+  if (!/^A\d+$/.test(authorId)) {
+    return { notFound: true };
+  }
+
+  const client = new OpenAlexClient();
+  const [author, works] = await Promise.all([
+    client.getAuthor(authorId),
+    client.getAuthorWorks(authorId, TOP_WORKS)
+  ]);
+
+  if (!author) {
+    return { notFound: true };
+  }
+
+  return {
+    props: {
+      author: client.transformAuthor(author),
+      works: client.transformResults(works).map(toSerializablePaper)
+    }
+  };
+};
+
+export default function AuthorPage({ author, works }: AuthorPageProps) {
+  const router = useRouter();
+  const [selectedPaper, setSelectedPaper] = useState<Paper | null>(null);
+
+  const stats = [
+    { label: 'Works', value: author.worksCount },
+    { label: 'Citations', value: author.citationCount },
+    { label: 'h-index', value: author.hIndex },
+    { label: 'i10-index', value: author.i10Index }
+  ];
+
+  return (
+    <>
+      <Head>
+        <title>{author.name} - Research Paper Search</title>
+        <meta name="description" content={`Publications and citation metrics for ${author.name}`} />
+      </Head>
+
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Navigation */}
+          <div className="flex items-center justify-between mb-6">
+            <button
+              onClick={() => router.back()}
+              className="flex items-center text-blue-600 hover:text-blue-800"
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+              Go Back
+            </button>
+
+            <Link
+              href="/collections"
+              className="flex items-center text-gray-600 hover:text-gray-800"
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+              </svg>
+              Collections
+            </Link>
+          </div>
+
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">{author.name}</h1>
+            <div className="text-sm text-gray-600 space-y-1">
+              {author.affiliations[0] && (
+                <p>{author.affiliations[0].name}</p>
+              )}
+              {author.orcid && (
+                <p>
+                  ORCID:{' '}
+                  <a
+                    href={author.orcid}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    {author.orcid.split('/').pop()}
+                  </a>
+                </p>
+              )}
+              <p>
+                <a
+                  href={`https://openalex.org/${author.authorId}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  View on OpenAlex
+                </a>
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+            <div className="lg:col-span-3 space-y-6">
+              {/* Metrics */}
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {stats.map(stat => (
+                  <div key={stat.label} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                    <p className="text-sm text-gray-500">{stat.label}</p>
+                    <p className="text-2xl font-semibold text-gray-900">
+                      {stat.value != null ? stat.value.toLocaleString() : '—'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {/* Citations per year */}
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Citations per Year</h2>
+                <CitationsByYearChart counts={author.countsByYear} />
+              </div>
+
+              {/* Top works */}
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Most Cited Works</h2>
+                {works.length === 0 ? (
+                  <p className="text-sm text-gray-500">No works found for this author.</p>
+                ) : (
+                  <div className="space-y-4">
+                    {works.map(paper => (
+                      <PaperCard key={paper.paperId} paper={paper} onSelect={setSelectedPaper} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Sidebar */}
+            <div className="lg:col-span-1 space-y-6">
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">Affiliations</h3>
+                {author.affiliations.length === 0 ? (
+                  <p className="text-sm text-gray-500">No affiliations recorded.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {author.affiliations.map(affiliation => (
+                      <li key={affiliation.institutionId} className="text-sm">
+                        <p className="text-gray-900">{affiliation.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {[affiliation.countryCode, formatYears(affiliation.years)].filter(Boolean).join(' · ')}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {selectedPaper && (
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                  <div className="flex items-start justify-between mb-3">
+                    <p className="text-sm font-medium text-gray-900">{selectedPaper.title}</p>
+                    <button
+                      onClick={() => setSelectedPaper(null)}
+                      className="ml-2 text-gray-400 hover:text-gray-600"
+                    >
+                      ×
+                    </button>
+                  </div>
+                  <CollectionsManager selectedPaper={selectedPaper} />
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
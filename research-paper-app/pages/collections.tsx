@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
 import Link from 'next/link';
-import type { Collection, Paper } from '@/types/paper';
+import type { Collection, Paper, IngestionJob } from '@/types/paper';
 import { CollectionsManager } from '@/components/CollectionsManager';
 import { PaperChat } from '@/components/PaperChat';
 import CollectionBubbleGraph from '@/components/CollectionBubbleGraph';
+import { IngestionStatusBadge } from '@/components/IngestionStatusBadge';
+import { PdfUploadButton } from '@/components/PdfUploadButton';
+
+const INGESTION_POLL_INTERVAL_MS = 3000;
 
 export default function CollectionsPage() {
   const router = useRouter();
@@ -13,11 +17,69 @@ export default function CollectionsPage() {
   const [activeTab, setActiveTab] = useState<'overview' | 'chat' | 'graph'>('overview');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [ingestionJobs, setIngestionJobs] = useState<Record<string, IngestionJob>>({});
 
   useEffect(() => {
     fetchCollections();
   }, []);
 
+  const selectedCollectionId = selectedCollection?.id;
+  const hasActiveJobs = Object.values(ingestionJobs).some(
+    job => job.status === 'pending' || job.status === 'running'
+  );
+
+  // Load processing status for the selected collection's papers
+  useEffect(() => {
+    setIngestionJobs({});
+    if (selectedCollectionId) {
+      fetchIngestionJobs(selectedCollectionId);
+    }
+  }, [selectedCollectionId, selectedCollection?.papers.length]);
+
+  // Keep polling while any paper is still being processed
+  useEffect(() => {
+    if (!selectedCollectionId || !hasActiveJobs) return;
+
+    const timer = setInterval(() => fetchIngestionJobs(selectedCollectionId), INGESTION_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [selectedCollectionId, hasActiveJobs]);
+
+  const fetchIngestionJobs = async (collectionId: string) => {
+    try {
+      const response = await fetch(`/api/ingestion-jobs?collectionId=${collectionId}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        const jobs: Record<string, IngestionJob> = {};
+        (data.data as IngestionJob[]).forEach(job => {
+          jobs[job.paperId] = job;
+        });
+        setIngestionJobs(jobs);
+      }
+    } catch (error) {
+      console.error('Error fetching ingestion jobs:', error);
+    }
+  };
+
+  const handleRetryIngestion = async (jobId: string) => {
+    try {
+      const response = await fetch('/api/ingestion-jobs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'retry', jobId }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setIngestionJobs(prev => ({ ...prev, [data.data.paperId]: data.data }));
+      }
+    } catch (error) {
+      console.error('Error retrying ingestion job:', error);
+    }
+  };
+
   const fetchCollections = async () => {
     setLoading(true);
     setError(null);
@@ -47,6 +109,25 @@ export default function CollectionsPage() {
     router.push(`/paper/${paper.paperId}`);
   };
 
+  // Uploads are added to the collection server-side; reload it to show them
+  const handleUploadedPaper = async (collectionId: string) => {
+    try {
+      const response = await fetch(`/api/collections?id=${collectionId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setCollections(prev => prev.map(c =>
+          c.id === collectionId ? data.data : c
+        ));
+
+        if (selectedCollection?.id === collectionId) {
+          setSelectedCollection(data.data);
+        }
+      }
+    } catch (error) {
+      console.error('Error reloading collection after upload:', error);
+    }
+  };
+
   const handleRemovePaper = async (collectionId: string, paperId: string) => {
     try {
       const collection = collections.find(c => c.id === collectionId);
@@ -272,13 +353,19 @@ export default function CollectionsPage() {
                 <div className="p-6">
                   {activeTab === 'overview' ? (
                     <div>
+                      <div className="flex justify-end mb-4">
+                        <PdfUploadButton
+                          collectionId={selectedCollection.id}
+                          onUploaded={() => handleUploadedPaper(selectedCollection.id)}
+                        />
+                      </div>
                       {selectedCollection.papers.length === 0 ? (
                         <div className="text-center py-8">
                           <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                           </svg>
                           <p className="mt-2 text-gray-500">No papers in this collection</p>
-                          <p className="text-sm text-gray-400">Add papers from search results or paper details</p>
+                          <p className="text-sm text-gray-400">Add papers from search results or paper details, or upload a PDF</p>
                         </div>
                       ) : (
                         <div className="space-y-4">
@@ -311,6 +398,10 @@ export default function CollectionsPage() {
                                     {paper.citationCount && (
                                       <span>{paper.citationCount} citations</span>
                                     )}
+                                    <IngestionStatusBadge
+                                      job={ingestionJobs[paper.paperId]}
+                                      onRetry={handleRetryIngestion}
+                                    />
                                   </div>
                                 </div>
                                 <button
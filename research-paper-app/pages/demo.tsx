@@ -1,7 +1,7 @@
 import React from 'react';
 import Head from 'next/head';
 import SearchResults from '@/components/SearchResults';
-import type { Paper } from '@/types/paper';
+import type { Paper, SearchPage } from '@/types/paper';
 
 // Mock data for demo
 const mockPapers: Paper[] = [
@@ -49,13 +49,15 @@ const mockPapers: Paper[] = [
 ];
 
 export default function DemoPage() {
-  const handleSearch = async (query: string) => {
+  const handleSearch = async (query: string): Promise<SearchPage> => {
     // Simulate API delay
     await new Promise(resolve => setTimeout(resolve, 1000));
-    return mockPapers.filter(paper => 
+    const papers = mockPapers.filter(paper => 
       paper.title.toLowerCase().includes(query.toLowerCase()) ||
       paper.abstract?.toLowerCase().includes(query.toLowerCase())
     );
+    // The mock data fits on one page
+    return { papers, nextCursor: null, totalCount: papers.length };
   };
 
   return (
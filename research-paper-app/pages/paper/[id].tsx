@@ -6,8 +6,12 @@ import type { GetServerSideProps } from 'next';
 import type { Paper } from '@/types/paper';
 import { OpenAlexClient, type OpenAlexWork } from '@/lib/openalex-client';
 import { CitationsList } from '@/components/CitationsList';
+import { LinkedReferencesList } from '@/components/LinkedReferencesList';
+import { FiguresTablesPanel } from '@/components/FiguresTablesPanel';
 import { PaperChat } from '@/components/PaperChat';
 import { CollectionsManager } from '@/components/CollectionsManager';
+import { StructuredSummaryPanel } from '@/components/StructuredSummaryPanel';
+import { AuthorLinks } from '@/components/AuthorLinks';
 
 interface PaperDetailPageProps {
   paper: Paper | null;
@@ -68,7 +72,7 @@ export const getServerSideProps: GetServerSideProps<PaperDetailPageProps> = asyn
 
 export default function PaperDetailPage({ paper }: PaperDetailPageProps) {
   const router = useRouter();
-  const [activeTab, setActiveTab] = useState<'abstract' | 'citations' | 'chat' | 'collections'>('abstract');
+  const [activeTab, setActiveTab] = useState<'abstract' | 'summary' | 'citations' | 'references' | 'figures' | 'chat' | 'collections'>('abstract');
   const [showChat, setShowChat] = useState(false);
 
   if (!paper) {
@@ -82,11 +86,6 @@ export default function PaperDetailPage({ paper }: PaperDetailPageProps) {
     );
   }
 
-  const formatAuthors = (authors?: Array<{ name: string }>) => {
-    if (!authors || authors.length === 0) return 'Unknown authors';
-    return authors.map(a => a.name).join(', ');
-  };
-
   return (
     <>
       <Head>
@@ -204,7 +203,7 @@ export default function PaperDetailPage({ paper }: PaperDetailPageProps) {
 
             {/* Authors and Year */}
             <p className="text-lg text-gray-700 mb-4">
-              {formatAuthors(paper.authors)} {paper.year}
+              <AuthorLinks authors={paper.authors} /> {paper.year}
             </p>
 
             {/* Keywords/Tags */}
@@ -234,6 +233,16 @@ export default function PaperDetailPage({ paper }: PaperDetailPageProps) {
                 >
                   Abstract
                 </button>
+                <button
+                  onClick={() => setActiveTab('summary')}
+                  className={`pb-2 px-1 border-b-2 font-medium text-sm ${
+                    activeTab === 'summary'
+                      ? 'border-purple-500 text-purple-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  AI Summary
+                </button>
                 <button
                   onClick={() => setActiveTab('citations')}
                   className={`pb-2 px-1 border-b-2 font-medium text-sm ${
@@ -244,6 +253,26 @@ export default function PaperDetailPage({ paper }: PaperDetailPageProps) {
                 >
                   Citations
                 </button>
+                <button
+                  onClick={() => setActiveTab('references')}
+                  className={`pb-2 px-1 border-b-2 font-medium text-sm ${
+                    activeTab === 'references'
+                      ? 'border-purple-500 text-purple-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  References
+                </button>
+                <button
+                  onClick={() => setActiveTab('figures')}
+                  className={`pb-2 px-1 border-b-2 font-medium text-sm ${
+                    activeTab === 'figures'
+                      ? 'border-purple-500 text-purple-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  Figures &amp; Tables
+                </button>
                 <button
                   onClick={() => setActiveTab('chat')}
                   className={`pb-2 px-1 border-b-2 font-medium text-sm ${
@@ -285,11 +314,26 @@ export default function PaperDetailPage({ paper }: PaperDetailPageProps) {
                     )}
                   </div>
                 )}
+                {activeTab === 'summary' && (
+                  <div>
+                    <StructuredSummaryPanel paper={paper} />
+                  </div>
+                )}
                 {activeTab === 'citations' && (
                   <div>
                     <CitationsList paperId={paper.paperId} />
                   </div>
                 )}
+                {activeTab === 'references' && (
+                  <div>
+                    <LinkedReferencesList paperId={paper.paperId} />
+                  </div>
+                )}
+                {activeTab === 'figures' && (
+                  <div>
+                    <FiguresTablesPanel paperId={paper.paperId} />
+                  </div>
+                )}
                 {activeTab === 'chat' && (
                   <div className="h-96">
                     <PaperChat paperId={paper.paperId} paperTitle={paper.title} />
@@ -346,6 +390,7 @@ export default function PaperDetailPage({ paper }: PaperDetailPageProps) {
                           headers: { 'Content-Type': 'application/json' },
                           body: JSON.stringify({
                             pdfUrl: paper.pdfUrl,
+                            paperId: paper.paperId,
                             filename: `${paper.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.pdf`
                           })
                         });
@@ -380,7 +425,8 @@ export default function PaperDetailPage({ paper }: PaperDetailPageProps) {
             <div className="mb-8">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Process Paper</h3>
               <div className="space-y-3">
-                {paper.pdfUrl && (
+                {/* The server also tries other open access locations */}
+                {(paper.pdfUrl || paper.isOpenAccess) && (
                   <button 
                     onClick={async () => {
                       try {
@@ -392,15 +438,20 @@ export default function PaperDetailPage({ paper }: PaperDetailPageProps) {
                             pdfUrl: paper.pdfUrl,
                             title: paper.title,
                             authors: paper.authors,
-                            abstract: paper.abstract
+                            abstract: paper.abstract,
+                            year: paper.year,
+                            doi: paper.doi,
+                            url: paper.url
                           })
                         });
                         
                         const data = await response.json();
                         if (response.ok) {
-                          alert('Paper processed successfully! You can now chat with it.');
+                          alert(data.data?.ocrApplied
+                            ? 'Paper processed successfully! Some pages were scanned images and were read with OCR, so the text may contain errors. You can now chat with it.'
+                            : 'Paper processed successfully! You can now chat with it.');
                         } else {
-                          alert('Error processing paper: ' + data.error);
+                          alert('Error processing paper: ' + (data.details || data.error));
                         }
                       } catch (error) {
                         alert('Error processing paper: ' + error);
@@ -6,7 +6,10 @@ const testFilters = {
   openAccess: true,
   minCitations: 100,
   sortBy: 'cited_by_count:desc',
-  topics: ['computer-science', 'artificial-intelligence']
+  topics: [
+    { id: 'C41008148', displayName: 'Computer science', kind: 'concept' },
+    { id: 'C154945302', displayName: 'Artificial intelligence', kind: 'concept' }
+  ]
 };
 
 // Test the API endpoint
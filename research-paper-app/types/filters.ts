@@ -5,13 +5,22 @@ export interface Filters {
   openAccess: boolean;
   minCitations: number;
   sortBy: string;
-  topics: string[]; // OpenAlex field IDs
+  topics: TopicFilter[];
 }
 
-export interface ResearchTopic {
-  id: string;
-  name: string;
+// OpenAlex topic (T...) or concept (C...) selected as a filter. The display
+// name is kept alongside the ID so chips can be shown without a lookup.
+export interface TopicFilter {
+  id: string; // short OpenAlex ID, e.g. "C41008148"
   displayName: string;
+  kind: 'topic' | 'concept';
+}
+
+// Autocomplete result from /api/topics
+export interface TopicSuggestion extends TopicFilter {
+  // Where the topic sits in OpenAlex's hierarchy, e.g. its field
+  hint?: string | null;
+  worksCount?: number;
 }
 
 export interface FilterOption {
@@ -45,27 +54,24 @@ export const SORT_OPTIONS: FilterOption[] = [
   { value: 'cited_by_count:asc', label: 'Least Cited' }
 ];
 
-export const RESEARCH_TOPICS: ResearchTopic[] = [
-  { id: 'computer-science', name: 'Computer Science', displayName: 'Computer Science' },
-  { id: 'medicine', name: 'Medicine', displayName: 'Medicine' },
-  { id: 'biology', name: 'Biology', displayName: 'Biology' },
-  { id: 'physics', name: 'Physics', displayName: 'Physics' },
-  { id: 'chemistry', name: 'Chemistry', displayName: 'Chemistry' },
-  { id: 'engineering', name: 'Engineering', displayName: 'Engineering' },
-  { id: 'mathematics', name: 'Mathematics', displayName: 'Mathematics' },
-  { id: 'psychology', name: 'Psychology', displayName: 'Psychology' },
-  { id: 'economics', name: 'Economics', displayName: 'Economics' },
-  { id: 'environmental-science', name: 'Environmental Science', displayName: 'Environmental Science' },
-  { id: 'materials-science', name: 'Materials Science', displayName: 'Materials Science' },
-  { id: 'neuroscience', name: 'Neuroscience', displayName: 'Neuroscience' },
-  { id: 'artificial-intelligence', name: 'Artificial Intelligence', displayName: 'Artificial Intelligence' },
-  { id: 'machine-learning', name: 'Machine Learning', displayName: 'Machine Learning' },
-  { id: 'climate-change', name: 'Climate Change', displayName: 'Climate Change' },
-  { id: 'cancer-research', name: 'Cancer Research', displayName: 'Cancer Research' },
-  { id: 'genetics', name: 'Genetics', displayName: 'Genetics' },
-  { id: 'energy', name: 'Energy', displayName: 'Energy' },
-  { id: 'social-sciences', name: 'Social Sciences', displayName: 'Social Sciences' },
-  { id: 'education', name: 'Education', displayName: 'Education' }
+// Shown before the user types; OpenAlex level-0/1 concepts
+export const SUGGESTED_TOPICS: TopicFilter[] = [
+  { id: 'C41008148', displayName: 'Computer science', kind: 'concept' },
+  { id: 'C154945302', displayName: 'Artificial intelligence', kind: 'concept' },
+  { id: 'C119857082', displayName: 'Machine learning', kind: 'concept' },
+  { id: 'C71924100', displayName: 'Medicine', kind: 'concept' },
+  { id: 'C86803240', displayName: 'Biology', kind: 'concept' },
+  { id: 'C54355233', displayName: 'Genetics', kind: 'concept' },
+  { id: 'C169760540', displayName: 'Neuroscience', kind: 'concept' },
+  { id: 'C121332964', displayName: 'Physics', kind: 'concept' },
+  { id: 'C185592680', displayName: 'Chemistry', kind: 'concept' },
+  { id: 'C192562407', displayName: 'Materials science', kind: 'concept' },
+  { id: 'C127413603', displayName: 'Engineering', kind: 'concept' },
+  { id: 'C33923547', displayName: 'Mathematics', kind: 'concept' },
+  { id: 'C39432304', displayName: 'Environmental science', kind: 'concept' },
+  { id: 'C15744967', displayName: 'Psychology', kind: 'concept' },
+  { id: 'C162324750', displayName: 'Economics', kind: 'concept' },
+  { id: 'C144024400', displayName: 'Sociology', kind: 'concept' }
 ];
 
 export const DEFAULT_FILTERS: Filters = {
@@ -3,6 +3,30 @@ export interface AuthorSummary {
   name: string;
 }
 
+// OpenAlex author profile shown on /author/[id]
+export interface AuthorProfile {
+  authorId: string;
+  name: string;
+  orcid?: string | null;
+  worksCount: number;
+  citationCount: number;
+  hIndex?: number | null;
+  i10Index?: number | null;
+  // Institutions with the years the author published there, most recent first
+  affiliations: Array<{
+    institutionId: string;
+    name: string;
+    countryCode?: string | null;
+    years: number[];
+  }>;
+  // Oldest year first; OpenAlex only reports roughly the last ten years
+  countsByYear: Array<{
+    year: number;
+    worksCount: number;
+    citationCount: number;
+  }>;
+}
+
 export interface Citation {
   paperId: string;
   title: string;
@@ -48,26 +72,163 @@ export interface Collection {
   updatedAt: string;
 }
 
+// Passage of a paper's full text retrieved for a question
+export interface PassageMatch {
+  paperId: string;
+  title: string;
+  chunkIndex: number;
+  // Null for a table or figure whose caption is not found in the full text
+  start: number | null;
+  end: number | null;
+  text: string;
+  score: number;
+  // Set when the passage is a table or figure rather than running text
+  figureLabel?: string;
+}
+
+// Excerpt shown in library search results. highlights are [start, end)
+// character ranges of the matched words within text.
+export interface LibrarySnippet {
+  field: 'abstract' | 'passage';
+  text: string;
+  highlights: Array<[number, number]>;
+  chunkIndex?: number;
+  figureLabel?: string;
+}
+
+// Paper found by hybrid (keyword + vector) search over the local library
+export interface LibrarySearchResult {
+  paperId: string;
+  title: string;
+  titleHighlights: Array<[number, number]>;
+  authors?: string;
+  year?: number;
+  score: number;
+  // 1-based positions in the keyword and vector rankings; null when the
+  // paper was only found by the other one
+  textRank: number | null;
+  vectorRank: number | null;
+  snippets: LibrarySnippet[];
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  passages?: PassageMatch[];
+  // Citation markers in content that did not map to a supplied passage
+  unsupportedCitations?: number[];
 }
 
+// A chat belongs to either a single paper or a collection
 export interface ChatSession {
   id: string;
-  paperId: string;
+  paperId?: string | null;
+  collectionId?: string | null;
+  title: string;
   messages: ChatMessage[];
   createdAt: string;
   updatedAt: string;
 }
 
+// Section of a parsed PDF, in reading order. Pages are 1-based.
+export interface DocumentSection {
+  heading: string;
+  // Section number as printed, e.g. "3.2"; null for unnumbered headings
+  number: string | null;
+  level: number;
+  text: string;
+  pageStart: number;
+  pageEnd: number;
+}
+
+export interface ParsedDocument {
+  title: string | null;
+  abstract: string | null;
+  sections: DocumentSection[];
+  // Raw text of the references / bibliography block, one PDF line per line
+  references: string | null;
+  pageCount: number;
+}
+
+// Table or figure found by its caption in a parsed PDF. Pages are 1-based.
+export interface DocumentFigure {
+  kind: 'table' | 'figure';
+  // Normalised label, e.g. "Table 2" for "TABLE II" or "Tab. 2"
+  label: string;
+  number: string;
+  caption: string;
+  // Rows of text printed next to a table caption, one per line; null for
+  // figures, whose text is mostly axis labels
+  content: string | null;
+  page: number;
+}
+
+// One bibliography entry, split into fields where they could be recognised
+export interface ParsedReference {
+  raw: string;
+  authors: string[];
+  title: string | null;
+  year: number | null;
+  venue: string | null;
+  doi: string | null;
+}
+
+// Reference resolved against OpenAlex; match is null when nothing was found
+export interface LinkedReference extends ParsedReference {
+  index: number;
+  match: Paper | null;
+  matchedBy: 'doi' | 'title' | null;
+}
+
+// Summary generated from a paper's text, following a fixed JSON schema
+export interface StructuredSummary {
+  researchQuestion: string;
+  methods: string[];
+  datasets: string[];
+  keyFindings: string[];
+  limitations: string[];
+  futureWork: string[];
+}
+
+export interface PaperSummaryEntry {
+  paperId: string;
+  summary: StructuredSummary;
+  // Whether the summary was generated from the full text or only the abstract
+  source: 'fullText' | 'abstract';
+  model: string;
+  createdAt: string;
+}
+
+export type IngestionJobStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+// Background job that prepares a paper for chat (download, parse, embed)
+export interface IngestionJob {
+  id: string;
+  paperId: string;
+  collectionId?: string | null;
+  paper: Paper;
+  status: IngestionJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  error?: string | null;
+  nextAttemptAt: string;
+  startedAt?: string | null;
+  finishedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface CacheResult {
   successful: Paper[];
   rateLimited: number;
   fromCache: Paper[];
   totalRequested: number;
+  // Cursor for the next page of the same search; null on the last page
+  nextCursor?: string | null;
+  // Total matches reported by OpenAlex (meta.count)
+  totalCount?: number;
 }
 
 export interface SearchCacheEntry {
@@ -77,7 +238,16 @@ export interface SearchCacheEntry {
   totalRequested: number;
   successfulCount: number;
   rateLimitedCount: number;
+  nextCursor?: string | null;
+  totalCount?: number;
   updatedAt: string;
   expiresAt: string;
 }
 
+// One page of search results as shown in the UI
+export interface SearchPage {
+  papers: Paper[];
+  nextCursor: string | null;
+  totalCount: number;
+}
+
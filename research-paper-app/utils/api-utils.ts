@@ -44,11 +44,8 @@ export function validateSearchQuery(query: string): void {
     throw new APIValidationError('Query is too long. Please use a shorter search term.', 'query');
   }
 
-  // Check for potentially problematic characters
-  const problematicPatterns = /[<>{}[\]\\]/;
-  if (problematicPatterns.test(query)) {
-    throw new APIValidationError('Query contains invalid characters', 'query');
-  }
+  // Syntax (quotes, parentheses, AND/OR/NOT, field prefixes) is checked by
+  // parseSearchQuery in lib/query-parser
 }
 
 export function validateLimit(limit: any): number {
@@ -71,6 +68,23 @@ export function validateLimit(limit: any): number {
   return Math.floor(limit); // Ensure it's an integer
 }
 
+// OpenAlex paging cursor; missing means the first page ('*')
+export function validateCursor(cursor: any): string {
+  if (cursor === undefined || cursor === null || cursor === '') {
+    return '*';
+  }
+
+  if (typeof cursor !== 'string') {
+    throw new APIValidationError('Cursor must be a string', 'cursor');
+  }
+
+  if (cursor.length > 1000 || !/^[A-Za-z0-9+/=_*-]+$/.test(cursor)) {
+    throw new APIValidationError('Cursor is not valid', 'cursor');
+  }
+
+  return cursor;
+}
+
 export function validateYear(year: any): number | undefined {
   if (year === undefined || year === null) {
     return undefined;
@@ -177,12 +191,13 @@ export class RateLimiter {
 }
 
 // Response formatting utilities
-export function formatAPIResponse<T>(data: T, cacheInfo?: any) {
+export function formatAPIResponse<T>(data: T, cacheInfo?: any, meta?: any) {
   return {
     success: true,
     data,
     timestamp: new Date().toISOString(),
-    ...(cacheInfo && { cacheInfo })
+    ...(cacheInfo && { cacheInfo }),
+    ...(meta && { meta })
   };
 }
 
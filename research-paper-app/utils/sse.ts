@@ -0,0 +1,69 @@
+import type { NextApiResponse } from 'next';
+
+// Server-sent events helpers for streaming API routes and their clients
+
+export interface SSEEvent {
+  event: string;
+  data: any;
+}
+
+export function initSSE(res: NextApiResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive'
+  });
+  res.flushHeaders?.();
+}
+
+export function sendSSE(res: NextApiResponse, event: string, data: any): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Abort controller that fires when the client disconnects or presses Stop
+export function abortOnClose(res: NextApiResponse): AbortController {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  return controller;
+}
+
+// Browser side: read an SSE response body and hand each event to onEvent
+export async function readSSEStream(response: Response, onEvent: (event: SSEEvent) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() || '';
+
+    for (const block of blocks) {
+      let event = 'message';
+      const dataLines: string[] = [];
+
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).trim());
+        }
+      }
+
+      if (dataLines.length > 0) {
+        onEvent({ event, data: JSON.parse(dataLines.join('\n')) });
+      }
+    }
+  }
+}